@@ -18,6 +18,7 @@ import {
   UpcomingShoot,
   getAllInvoices,
   getAllUpcomingShoots,
+  getNetTotal,
   formatCurrency,
   getMonthName,
 } from '@/lib/storage';
@@ -101,7 +102,7 @@ export default function CalendarTab() {
           title: inv.customerNames || 'Invoice Event',
           location: inv.eventLocation || '',
           type: 'invoice',
-          price: inv.fullPrice,
+          price: String(getNetTotal(inv)),
           phone: inv.phoneNumber,
         });
       }
@@ -10,31 +10,49 @@ import {
   RefreshControl,
   Image,
   TextInput,
+  ScrollView,
 } from 'react-native';
 import { router, useFocusEffect } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Ionicons, Feather, MaterialCommunityIcons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
-import Colors from '@/constants/colors';
+import Colors, { INVOICE_STATUS_COLORS } from '@/constants/colors';
 import { useTheme } from '@/lib/theme-context';
 import { useBranding } from '@/lib/branding-context';
-import { Invoice, getAllInvoices, deleteInvoice, getTotal, searchInvoices, formatCurrency, formatDate } from '@/lib/storage';
+import { useUndo } from '@/lib/undo-context';
+import { cancelReminder } from '@/lib/notifications';
+import {
+  Invoice,
+  InvoiceStatus,
+  INVOICE_STATUSES,
+  INVOICE_STATUS_LABELS,
+  getAllInvoices,
+  deleteInvoice,
+  getNetTotal,
+  getInvoiceBalance,
+  searchInvoices,
+  filterInvoicesByStatus,
+  formatCurrency,
+  formatDate,
+} from '@/lib/storage';
 
 export default function InvoicesTab() {
   const insets = useSafeAreaInsets();
   const { colors: themeColors, invoiceColors } = useTheme();
+  const { showUndo } = useUndo();
   const { branding } = useBranding();
   const [invoices, setInvoices] = useState<Invoice[]>([]);
-  const [filtered, setFiltered] = useState<Invoice[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [showSearch, setShowSearch] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<InvoiceStatus | 'all'>('all');
   const [refreshing, setRefreshing] = useState(false);
 
   const loadInvoices = useCallback(async () => {
     const data = await getAllInvoices();
     setInvoices(data);
-    setFiltered(searchQuery ? searchInvoices(data, searchQuery) : data);
-  }, [searchQuery]);
+  }, []);
+
+  const filtered = filterInvoicesByStatus(searchQuery ? searchInvoices(invoices, searchQuery) : invoices, statusFilter);
 
   useFocusEffect(
     useCallback(() => {
@@ -44,7 +62,11 @@ export default function InvoicesTab() {
 
   const handleSearch = (text: string) => {
     setSearchQuery(text);
-    setFiltered(text ? searchInvoices(invoices, text) : invoices);
+  };
+
+  const handleStatusFilter = (status: InvoiceStatus | 'all') => {
+    setStatusFilter(status);
+    if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
   };
 
   const onRefresh = async () => {
@@ -56,7 +78,7 @@ export default function InvoicesTab() {
   const handleDelete = (id: string, name: string) => {
     Alert.alert(
       'Delete Invoice',
-      `Are you sure you want to delete the invoice for ${name}?`,
+      `Move the invoice for ${name} to the trash?`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -64,27 +86,26 @@ export default function InvoicesTab() {
           style: 'destructive',
           onPress: async () => {
             await deleteInvoice(id);
+            cancelReminder(`invoice_${id}`).catch(() => {});
             if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
             loadInvoices();
+            showUndo(`Invoice for ${name} moved to trash`, id, loadInvoices);
           },
         },
       ]
     );
   };
 
-  const totalRevenue = invoices.reduce((sum, inv) => sum + getTotal(inv), 0);
-  const totalBalance = invoices.reduce((sum, inv) => {
-    const total = getTotal(inv);
-    const advance = parseFloat(inv.advancePayment) || 0;
-    return sum + (total - advance);
-  }, 0);
+  const activeInvoices = invoices.filter(inv => inv.status !== 'cancelled');
+  const totalRevenue = activeInvoices.reduce((sum, inv) => sum + getNetTotal(inv), 0);
+  const totalBalance = activeInvoices.reduce((sum, inv) => sum + getInvoiceBalance(inv), 0);
 
   const webTopInset = Platform.OS === 'web' ? 67 : 0;
 
   const renderInvoiceCard = ({ item }: { item: Invoice }) => {
-    const total = getTotal(item);
-    const advance = parseFloat(item.advancePayment) || 0;
-    const balance = total - advance;
+    const total = getNetTotal(item);
+    const balance = getInvoiceBalance(item);
+    const statusColor = INVOICE_STATUS_COLORS[item.status];
 
     return (
       <Pressable
@@ -102,14 +123,21 @@ export default function InvoicesTab() {
             </View>
             <View style={styles.cardInfo}>
               <Text style={[styles.cardCustomer, { color: themeColors.textPrimary }]} numberOfLines={1}>{item.customerNames}</Text>
-              <Text style={[styles.cardInvoiceNo, { color: themeColors.textMuted }]}>#{item.invoiceNumber}</Text>
+              <View style={styles.cardNoRow}>
+                <Text style={[styles.cardInvoiceNo, { color: themeColors.textMuted }]}>#{item.invoiceNumber}</Text>
+                <View style={[styles.statusBadge, { backgroundColor: statusColor + '20' }]}>
+                  <Text style={[styles.statusBadgeText, { color: statusColor }]}>{INVOICE_STATUS_LABELS[item.status]}</Text>
+                </View>
+              </View>
             </View>
           </View>
           <View style={styles.cardRight}>
             <Text style={[styles.cardTotal, { color: themeColors.textPrimary }]}>{formatCurrency(total)}</Text>
-            <Text style={[styles.cardBalance, balance > 0 ? styles.balanceDue : styles.balancePaid]}>
-              {balance > 0 ? `Due: ${formatCurrency(balance)}` : 'Paid'}
-            </Text>
+            {item.status !== 'cancelled' && (
+              <Text style={[styles.cardBalance, balance > 0 ? styles.balanceDue : styles.balancePaid]}>
+                {balance > 0 ? `Due: ${formatCurrency(balance)}` : 'Paid'}
+              </Text>
+            )}
           </View>
         </View>
         <View style={[styles.cardBottom, { borderTopColor: themeColors.border }]}>
@@ -159,6 +187,12 @@ export default function InvoicesTab() {
           </View>
         </View>
         <View style={styles.headerRight}>
+          <Pressable onPress={() => router.push('/quotes')} hitSlop={8}>
+            <MaterialCommunityIcons name="file-document-edit-outline" size={21} color={themeColors.textPrimary} />
+          </Pressable>
+          <Pressable onPress={() => router.push('/clients')} hitSlop={8}>
+            <Ionicons name="people-outline" size={21} color={themeColors.textPrimary} />
+          </Pressable>
           <Pressable onPress={() => setShowSearch(!showSearch)} hitSlop={8}>
             <Feather name="search" size={20} color={themeColors.textPrimary} />
           </Pressable>
@@ -217,8 +251,35 @@ export default function InvoicesTab() {
         </View>
       </View>
 
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.filterScroll}
+        contentContainerStyle={styles.filterRow}
+      >
+        {(['all', ...INVOICE_STATUSES] as const).map(status => {
+          const active = statusFilter === status;
+          const chipColor = status === 'all' ? invoiceColors.primary : INVOICE_STATUS_COLORS[status];
+          return (
+            <Pressable
+              key={status}
+              style={[
+                styles.filterChip,
+                { borderColor: themeColors.border },
+                active && { backgroundColor: chipColor, borderColor: chipColor },
+              ]}
+              onPress={() => handleStatusFilter(status)}
+            >
+              <Text style={[styles.filterChipText, { color: themeColors.textSecondary }, active && { color: '#fff' }]}>
+                {status === 'all' ? 'All' : INVOICE_STATUS_LABELS[status]}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </ScrollView>
+
       <View style={styles.listHeader}>
-        <Text style={[styles.listTitle, { color: themeColors.textPrimary }]}>{searchQuery ? 'Search Results' : 'Recent Invoices'}</Text>
+        <Text style={[styles.listTitle, { color: themeColors.textPrimary }]}>{searchQuery || statusFilter !== 'all' ? 'Filtered Invoices' : 'Recent Invoices'}</Text>
         <Text style={[styles.listCount, { color: themeColors.textMuted }]}>{filtered.length} total</Text>
       </View>
 
@@ -354,6 +415,24 @@ const styles = StyleSheet.create({
     color: Colors.textMuted,
     marginTop: 2,
   },
+  filterScroll: {
+    flexGrow: 0,
+    marginBottom: 16,
+  },
+  filterRow: {
+    paddingHorizontal: 20,
+    gap: 8,
+  },
+  filterChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 7,
+    borderRadius: 20,
+    borderWidth: 1.5,
+  },
+  filterChipText: {
+    fontSize: 12,
+    fontFamily: 'Inter_600SemiBold',
+  },
   listHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -424,8 +503,22 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontFamily: 'Inter_400Regular',
     color: Colors.textMuted,
+  },
+  cardNoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
     marginTop: 2,
   },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+  },
+  statusBadgeText: {
+    fontSize: 10,
+    fontFamily: 'Inter_600SemiBold',
+  },
   cardRight: {
     alignItems: 'flex-end',
   },
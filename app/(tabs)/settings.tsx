@@ -9,7 +9,9 @@ import {
   Switch,
   Alert,
   TextInput,
+  ActivityIndicator,
 } from 'react-native';
+import { router } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Ionicons, Feather, MaterialCommunityIcons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
@@ -27,18 +29,35 @@ import {
   setupNotifications,
   rescheduleAllReminders,
 } from '@/lib/notifications';
-import { getAllUpcomingShoots, getAllInvoices } from '@/lib/storage';
+import { getAllUpcomingShoots, getAllInvoices, formatDate } from '@/lib/storage';
+import {
+  BackupArchive,
+  RestoreMode,
+  COLLECTION_LABELS,
+  createBackup,
+  shareBackup,
+  pickBackupFile,
+  parseBackup,
+  summarizeBackup,
+  restoreBackup,
+} from '@/lib/backup';
+import { isEncryptedBackup, decryptBackup } from '@/lib/backup-crypto';
+import PassphraseModal from '@/components/PassphraseModal';
 
 type EditSection = 'business' | 'contact' | 'bank' | null;
 
 export default function SettingsTab() {
   const insets = useSafeAreaInsets();
-  const { mode, toggleMode, colors, invoiceColors, setInvoiceColors } = useTheme();
-  const { branding, updateBranding, resetBranding } = useBranding();
+  const { mode, toggleMode, colors, invoiceColors, setInvoiceColors, reloadTheme } = useTheme();
+  const { branding, updateBranding, resetBranding, reloadBranding } = useBranding();
   const [reminderSettings, setReminderSettings] = useState<ReminderSettings>(DEFAULT_REMINDER_SETTINGS);
   const [showBranding, setShowBranding] = useState(false);
   const [editingSection, setEditingSection] = useState<EditSection>(null);
   const [editDraft, setEditDraft] = useState<Record<string, string>>({});
+  const [backupBusy, setBackupBusy] = useState<'export' | 'restore' | null>(null);
+  const [passphrasePrompt, setPassphrasePrompt] = useState<{ mode: 'encrypt' } | { mode: 'decrypt'; text: string } | null>(null);
+  const [passphraseBusy, setPassphraseBusy] = useState(false);
+  const [passphraseError, setPassphraseError] = useState('');
 
   const webTopInset = Platform.OS === 'web' ? 67 : 0;
 
@@ -181,6 +200,117 @@ export default function SettingsTab() {
     );
   };
 
+  const exportBackup = async (passphrase?: string) => {
+    setBackupBusy('export');
+    try {
+      const archive = await createBackup();
+      await shareBackup(archive, passphrase);
+      if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch {
+      Alert.alert('Error', 'Failed to create backup');
+    } finally {
+      setBackupBusy(null);
+    }
+  };
+
+  const handleExportBackup = () => {
+    Alert.alert(
+      'Encrypt Backup?',
+      'Backups include client contact details and your bank account. Protect the file with a passphrase so only you can restore it.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'No Passphrase', onPress: () => exportBackup() },
+        { text: 'Encrypt', onPress: () => setPassphrasePrompt({ mode: 'encrypt' }) },
+      ]
+    );
+  };
+
+  const applyRestore = async (archive: BackupArchive, restoreMode: RestoreMode) => {
+    setBackupBusy('restore');
+    try {
+      await restoreBackup(archive, restoreMode);
+      await Promise.all([reloadTheme(), reloadBranding()]);
+      const restoredSettings = await getReminderSettings();
+      setReminderSettings(restoredSettings);
+      await handleReschedule(restoredSettings);
+      if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      Alert.alert('Restore Complete', restoreMode === 'replace' ? 'Your data was replaced with the backup.' : 'The backup was merged into your data.');
+    } catch {
+      Alert.alert('Error', 'Failed to restore backup');
+    } finally {
+      setBackupBusy(null);
+    }
+  };
+
+  const confirmReplace = (archive: BackupArchive) => {
+    Alert.alert(
+      'Replace All Data',
+      'Everything currently on this device will be deleted and replaced with the backup. This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Replace', style: 'destructive', onPress: () => applyRestore(archive, 'replace') },
+      ]
+    );
+  };
+
+  const previewRestore = (text: string) => {
+    let archive: BackupArchive;
+    try {
+      archive = parseBackup(text);
+    } catch (e) {
+      Alert.alert('Invalid Backup', e instanceof Error ? e.message : 'This file could not be read.');
+      return;
+    }
+    const summary = summarizeBackup(archive);
+    const lines = (Object.keys(summary.counts) as (keyof typeof summary.counts)[])
+      .map(key => `${COLLECTION_LABELS[key]}: ${summary.counts[key]}`);
+    lines.push(`Settings: ${summary.settingsCount}`);
+    Alert.alert(
+      'Restore Backup',
+      `Backup from ${formatDate(summary.createdAt)}\n\n${lines.join('\n')}\n\nMerge adds records you don't have and keeps your current settings. Replace deletes everything on this device first.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Merge', onPress: () => applyRestore(archive, 'merge') },
+        { text: 'Replace', style: 'destructive', onPress: () => confirmReplace(archive) },
+      ]
+    );
+  };
+
+  const handleRestoreBackup = async () => {
+    const text = await pickBackupFile();
+    if (!text) return;
+    if (isEncryptedBackup(text)) {
+      setPassphrasePrompt({ mode: 'decrypt', text });
+      return;
+    }
+    previewRestore(text);
+  };
+
+  const closePassphrasePrompt = () => {
+    setPassphrasePrompt(null);
+    setPassphraseError('');
+  };
+
+  const handlePassphraseSubmit = async (passphrase: string) => {
+    if (!passphrasePrompt) return;
+    if (passphrasePrompt.mode === 'encrypt') {
+      closePassphrasePrompt();
+      await exportBackup(passphrase);
+      return;
+    }
+    setPassphraseBusy(true);
+    setPassphraseError('');
+    try {
+      const text = await decryptBackup(passphrasePrompt.text, passphrase);
+      closePassphrasePrompt();
+      previewRestore(text);
+    } catch (e) {
+      setPassphraseError(e instanceof Error ? e.message : 'This backup could not be decrypted.');
+    } finally {
+      setPassphraseBusy(false);
+    }
+  };
+
   return (
     <View style={[styles.container, { paddingTop: insets.top + webTopInset, backgroundColor: colors.background }]}>
       <View style={styles.header}>
@@ -655,6 +785,121 @@ export default function SettingsTab() {
           </View>
         </View>
 
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>Invoicing</Text>
+          <Pressable
+            style={[styles.settingRow, { backgroundColor: colors.cardBackground, borderColor: colors.border }]}
+            onPress={() => router.push('/packages')}
+          >
+            <View style={styles.settingLeft}>
+              <View style={[styles.settingIcon, { backgroundColor: mode === 'dark' ? '#3A3020' : '#FFF8E7' }]}>
+                <MaterialCommunityIcons name="package-variant-closed" size={18} color={invoiceColors.gold} />
+              </View>
+              <View>
+                <Text style={[styles.settingLabel, { color: colors.textPrimary }]}>Packages</Text>
+                <Text style={[styles.settingHint, { color: colors.textMuted }]}>Reusable items and prices for new invoices</Text>
+              </View>
+            </View>
+            <Ionicons name="chevron-forward" size={18} color={colors.textMuted} />
+          </Pressable>
+          <Pressable
+            style={[styles.settingRow, { backgroundColor: colors.cardBackground, borderColor: colors.border }]}
+            onPress={() => router.push('/numbering')}
+          >
+            <View style={styles.settingLeft}>
+              <View style={[styles.settingIcon, { backgroundColor: mode === 'dark' ? '#3A3020' : '#FFF8E7' }]}>
+                <MaterialCommunityIcons name="pound" size={18} color={invoiceColors.gold} />
+              </View>
+              <View>
+                <Text style={[styles.settingLabel, { color: colors.textPrimary }]}>Invoice Numbering</Text>
+                <Text style={[styles.settingHint, { color: colors.textMuted }]}>Prefix, year and sequence for new invoices</Text>
+              </View>
+            </View>
+            <Ionicons name="chevron-forward" size={18} color={colors.textMuted} />
+          </Pressable>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>Backup & Restore</Text>
+          <Text style={[styles.sectionHint, { color: colors.textMuted }]}>
+            Save all invoices, shoots, expenses and settings to one file, or bring them back from a backup
+          </Text>
+
+          <Pressable
+            style={[styles.settingRow, { backgroundColor: colors.cardBackground, borderColor: colors.border }]}
+            onPress={handleExportBackup}
+            disabled={backupBusy !== null}
+          >
+            <View style={styles.settingLeft}>
+              <View style={[styles.settingIcon, { backgroundColor: mode === 'dark' ? '#1B3A2D' : '#E8F5E9' }]}>
+                <Feather name="upload" size={18} color="#4CAF50" />
+              </View>
+              <View>
+                <Text style={[styles.settingLabel, { color: colors.textPrimary }]}>Export Backup</Text>
+                <Text style={[styles.settingHint, { color: colors.textMuted }]}>Share a backup file, optionally encrypted</Text>
+              </View>
+            </View>
+            {backupBusy === 'export' ? (
+              <ActivityIndicator size="small" color={invoiceColors.gold} />
+            ) : (
+              <Ionicons name="chevron-forward" size={18} color={colors.textMuted} />
+            )}
+          </Pressable>
+
+          <Pressable
+            style={[styles.settingRow, { backgroundColor: colors.cardBackground, borderColor: colors.border }]}
+            onPress={handleRestoreBackup}
+            disabled={backupBusy !== null}
+          >
+            <View style={styles.settingLeft}>
+              <View style={[styles.settingIcon, { backgroundColor: mode === 'dark' ? '#2C1810' : '#FFF3E0' }]}>
+                <Feather name="download" size={18} color="#FF9800" />
+              </View>
+              <View>
+                <Text style={[styles.settingLabel, { color: colors.textPrimary }]}>Restore Backup</Text>
+                <Text style={[styles.settingHint, { color: colors.textMuted }]}>Merge or replace from a backup file</Text>
+              </View>
+            </View>
+            {backupBusy === 'restore' ? (
+              <ActivityIndicator size="small" color={invoiceColors.gold} />
+            ) : (
+              <Ionicons name="chevron-forward" size={18} color={colors.textMuted} />
+            )}
+          </Pressable>
+
+          <Pressable
+            style={[styles.settingRow, { backgroundColor: colors.cardBackground, borderColor: colors.border }]}
+            onPress={() => router.push('/import')}
+          >
+            <View style={styles.settingLeft}>
+              <View style={[styles.settingIcon, { backgroundColor: mode === 'dark' ? '#1A2A3A' : '#E3F2FD' }]}>
+                <MaterialCommunityIcons name="file-delimited-outline" size={18} color="#2196F3" />
+              </View>
+              <View>
+                <Text style={[styles.settingLabel, { color: colors.textPrimary }]}>Import from CSV</Text>
+                <Text style={[styles.settingHint, { color: colors.textMuted }]}>Bring in shoots, invoices or expenses</Text>
+              </View>
+            </View>
+            <Ionicons name="chevron-forward" size={18} color={colors.textMuted} />
+          </Pressable>
+
+          <Pressable
+            style={[styles.settingRow, { backgroundColor: colors.cardBackground, borderColor: colors.border }]}
+            onPress={() => router.push('/trash')}
+          >
+            <View style={styles.settingLeft}>
+              <View style={[styles.settingIcon, { backgroundColor: mode === 'dark' ? '#3A1A1A' : '#FDECEA' }]}>
+                <Feather name="trash-2" size={18} color="#E74C3C" />
+              </View>
+              <View>
+                <Text style={[styles.settingLabel, { color: colors.textPrimary }]}>Trash</Text>
+                <Text style={[styles.settingHint, { color: colors.textMuted }]}>Restore deleted invoices, shoots and expenses</Text>
+              </View>
+            </View>
+            <Ionicons name="chevron-forward" size={18} color={colors.textMuted} />
+          </Pressable>
+        </View>
+
         <View style={styles.section}>
           <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>About</Text>
           <View style={[styles.aboutCard, { backgroundColor: colors.cardBackground, borderColor: colors.border }]}>
@@ -675,6 +920,27 @@ export default function SettingsTab() {
           </View>
         </View>
       </ScrollView>
+
+      <PassphraseModal
+        visible={passphrasePrompt !== null}
+        title={passphrasePrompt?.mode === 'encrypt' ? 'Encrypt Backup' : 'Encrypted Backup'}
+        hint={passphrasePrompt?.mode === 'encrypt'
+          ? 'Choose a passphrase for this backup. It cannot be recovered if you forget it.'
+          : 'Enter the passphrase used when this backup was created.'}
+        confirm={passphrasePrompt?.mode === 'encrypt'}
+        busy={passphraseBusy}
+        error={passphraseError}
+        onSubmit={handlePassphraseSubmit}
+        onCancel={closePassphrasePrompt}
+        colors={{
+          background: colors.background,
+          cardBackground: colors.cardBackground,
+          textPrimary: colors.textPrimary,
+          textMuted: colors.textMuted,
+          border: colors.border,
+          accent: invoiceColors.gold,
+        }}
+      />
     </View>
   );
 }
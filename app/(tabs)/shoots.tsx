@@ -22,6 +22,8 @@ import Colors from '@/constants/colors';
 import DatePicker from '@/components/DatePicker';
 import TimePicker from '@/components/TimePicker';
 import { useTheme } from '@/lib/theme-context';
+import ClientAutocomplete from '@/components/ClientAutocomplete';
+import { useUndo } from '@/lib/undo-context';
 import {
   ShootEntry,
   ShootType,
@@ -33,6 +35,7 @@ import {
   searchShoots,
   formatCurrency,
   formatDate,
+  resolveClientId,
 } from '@/lib/storage';
 
 const SHOOT_TYPE_COLORS: Record<ShootType, string> = {
@@ -48,6 +51,7 @@ const SHOOT_TYPE_COLORS: Record<ShootType, string> = {
 export default function ShootsTab() {
   const insets = useSafeAreaInsets();
   const { colors: themeColors, invoiceColors } = useTheme();
+  const { showUndo } = useUndo();
   const [shoots, setShoots] = useState<ShootEntry[]>([]);
   const [filtered, setFiltered] = useState<ShootEntry[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
@@ -57,6 +61,7 @@ export default function ShootsTab() {
   const [editingId, setEditingId] = useState<string | null>(null);
 
   const [clientName, setClientName] = useState('');
+  const [clientId, setClientId] = useState('');
   const [shootDate, setShootDate] = useState('');
   const [shootTime, setShootTime] = useState('');
   const [shootLocation, setShootLocation] = useState('');
@@ -94,6 +99,7 @@ export default function ShootsTab() {
   const resetForm = () => {
     const now = new Date();
     setClientName('');
+    setClientId('');
     setShootDate(now.toISOString().split('T')[0]);
     setShootTime('');
     setShootLocation('');
@@ -116,6 +122,7 @@ export default function ShootsTab() {
   const openEditModal = (shoot: ShootEntry) => {
     setEditingId(shoot.id);
     setClientName(shoot.clientName || '');
+    setClientId(shoot.clientId || '');
     setShootDate(shoot.shootDate);
     setShootTime(shoot.shootTime || '');
     setShootLocation(shoot.shootLocation);
@@ -133,8 +140,11 @@ export default function ShootsTab() {
 
   const handleSave = async () => {
     try {
+      const phones = phoneNumbers.map(n => n.trim()).filter(n => n);
+      const linkedClientId = await resolveClientId(clientName, phones, clientId);
       if (editingId) {
         await updateShoot(editingId, {
+          clientId: linkedClientId,
           clientName: clientName.trim(),
           shootDate,
           shootTime: shootTime.trim(),
@@ -144,11 +154,12 @@ export default function ShootsTab() {
           shootType,
           price,
           advancePaid,
-          phoneNumber: phoneNumbers.map(n => n.trim()).filter(n => n).join(', '),
+          phoneNumber: phones.join(', '),
           notes: notes.trim(),
         });
       } else {
         await saveShoot({
+          clientId: linkedClientId,
           clientName: clientName.trim(),
           shootDate,
           shootTime: shootTime.trim(),
@@ -158,7 +169,7 @@ export default function ShootsTab() {
           shootType,
           price,
           advancePaid,
-          phoneNumber: phoneNumbers.map(n => n.trim()).filter(n => n).join(', '),
+          phoneNumber: phones.join(', '),
           notes: notes.trim(),
         });
       }
@@ -173,7 +184,7 @@ export default function ShootsTab() {
   const handleDelete = (id: string, name: string) => {
     Alert.alert(
       'Delete Shoot',
-      `Delete the shoot entry for ${name || 'this shoot'}?`,
+      `Move the shoot entry for ${name || 'this shoot'} to the trash?`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -183,6 +194,7 @@ export default function ShootsTab() {
             await deleteShoot(id);
             if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
             loadShoots();
+            showUndo(`Shoot for ${name || 'this shoot'} moved to trash`, id, loadShoots);
           },
         },
       ]
@@ -395,12 +407,21 @@ export default function ShootsTab() {
               <Text style={[styles.sectionTitle, { color: themeColors.textPrimary }]}>Client Info</Text>
               <View style={styles.fieldWrap}>
                 <Text style={[styles.label, { color: themeColors.textSecondary }]}>Client Name</Text>
-                <TextInput
-                  style={[styles.input, { backgroundColor: themeColors.cardBackground, borderColor: themeColors.border, color: themeColors.textPrimary }]}
+                <ClientAutocomplete
+                  inputStyle={[styles.input, { backgroundColor: themeColors.cardBackground, borderColor: themeColors.border, color: themeColors.textPrimary }]}
                   value={clientName}
-                  onChangeText={setClientName}
+                  onChangeText={(v) => {
+                    setClientName(v);
+                    setClientId('');
+                  }}
+                  onSelectClient={(client) => {
+                    setClientName(client.name);
+                    setClientId(client.id);
+                    if (client.phones.length > 0) setPhoneNumbers(client.phones);
+                  }}
+                  linked={!!clientId}
                   placeholder="Client or couple name"
-                  placeholderTextColor={themeColors.textMuted}
+                  colors={{ ...themeColors, accent: invoiceColors.gold }}
                 />
               </View>
               <View style={styles.row}>
@@ -34,17 +34,25 @@ import {
   getExpensesByMonth,
   getShootsByMonth,
   getMonthlyStats,
-  getTotal,
+  getNetTotal,
+  getNetPaid,
+  getTotalCredited,
+  getInvoiceBalance,
   formatCurrency,
   formatDate,
   getMonthName,
+  getAllUpcomingShoots,
 } from '@/lib/storage';
 import { generateMonthlyReportHTML } from '@/lib/monthly-report';
 import { useBranding } from '@/lib/branding-context';
+import { CsvDataset, CSV_DATASETS, buildCsvExport, shareCsvExport } from '@/lib/csv-export';
+import DatePicker from '@/components/DatePicker';
+import { useUndo } from '@/lib/undo-context';
 
 export default function SummaryTab() {
   const insets = useSafeAreaInsets();
   const { colors: themeColors, invoiceColors } = useTheme();
+  const { showUndo } = useUndo();
   const { branding } = useBranding();
   const [shoots, setShoots] = useState<ShootEntry[]>([]);
   const [invoices, setInvoices] = useState<Invoice[]>([]);
@@ -57,6 +65,11 @@ export default function SummaryTab() {
   const [addingExpense, setAddingExpense] = useState(false);
   const [expenseDesc, setExpenseDesc] = useState('');
   const [expenseAmount, setExpenseAmount] = useState('');
+  const [csvOpen, setCsvOpen] = useState(false);
+  const [csvDataset, setCsvDataset] = useState<CsvDataset>('invoices');
+  const [csvFrom, setCsvFrom] = useState('');
+  const [csvTo, setCsvTo] = useState('');
+  const [csvExporting, setCsvExporting] = useState(false);
 
   const now = new Date();
   const [selectedYear, setSelectedYear] = useState(now.getFullYear());
@@ -103,11 +116,13 @@ export default function SummaryTab() {
   }, [invoices, selectedYear, selectedMonth]);
 
   const invoiceStats = useMemo(() => {
-    const totalInvoices = monthlyInvoices.length;
-    const totalRevenue = monthlyInvoices.reduce((sum, inv) => sum + (parseFloat(inv.fullPrice) || 0), 0);
-    const totalAdvance = monthlyInvoices.reduce((sum, inv) => sum + (parseFloat(inv.advancePayment) || 0), 0);
-    const totalPending = totalRevenue - totalAdvance;
-    return { totalInvoices, totalRevenue, totalAdvance, totalPending };
+    const activeInvoices = monthlyInvoices.filter(inv => inv.status !== 'cancelled');
+    const totalInvoices = activeInvoices.length;
+    const totalRevenue = activeInvoices.reduce((sum, inv) => sum + getNetTotal(inv), 0);
+    const totalPaid = activeInvoices.reduce((sum, inv) => sum + getNetPaid(inv), 0);
+    const totalCredited = activeInvoices.reduce((sum, inv) => sum + getTotalCredited(inv.creditNotes), 0);
+    const totalPending = totalRevenue - totalPaid;
+    return { totalInvoices, totalRevenue, totalPaid, totalPending, totalCredited };
   }, [monthlyInvoices]);
 
   const monthlyExpenses = useMemo(() => {
@@ -137,7 +152,7 @@ export default function SummaryTab() {
   };
 
   const handleDeleteExpense = (id: string, desc: string) => {
-    Alert.alert('Delete Expense', `Remove "${desc}"?`, [
+    Alert.alert('Delete Expense', `Move "${desc}" to the trash?`, [
       { text: 'Cancel', style: 'cancel' },
       {
         text: 'Delete',
@@ -146,6 +161,7 @@ export default function SummaryTab() {
           await deleteExpense(id);
           await loadData();
           if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+          showUndo(`"${desc}" moved to trash`, id, loadData);
         },
       },
     ]);
@@ -215,6 +231,38 @@ export default function SummaryTab() {
     }
   };
 
+  const openCsvExport = () => {
+    const lastDay = new Date(selectedYear, selectedMonth + 1, 0).getDate();
+    const month = String(selectedMonth + 1).padStart(2, '0');
+    setCsvFrom(`${selectedYear}-${month}-01`);
+    setCsvTo(`${selectedYear}-${month}-${String(lastDay).padStart(2, '0')}`);
+    setCsvOpen(true);
+    if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+  };
+
+  const handleExportCSV = async () => {
+    if (csvFrom && csvTo && csvFrom > csvTo) {
+      Alert.alert('Invalid Range', 'The start date must be before the end date.');
+      return;
+    }
+    setCsvExporting(true);
+    try {
+      const upcoming = await getAllUpcomingShoots();
+      const result = buildCsvExport(csvDataset, { invoices, shoots, upcoming, expenses }, { from: csvFrom, to: csvTo });
+      if (result.rowCount === 0) {
+        Alert.alert('No Data', 'There is nothing to export for this date range.');
+        return;
+      }
+      await shareCsvExport(result);
+      setCsvOpen(false);
+      if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch {
+      Alert.alert('Error', 'Failed to export CSV');
+    } finally {
+      setCsvExporting(false);
+    }
+  };
+
   const reportRef = useRef<View>(null);
   const [reportReady, setReportReady] = useState(false);
 
@@ -301,6 +349,12 @@ export default function SummaryTab() {
               <Ionicons name="image-outline" size={18} color="#fff" />
             )}
           </Pressable>
+          <Pressable
+            style={({ pressed }) => [styles.exportBtn, { backgroundColor: invoiceColors.primary }, pressed && { opacity: 0.8 }]}
+            onPress={openCsvExport}
+          >
+            <MaterialCommunityIcons name="file-delimited-outline" size={18} color="#fff" />
+          </Pressable>
           <Pressable
             style={({ pressed }) => [styles.exportBtn, { backgroundColor: invoiceColors.darkGreen }, pressed && { opacity: 0.8 }, exporting && { opacity: 0.5 }]}
             onPress={handleExportPDF}
@@ -449,8 +503,8 @@ export default function SummaryTab() {
 
         <View style={styles.statsGrid}>
           <View style={[styles.smallStatCard, { backgroundColor: themeColors.cardBackground }]}>
-            <Text style={[styles.smallStatLabel, { color: themeColors.textMuted }]}>Advance Received</Text>
-            <Text style={[styles.smallStatValue, { color: '#27AE60' }]}>LKR {formatCurrency(invoiceStats.totalAdvance)}</Text>
+            <Text style={[styles.smallStatLabel, { color: themeColors.textMuted }]}>Payments Received</Text>
+            <Text style={[styles.smallStatValue, { color: '#27AE60' }]}>LKR {formatCurrency(invoiceStats.totalPaid)}</Text>
           </View>
           <View style={[styles.smallStatCard, { backgroundColor: themeColors.cardBackground }]}>
             <Text style={[styles.smallStatLabel, { color: themeColors.textMuted }]}>Pending Balance</Text>
@@ -467,9 +521,8 @@ export default function SummaryTab() {
               <Text style={[styles.tableHeaderText, { flex: 1, textAlign: 'right' as const, color: themeColors.textPrimary }]}>Total</Text>
             </View>
             {monthlyInvoices.map((inv) => {
-              const total = parseFloat(inv.fullPrice) || 0;
-              const advance = parseFloat(inv.advancePayment) || 0;
-              const balance = total - advance;
+              const total = getNetTotal(inv);
+              const balance = getInvoiceBalance(inv);
               return (
                 <View key={inv.id} style={[styles.tableRow, { borderBottomColor: themeColors.border }]}>
                   <Text style={[styles.tableCell, { flex: 1, color: invoiceColors.gold }]}>#{inv.invoiceNumber}</Text>
@@ -477,9 +530,13 @@ export default function SummaryTab() {
                     <Text style={[styles.tableCell, { color: themeColors.textPrimary }]} numberOfLines={1}>
                       {inv.customerNames}
                     </Text>
-                    <Text style={[styles.tableSub, { color: balance > 0 ? '#C0392B' : '#27AE60' }]}>
-                      {balance > 0 ? `Bal: ${formatCurrency(balance)}` : 'Fully Paid'}
-                    </Text>
+                    {inv.status === 'cancelled' ? (
+                      <Text style={[styles.tableSub, { color: themeColors.textMuted }]}>Cancelled</Text>
+                    ) : (
+                      <Text style={[styles.tableSub, { color: balance > 0 ? '#C0392B' : '#27AE60' }]}>
+                        {balance > 0 ? `Bal: ${formatCurrency(balance)}` : 'Fully Paid'}
+                      </Text>
+                    )}
                   </View>
                   <Text style={[styles.tableCellBold, { flex: 1, textAlign: 'right' as const, color: invoiceColors.darkGreen }]}>
                     {formatCurrency(total)}
@@ -670,6 +727,81 @@ export default function SummaryTab() {
         </Pressable>
       </Modal>
 
+      <Modal visible={csvOpen} transparent animationType="fade" onRequestClose={() => setCsvOpen(false)}>
+        <Pressable style={styles.modalOverlay} onPress={() => setCsvOpen(false)}>
+          <Pressable style={[styles.calendarModal, { backgroundColor: themeColors.cardBackground }]} onPress={() => {}}>
+            <View style={styles.calendarHeader}>
+              <Text style={[styles.calendarYearText, { color: themeColors.textPrimary }]}>Export CSV</Text>
+              <Pressable onPress={() => setCsvOpen(false)} hitSlop={12}>
+                <Ionicons name="close" size={22} color={themeColors.textMuted} />
+              </Pressable>
+            </View>
+
+            <View style={styles.csvDatasetGrid}>
+              {CSV_DATASETS.map(option => {
+                const isSelected = option.id === csvDataset;
+                return (
+                  <Pressable
+                    key={option.id}
+                    style={[
+                      styles.csvDatasetChip,
+                      { borderColor: isSelected ? invoiceColors.gold : themeColors.border },
+                      isSelected && { backgroundColor: invoiceColors.gold },
+                    ]}
+                    onPress={() => setCsvDataset(option.id)}
+                  >
+                    <Text style={[styles.csvDatasetText, { color: isSelected ? '#fff' : themeColors.textSecondary }]}>
+                      {option.label}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+
+            <View style={styles.csvRangeRow}>
+              {[{ label: 'From', value: csvFrom, onChange: setCsvFrom }, { label: 'To', value: csvTo, onChange: setCsvTo }].map(field => (
+                <View key={field.label} style={{ flex: 1 }}>
+                  <Text style={[styles.csvRangeLabel, { color: themeColors.textMuted }]}>{field.label}</Text>
+                  <DatePicker
+                    value={field.value}
+                    onChange={field.onChange}
+                    placeholder="Any date"
+                    colors={{
+                      background: themeColors.background,
+                      cardBackground: themeColors.cardBackground,
+                      textPrimary: themeColors.textPrimary,
+                      textSecondary: themeColors.textSecondary,
+                      textMuted: themeColors.textMuted,
+                      border: themeColors.border,
+                      accent: invoiceColors.gold,
+                      accentDark: invoiceColors.darkGreen,
+                    }}
+                  />
+                </View>
+              ))}
+            </View>
+            <Pressable onPress={() => { setCsvFrom(''); setCsvTo(''); }} hitSlop={8}>
+              <Text style={[styles.csvClearText, { color: invoiceColors.gold }]}>All dates</Text>
+            </Pressable>
+
+            <Pressable
+              style={({ pressed }) => [styles.csvExportBtn, { backgroundColor: invoiceColors.darkGreen }, pressed && { opacity: 0.8 }, csvExporting && { opacity: 0.5 }]}
+              onPress={handleExportCSV}
+              disabled={csvExporting}
+            >
+              {csvExporting ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <>
+                  <Feather name="download" size={16} color="#fff" />
+                  <Text style={styles.csvExportText}>Export CSV</Text>
+                </>
+              )}
+            </Pressable>
+          </Pressable>
+        </Pressable>
+      </Modal>
+
       {reportReady && (
         <View style={{ position: 'absolute', left: -9999, top: 0 }}>
           <View
@@ -705,11 +837,13 @@ export default function SummaryTab() {
               <View style={{ flexDirection: 'row', gap: 10, marginBottom: 14 }}>
                 <View style={{ flex: 1, backgroundColor: '#fff', borderRadius: 10, padding: 12, borderWidth: 1, borderColor: '#E8E4DF' }}>
                   <Text style={{ fontSize: 16, fontFamily: 'Inter_700Bold', color: invoiceColors.primary }}>LKR {formatCurrency(invoiceStats.totalRevenue)}</Text>
-                  <Text style={{ fontSize: 10, fontFamily: 'Inter_400Regular', color: '#999' }}>Invoice Income</Text>
+                  <Text style={{ fontSize: 10, fontFamily: 'Inter_400Regular', color: '#999' }}>
+                    {invoiceStats.totalCredited > 0 ? `Invoice Income (after LKR ${formatCurrency(invoiceStats.totalCredited)} credits)` : 'Invoice Income'}
+                  </Text>
                 </View>
                 <View style={{ flex: 1, backgroundColor: '#fff', borderRadius: 10, padding: 12, borderWidth: 1, borderColor: '#E8E4DF' }}>
-                  <Text style={{ fontSize: 14, fontFamily: 'Inter_700Bold', color: '#27AE60' }}>LKR {formatCurrency(invoiceStats.totalAdvance)}</Text>
-                  <Text style={{ fontSize: 10, fontFamily: 'Inter_400Regular', color: '#999' }}>Advance Received</Text>
+                  <Text style={{ fontSize: 14, fontFamily: 'Inter_700Bold', color: '#27AE60' }}>LKR {formatCurrency(invoiceStats.totalPaid)}</Text>
+                  <Text style={{ fontSize: 10, fontFamily: 'Inter_400Regular', color: '#999' }}>Payments Received</Text>
                 </View>
               </View>
             )}
@@ -1118,6 +1252,50 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontFamily: 'Inter_600SemiBold',
   },
+  csvDatasetGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  csvDatasetChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+    borderRadius: 16,
+    borderWidth: 1.5,
+  },
+  csvDatasetText: {
+    fontSize: 12,
+    fontFamily: 'Inter_600SemiBold',
+  },
+  csvRangeRow: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  csvRangeLabel: {
+    fontSize: 11,
+    fontFamily: 'Inter_500Medium',
+    marginBottom: 6,
+  },
+  csvClearText: {
+    fontSize: 12,
+    fontFamily: 'Inter_500Medium',
+    marginTop: 10,
+  },
+  csvExportBtn: {
+    marginTop: 18,
+    borderRadius: 12,
+    paddingVertical: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  csvExportText: {
+    fontSize: 14,
+    fontFamily: 'Inter_600SemiBold',
+    color: '#fff',
+  },
   expenseForm: {
     borderRadius: 14,
     padding: 14,
@@ -23,6 +23,8 @@ import DatePicker from '@/components/DatePicker';
 import TimePicker from '@/components/TimePicker';
 import { scheduleShootReminder, cancelReminder } from '@/lib/notifications';
 import { useTheme } from '@/lib/theme-context';
+import ClientAutocomplete from '@/components/ClientAutocomplete';
+import { useUndo } from '@/lib/undo-context';
 import {
   UpcomingShoot,
   ShootType,
@@ -36,7 +38,8 @@ import {
   getDaysUntilLabel,
   formatCurrency,
   formatDate,
-  saveShoot,
+  completeUpcomingShoot,
+  resolveClientId,
 } from '@/lib/storage';
 
 const SHOOT_TYPE_COLORS: Record<ShootType, string> = {
@@ -52,6 +55,7 @@ const SHOOT_TYPE_COLORS: Record<ShootType, string> = {
 export default function UpcomingTab() {
   const insets = useSafeAreaInsets();
   const { colors: themeColors, invoiceColors } = useTheme();
+  const { showUndo } = useUndo();
   const [allShoots, setAllShoots] = useState<UpcomingShoot[]>([]);
   const [showCompleted, setShowCompleted] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
@@ -59,6 +63,7 @@ export default function UpcomingTab() {
   const [editingId, setEditingId] = useState<string | null>(null);
 
   const [clientName, setClientName] = useState('');
+  const [clientId, setClientId] = useState('');
   const [shootDate, setShootDate] = useState('');
   const [shootTime, setShootTime] = useState('');
   const [shootLocation, setShootLocation] = useState('');
@@ -96,6 +101,7 @@ export default function UpcomingTab() {
     const tomorrow = new Date();
     tomorrow.setDate(tomorrow.getDate() + 1);
     setClientName('');
+    setClientId('');
     setShootDate(tomorrow.toISOString().split('T')[0]);
     setShootTime('');
     setShootLocation('');
@@ -118,6 +124,7 @@ export default function UpcomingTab() {
   const openEditModal = (shoot: UpcomingShoot) => {
     setEditingId(shoot.id);
     setClientName(shoot.clientName);
+    setClientId(shoot.clientId || '');
     setShootDate(shoot.shootDate);
     setShootTime(shoot.shootTime);
     setShootLocation(shoot.shootLocation);
@@ -135,8 +142,11 @@ export default function UpcomingTab() {
 
   const handleSave = async () => {
     try {
+      const phones = phoneNumbers.map(n => n.trim()).filter(n => n);
+      const linkedClientId = await resolveClientId(clientName, phones, clientId);
       if (editingId) {
         await updateUpcomingShoot(editingId, {
+          clientId: linkedClientId,
           clientName: clientName.trim(),
           shootDate,
           shootTime: shootTime.trim(),
@@ -144,7 +154,7 @@ export default function UpcomingTab() {
           salonName: salonName.trim(),
           modelName: modelName.trim(),
           shootType,
-          contactNumber: phoneNumbers.map(n => n.trim()).filter(n => n).join(', '),
+          contactNumber: phones.join(', '),
           packagePrice,
           advancePaid,
           notes: notes.trim(),
@@ -152,6 +162,7 @@ export default function UpcomingTab() {
         scheduleShootReminder(editingId, clientName.trim(), shootDate, shootTime.trim(), shootType, shootLocation.trim()).catch(() => {});
       } else {
         const newShoot = await saveUpcomingShoot({
+          clientId: linkedClientId,
           clientName: clientName.trim(),
           shootDate,
           shootTime: shootTime.trim(),
@@ -159,7 +170,7 @@ export default function UpcomingTab() {
           salonName: salonName.trim(),
           modelName: modelName.trim(),
           shootType,
-          contactNumber: phoneNumbers.map(n => n.trim()).filter(n => n).join(', '),
+          contactNumber: phones.join(', '),
           packagePrice,
           advancePaid,
           notes: notes.trim(),
@@ -176,26 +187,16 @@ export default function UpcomingTab() {
   };
 
   const handleToggleComplete = async (shoot: UpcomingShoot) => {
-    const markingComplete = !shoot.completed;
-    await updateUpcomingShoot(shoot.id, { completed: markingComplete });
-    if (markingComplete) {
-      cancelReminder(`shoot_${shoot.id}`).catch(() => {});
+    if (!shoot.completed) {
       try {
-        await saveShoot({
-          clientName: shoot.clientName,
-          shootDate: shoot.shootDate,
-          shootTime: shoot.shootTime || '',
-          shootLocation: shoot.shootLocation,
-          salonName: shoot.salonName || '',
-          modelName: shoot.modelName || '',
-          shootType: shoot.shootType,
-          price: shoot.packagePrice || '0',
-          advancePaid: shoot.advancePaid || '',
-          phoneNumber: shoot.contactNumber || '',
-          notes: shoot.notes || '',
-        });
-      } catch {}
+        await completeUpcomingShoot(shoot.id);
+      } catch {
+        Alert.alert('Error', 'Could not mark this shoot as complete. Please try again.');
+        return;
+      }
+      cancelReminder(`shoot_${shoot.id}`).catch(() => {});
     } else {
+      await updateUpcomingShoot(shoot.id, { completed: false });
       scheduleShootReminder(shoot.id, shoot.clientName, shoot.shootDate, shoot.shootTime, shoot.shootType, shoot.shootLocation).catch(() => {});
     }
     if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
@@ -205,7 +206,7 @@ export default function UpcomingTab() {
   const handleDelete = (id: string, name: string) => {
     Alert.alert(
       'Delete Shoot',
-      `Remove the upcoming shoot for ${name}?`,
+      `Move the upcoming shoot for ${name} to the trash?`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -216,6 +217,7 @@ export default function UpcomingTab() {
             cancelReminder(`shoot_${id}`).catch(() => {});
             if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
             loadShoots();
+            showUndo(`Upcoming shoot for ${name} moved to trash`, id, loadShoots);
           },
         },
       ]
@@ -434,12 +436,21 @@ export default function UpcomingTab() {
               <Text style={[styles.sectionTitle, { color: themeColors.textPrimary }]}>Client Info</Text>
               <View style={styles.fieldWrap}>
                 <Text style={[styles.label, { color: themeColors.textSecondary }]}>Client Name</Text>
-                <TextInput
-                  style={[styles.input, { backgroundColor: themeColors.cardBackground, borderColor: themeColors.border, color: themeColors.textPrimary }]}
+                <ClientAutocomplete
+                  inputStyle={[styles.input, { backgroundColor: themeColors.cardBackground, borderColor: themeColors.border, color: themeColors.textPrimary }]}
                   value={clientName}
-                  onChangeText={setClientName}
+                  onChangeText={(text) => {
+                    setClientName(text);
+                    setClientId('');
+                  }}
+                  onSelectClient={(client) => {
+                    setClientName(client.name);
+                    setClientId(client.id);
+                    if (client.phones.length > 0) setPhoneNumbers(client.phones);
+                  }}
+                  linked={!!clientId}
                   placeholder="Client or couple name"
-                  placeholderTextColor={themeColors.textMuted}
+                  colors={{ ...themeColors, accent: invoiceColors.gold }}
                 />
               </View>
               <View style={styles.row}>
@@ -461,6 +472,7 @@ export default function UpcomingTab() {
                     onChangeText={(text) => {
                       setModelName(text);
                       setClientName(text);
+                      setClientId('');
                     }}
                     placeholder="Model (optional)"
                     placeholderTextColor={themeColors.textMuted}
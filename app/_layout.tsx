@@ -1,14 +1,17 @@
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Stack } from "expo-router";
 import * as SplashScreen from "expo-splash-screen";
-import React, { useEffect } from "react";
+import React, { useCallback, useEffect, useState } from "react";
 import { GestureHandlerRootView } from "react-native-gesture-handler";
 import { KeyboardProvider } from "react-native-keyboard-controller";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
+import { ErrorFallback } from "@/components/ErrorFallback";
 import { queryClient } from "@/lib/query-client";
 import { StatusBar } from "expo-status-bar";
 import { ThemeProvider, useTheme } from "@/lib/theme-context";
 import { BrandingProvider } from "@/lib/branding-context";
+import { UndoProvider } from "@/lib/undo-context";
+import { runMigrations } from "@/lib/storage";
 import {
   useFonts,
   PlayfairDisplay_700Bold,
@@ -34,6 +37,13 @@ function RootLayoutNav() {
         <Stack.Screen name="create" options={{ presentation: 'card' }} />
         <Stack.Screen name="edit/[id]" options={{ presentation: 'card' }} />
         <Stack.Screen name="preview/[id]" options={{ presentation: 'card' }} />
+        <Stack.Screen name="import" options={{ presentation: 'card' }} />
+        <Stack.Screen name="clients" options={{ presentation: 'card' }} />
+        <Stack.Screen name="client/[id]" options={{ presentation: 'card' }} />
+        <Stack.Screen name="packages" options={{ presentation: 'card' }} />
+        <Stack.Screen name="quotes" options={{ presentation: 'card' }} />
+        <Stack.Screen name="numbering" options={{ presentation: 'card' }} />
+        <Stack.Screen name="trash" options={{ presentation: 'card' }} />
       </Stack>
     </>
   );
@@ -50,13 +60,31 @@ export default function RootLayout() {
     Inter_700Bold,
   });
 
+  const [storageReady, setStorageReady] = useState(false);
+  const [migrationError, setMigrationError] = useState<Error | null>(null);
+
+  // The screens assume data is already in the current shape, so a failed
+  // migration stops here instead of rendering them over half-migrated data.
+  const migrate = useCallback(() => {
+    setMigrationError(null);
+    runMigrations()
+      .then(() => setStorageReady(true))
+      .catch((e) => setMigrationError(e instanceof Error ? e : new Error(String(e))));
+  }, []);
+
+  useEffect(() => {
+    migrate();
+  }, [migrate]);
+
   useEffect(() => {
-    if (fontsLoaded) {
+    if (fontsLoaded && (storageReady || migrationError)) {
       SplashScreen.hideAsync();
     }
-  }, [fontsLoaded]);
+  }, [fontsLoaded, storageReady, migrationError]);
 
   if (!fontsLoaded) return null;
+  if (migrationError) return <ErrorFallback error={migrationError} resetError={migrate} />;
+  if (!storageReady) return null;
 
   return (
     <ErrorBoundary>
@@ -65,7 +93,9 @@ export default function RootLayout() {
           <BrandingProvider>
             <GestureHandlerRootView style={{ flex: 1 }}>
               <KeyboardProvider>
-                <RootLayoutNav />
+                <UndoProvider>
+                  <RootLayoutNav />
+                </UndoProvider>
               </KeyboardProvider>
             </GestureHandlerRootView>
           </BrandingProvider>
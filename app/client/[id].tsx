@@ -0,0 +1,350 @@
+import React, { useState, useCallback } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  ScrollView,
+  Pressable,
+  Platform,
+  ActivityIndicator,
+} from 'react-native';
+import { router, useLocalSearchParams, useFocusEffect } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons, Feather, MaterialCommunityIcons } from '@expo/vector-icons';
+import Colors, { INVOICE_STATUS_COLORS } from '@/constants/colors';
+import {
+  ClientHistory,
+  ClientHistoryEntry,
+  INVOICE_STATUS_LABELS,
+  getClientHistory,
+  getNetTotal,
+  getInvoiceBalance,
+  formatClientPhones,
+  formatCurrency,
+  formatDate,
+} from '@/lib/storage';
+
+export default function ClientHistoryScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const insets = useSafeAreaInsets();
+  const [history, setHistory] = useState<ClientHistory | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!id) return;
+      getClientHistory(id)
+        .then(setHistory)
+        .finally(() => setLoading(false));
+    }, [id])
+  );
+
+  const webTopInset = Platform.OS === 'web' ? 67 : 0;
+  const webBottomInset = Platform.OS === 'web' ? 34 : 0;
+
+  const renderEntry = (entry: ClientHistoryEntry) => {
+    if (entry.kind === 'invoice') {
+      const invoice = entry.record;
+      const total = getNetTotal(invoice);
+      const balance = getInvoiceBalance(invoice);
+      const statusColor = INVOICE_STATUS_COLORS[invoice.status];
+      return (
+        <Pressable
+          key={`invoice-${invoice.id}`}
+          style={({ pressed }) => [styles.entryCard, pressed && { opacity: 0.9 }]}
+          onPress={() => router.push({ pathname: '/preview/[id]', params: { id: invoice.id } })}
+        >
+          <View style={[styles.entryIcon, { backgroundColor: Colors.cream }]}>
+            <MaterialCommunityIcons name="file-document-outline" size={18} color={Colors.goldDark} />
+          </View>
+          <View style={{ flex: 1 }}>
+            <View style={styles.entryTitleRow}>
+              <Text style={styles.entryTitle} numberOfLines={1}>Invoice #{invoice.invoiceNumber}</Text>
+              <View style={[styles.statusBadge, { backgroundColor: statusColor + '20' }]}>
+                <Text style={[styles.statusText, { color: statusColor }]}>{INVOICE_STATUS_LABELS[invoice.status]}</Text>
+              </View>
+            </View>
+            <Text style={styles.entryMeta} numberOfLines={1}>
+              {formatDate(entry.date)}{invoice.eventLocation ? ` · ${invoice.eventLocation}` : ''}
+            </Text>
+          </View>
+          <View style={styles.entryAmounts}>
+            <Text style={styles.entryAmount}>{formatCurrency(total)}</Text>
+            {invoice.status !== 'cancelled' && (
+              <Text style={[styles.entryBalance, { color: balance > 0 ? Colors.danger : Colors.success }]}>
+                {balance > 0 ? `Bal: ${formatCurrency(balance)}` : 'Paid'}
+              </Text>
+            )}
+          </View>
+        </Pressable>
+      );
+    }
+
+    const shoot = entry.record;
+    const upcoming = entry.kind === 'upcoming';
+    const price = parseFloat(entry.kind === 'upcoming' ? entry.record.packagePrice : entry.record.price) || 0;
+    const balance = price - (parseFloat(shoot.advancePaid) || 0);
+    return (
+      <View key={`${entry.kind}-${shoot.id}`} style={styles.entryCard}>
+        <View style={[styles.entryIcon, { backgroundColor: upcoming ? '#E3F2FD' : '#E8F5E9' }]}>
+          <Ionicons name={upcoming ? 'calendar-outline' : 'camera-outline'} size={18} color={upcoming ? '#2196F3' : Colors.darkGreen} />
+        </View>
+        <View style={{ flex: 1 }}>
+          <Text style={styles.entryTitle} numberOfLines={1}>
+            {shoot.shootType} {upcoming ? (entry.record.completed ? 'booking (completed)' : 'booking') : 'shoot'}
+          </Text>
+          <Text style={styles.entryMeta} numberOfLines={1}>
+            {formatDate(entry.date)}{shoot.shootLocation ? ` · ${shoot.shootLocation}` : ''}
+          </Text>
+        </View>
+        <View style={styles.entryAmounts}>
+          <Text style={styles.entryAmount}>{formatCurrency(price)}</Text>
+          {!upcoming && (
+            <Text style={[styles.entryBalance, { color: balance > 0 ? Colors.danger : Colors.success }]}>
+              {balance > 0 ? `Bal: ${formatCurrency(balance)}` : 'Paid'}
+            </Text>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, { paddingTop: insets.top + webTopInset + 10 }]}>
+        <Pressable onPress={() => router.back()} hitSlop={12}>
+          <Ionicons name="arrow-back" size={24} color={Colors.primary} />
+        </Pressable>
+        <Text style={styles.headerTitle} numberOfLines={1}>{history?.client.name || 'Client'}</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      {loading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator color={Colors.gold} />
+        </View>
+      ) : !history ? (
+        <View style={styles.centered}>
+          <Text style={styles.emptyText}>This client no longer exists.</Text>
+        </View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={[styles.scrollContent, { paddingBottom: insets.bottom + webBottomInset + 40 }]}
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.contactCard}>
+            {history.client.phones.length > 0 && (
+              <View style={styles.contactRow}>
+                <Feather name="phone" size={14} color={Colors.textMuted} />
+                <Text style={styles.contactText}>{formatClientPhones(history.client)}</Text>
+              </View>
+            )}
+            {!!history.client.email && (
+              <View style={styles.contactRow}>
+                <Feather name="mail" size={14} color={Colors.textMuted} />
+                <Text style={styles.contactText}>{history.client.email}</Text>
+              </View>
+            )}
+            {!!history.client.address && (
+              <View style={styles.contactRow}>
+                <Feather name="map-pin" size={14} color={Colors.textMuted} />
+                <Text style={styles.contactText}>{history.client.address}</Text>
+              </View>
+            )}
+            {!!history.client.notes && <Text style={styles.notesText}>{history.client.notes}</Text>}
+          </View>
+
+          <View style={styles.statsCard}>
+            <Text style={styles.statsLabel}>Lifetime Revenue</Text>
+            <Text style={styles.statsValue}>LKR {formatCurrency(history.lifetimeRevenue)}</Text>
+            <View style={styles.statsRow}>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.statsSmallLabel}>Paid</Text>
+                <Text style={styles.statsSmallValue}>LKR {formatCurrency(history.totalPaid)}</Text>
+              </View>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.statsSmallLabel}>Owed</Text>
+                <Text style={[styles.statsSmallValue, history.owed > 0 && { color: '#FF8A80' }]}>
+                  LKR {formatCurrency(history.owed)}
+                </Text>
+              </View>
+            </View>
+          </View>
+
+          <Text style={styles.sectionTitle}>History ({history.entries.length})</Text>
+          {history.entries.length === 0 ? (
+            <Text style={styles.emptyText}>No invoices or shoots are linked to this client yet.</Text>
+          ) : (
+            <View style={styles.entryList}>{history.entries.map(renderEntry)}</View>
+          )}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+    backgroundColor: Colors.background,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 17,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.textPrimary,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  scrollContent: {
+    padding: 20,
+  },
+  contactCard: {
+    backgroundColor: Colors.cardBackground,
+    borderRadius: 14,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    gap: 8,
+    marginBottom: 16,
+  },
+  contactRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  contactText: {
+    flex: 1,
+    fontSize: 13,
+    fontFamily: 'Inter_400Regular',
+    color: Colors.textPrimary,
+  },
+  notesText: {
+    fontSize: 12,
+    fontFamily: 'Inter_400Regular',
+    color: Colors.textSecondary,
+    lineHeight: 17,
+  },
+  statsCard: {
+    backgroundColor: Colors.primary,
+    borderRadius: 16,
+    padding: 18,
+    marginBottom: 24,
+  },
+  statsLabel: {
+    fontSize: 12,
+    fontFamily: 'Inter_500Medium',
+    color: Colors.goldLight,
+    textTransform: 'uppercase' as const,
+    letterSpacing: 1,
+  },
+  statsValue: {
+    fontSize: 26,
+    fontFamily: 'PlayfairDisplay_700Bold',
+    color: Colors.white,
+    marginTop: 4,
+    marginBottom: 14,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  statsSmallLabel: {
+    fontSize: 11,
+    fontFamily: 'Inter_500Medium',
+    color: Colors.mediumGray,
+  },
+  statsSmallValue: {
+    fontSize: 15,
+    fontFamily: 'Inter_700Bold',
+    color: Colors.white,
+    marginTop: 2,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.primary,
+    marginBottom: 12,
+    textTransform: 'uppercase' as const,
+    letterSpacing: 1,
+  },
+  emptyText: {
+    fontSize: 13,
+    fontFamily: 'Inter_400Regular',
+    color: Colors.textMuted,
+  },
+  entryList: {
+    gap: 10,
+  },
+  entryCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: Colors.cardBackground,
+    borderRadius: 14,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  entryIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  entryTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  entryTitle: {
+    flexShrink: 1,
+    fontSize: 14,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.textPrimary,
+  },
+  entryMeta: {
+    fontSize: 12,
+    fontFamily: 'Inter_400Regular',
+    color: Colors.textMuted,
+    marginTop: 2,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+  },
+  statusText: {
+    fontSize: 10,
+    fontFamily: 'Inter_600SemiBold',
+  },
+  entryAmounts: {
+    alignItems: 'flex-end',
+  },
+  entryAmount: {
+    fontSize: 14,
+    fontFamily: 'Inter_700Bold',
+    color: Colors.textPrimary,
+  },
+  entryBalance: {
+    fontSize: 11,
+    fontFamily: 'Inter_500Medium',
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,518 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  FlatList,
+  TextInput,
+  Pressable,
+  Alert,
+  Platform,
+  Modal,
+  ScrollView,
+  KeyboardAvoidingView,
+} from 'react-native';
+import { router, useFocusEffect } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons, Feather, MaterialCommunityIcons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+import {
+  Client,
+  getAllClients,
+  saveClient,
+  updateClient,
+  deleteClient,
+  searchClients,
+  formatClientPhones,
+  linkExistingRecordsToClients,
+} from '@/lib/storage';
+
+export default function ClientsScreen() {
+  const insets = useSafeAreaInsets();
+  const [clients, setClients] = useState<Client[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [phones, setPhones] = useState<string[]>(['']);
+  const [email, setEmail] = useState('');
+  const [address, setAddress] = useState('');
+  const [notes, setNotes] = useState('');
+
+  const loadClients = useCallback(async () => {
+    setClients(await getAllClients());
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadClients();
+    }, [loadClients])
+  );
+
+  const filtered = useMemo(() => searchClients(clients, searchQuery), [clients, searchQuery]);
+
+  const openModal = (client?: Client) => {
+    setEditingId(client?.id || null);
+    setName(client?.name || '');
+    setPhones(client && client.phones.length > 0 ? client.phones : ['']);
+    setEmail(client?.email || '');
+    setAddress(client?.address || '');
+    setNotes(client?.notes || '');
+    setModalVisible(true);
+    if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      Alert.alert('Required', 'Please enter the client name');
+      return;
+    }
+    const fields = {
+      name: name.trim(),
+      phones: phones.map(p => p.trim()).filter(Boolean),
+      email: email.trim(),
+      address: address.trim(),
+      notes: notes.trim(),
+    };
+    try {
+      if (editingId) {
+        await updateClient(editingId, fields);
+      } else {
+        await saveClient(fields);
+      }
+      if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setModalVisible(false);
+      loadClients();
+    } catch {
+      Alert.alert('Error', 'Failed to save client');
+    }
+  };
+
+  const handleDelete = (client: Client) => {
+    Alert.alert(
+      'Delete Client',
+      `Delete ${client.name}? Their invoices and shoots are kept but will no longer be linked to a client.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            await deleteClient(client.id);
+            if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+            loadClients();
+          },
+        },
+      ]
+    );
+  };
+
+  const handleLinkRecords = () => {
+    Alert.alert(
+      'Link Existing Records',
+      'Create clients from the names on your invoices, shoots and bookings, and link each record to its client?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Link',
+          onPress: async () => {
+            try {
+              const linked = await linkExistingRecordsToClients();
+              if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+              Alert.alert('Records Linked', linked > 0 ? `${linked} records were linked to clients.` : 'All records are already linked.');
+              loadClients();
+            } catch {
+              Alert.alert('Error', 'Failed to link records');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const webTopInset = Platform.OS === 'web' ? 67 : 0;
+  const webBottomInset = Platform.OS === 'web' ? 34 : 0;
+
+  const renderClient = ({ item }: { item: Client }) => (
+    <Pressable
+      style={({ pressed }) => [styles.card, pressed && { opacity: 0.9 }]}
+      onPress={() => router.push({ pathname: '/client/[id]', params: { id: item.id } })}
+      onLongPress={() => handleDelete(item)}
+    >
+      <View style={styles.avatar}>
+        <Text style={styles.avatarText}>{item.name.charAt(0).toUpperCase()}</Text>
+      </View>
+      <View style={{ flex: 1 }}>
+        <Text style={styles.clientName} numberOfLines={1}>{item.name}</Text>
+        {item.phones.length > 0 && (
+          <Text style={styles.clientMeta} numberOfLines={1}>{formatClientPhones(item)}</Text>
+        )}
+        {!!item.email && (
+          <Text style={styles.clientMeta} numberOfLines={1}>{item.email}</Text>
+        )}
+      </View>
+      <View style={styles.cardActions}>
+        <Pressable onPress={() => openModal(item)} hitSlop={10}>
+          <Feather name="edit-2" size={16} color={Colors.textMuted} />
+        </Pressable>
+        <Pressable onPress={() => handleDelete(item)} hitSlop={10}>
+          <Feather name="trash-2" size={16} color={Colors.textMuted} />
+        </Pressable>
+      </View>
+    </Pressable>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, { paddingTop: insets.top + webTopInset + 10 }]}>
+        <Pressable onPress={() => router.back()} hitSlop={12}>
+          <Ionicons name="arrow-back" size={24} color={Colors.primary} />
+        </Pressable>
+        <Text style={styles.headerTitle}>Clients</Text>
+        <View style={styles.headerActions}>
+          <Pressable onPress={handleLinkRecords} hitSlop={10}>
+            <MaterialCommunityIcons name="link-variant" size={22} color={Colors.primary} />
+          </Pressable>
+          <Pressable onPress={() => openModal()} hitSlop={10}>
+            <Ionicons name="person-add-outline" size={22} color={Colors.primary} />
+          </Pressable>
+        </View>
+      </View>
+
+      <View style={styles.searchWrap}>
+        <Ionicons name="search" size={18} color={Colors.textMuted} />
+        <TextInput
+          style={styles.searchInput}
+          value={searchQuery}
+          onChangeText={setSearchQuery}
+          placeholder="Search by name, phone or email"
+          placeholderTextColor={Colors.textMuted}
+        />
+        {!!searchQuery && (
+          <Pressable onPress={() => setSearchQuery('')} hitSlop={8}>
+            <Ionicons name="close-circle" size={18} color={Colors.textMuted} />
+          </Pressable>
+        )}
+      </View>
+
+      <FlatList
+        data={filtered}
+        keyExtractor={item => item.id}
+        renderItem={renderClient}
+        contentContainerStyle={[styles.listContent, { paddingBottom: insets.bottom + webBottomInset + 40 }]}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Ionicons name="people-outline" size={48} color={Colors.lightGray} />
+            <Text style={styles.emptyTitle}>{searchQuery ? 'No matching clients' : 'No clients yet'}</Text>
+            <Text style={styles.emptyText}>
+              {searchQuery
+                ? 'Try a different name or number'
+                : 'Clients are added when you save invoices and shoots, or tap the link icon to build the list from existing records'}
+            </Text>
+          </View>
+        }
+      />
+
+      <Modal
+        visible={modalVisible}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setModalVisible(false)}
+      >
+        <KeyboardAvoidingView
+          style={styles.modalContainer}
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        >
+          <View style={[styles.modalHeader, { paddingTop: Platform.OS === 'web' ? 20 : insets.top + 10 }]}>
+            <Pressable onPress={() => setModalVisible(false)} hitSlop={12}>
+              <Ionicons name="close" size={24} color={Colors.textPrimary} />
+            </Pressable>
+            <Text style={styles.headerTitle}>{editingId ? 'Edit Client' : 'New Client'}</Text>
+            <View style={{ width: 24 }} />
+          </View>
+
+          <ScrollView
+            style={{ flex: 1 }}
+            contentContainerStyle={[styles.modalContent, { paddingBottom: insets.bottom + 100 }]}
+            showsVerticalScrollIndicator={false}
+            keyboardShouldPersistTaps="handled"
+          >
+            <View style={styles.fieldWrap}>
+              <Text style={styles.label}>Name</Text>
+              <TextInput
+                style={styles.input}
+                value={name}
+                onChangeText={setName}
+                placeholder="Client or couple name"
+                placeholderTextColor={Colors.textMuted}
+              />
+            </View>
+            <View style={styles.fieldWrap}>
+              <Text style={styles.label}>Phone Numbers</Text>
+              {phones.map((phone, idx) => (
+                <View key={idx} style={styles.phoneRow}>
+                  <TextInput
+                    style={[styles.input, { flex: 1 }]}
+                    value={phone}
+                    onChangeText={(v) => {
+                      const updated = [...phones];
+                      updated[idx] = v;
+                      setPhones(updated);
+                    }}
+                    placeholder="+94 76 1800 732"
+                    placeholderTextColor={Colors.textMuted}
+                    keyboardType="phone-pad"
+                  />
+                  {phones.length > 1 && (
+                    <Pressable onPress={() => setPhones(prev => prev.filter((_, i) => i !== idx))} hitSlop={8}>
+                      <Ionicons name="close-circle" size={22} color={Colors.textMuted} />
+                    </Pressable>
+                  )}
+                </View>
+              ))}
+              <Pressable style={styles.addPhoneBtn} onPress={() => setPhones(prev => [...prev, ''])}>
+                <Ionicons name="add-circle-outline" size={18} color={Colors.gold} />
+                <Text style={styles.addPhoneText}>Add Phone</Text>
+              </Pressable>
+            </View>
+            <View style={styles.fieldWrap}>
+              <Text style={styles.label}>Email</Text>
+              <TextInput
+                style={styles.input}
+                value={email}
+                onChangeText={setEmail}
+                placeholder="name@example.com"
+                placeholderTextColor={Colors.textMuted}
+                keyboardType="email-address"
+                autoCapitalize="none"
+              />
+            </View>
+            <View style={styles.fieldWrap}>
+              <Text style={styles.label}>Address</Text>
+              <TextInput
+                style={[styles.input, styles.multilineInput]}
+                value={address}
+                onChangeText={setAddress}
+                placeholder="Street, city"
+                placeholderTextColor={Colors.textMuted}
+                multiline
+                textAlignVertical="top"
+              />
+            </View>
+            <View style={styles.fieldWrap}>
+              <Text style={styles.label}>Notes</Text>
+              <TextInput
+                style={[styles.input, styles.multilineInput]}
+                value={notes}
+                onChangeText={setNotes}
+                placeholder="Preferences, family members, referrals..."
+                placeholderTextColor={Colors.textMuted}
+                multiline
+                textAlignVertical="top"
+              />
+            </View>
+          </ScrollView>
+
+          <View style={[styles.modalFooter, { paddingBottom: insets.bottom + 10 }]}>
+            <Pressable
+              style={({ pressed }) => [styles.saveButton, pressed && { opacity: 0.9 }]}
+              onPress={handleSave}
+            >
+              <MaterialCommunityIcons name={editingId ? 'check' : 'plus'} size={20} color={Colors.white} />
+              <Text style={styles.saveButtonText}>{editingId ? 'Update Client' : 'Add Client'}</Text>
+            </Pressable>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+    backgroundColor: Colors.background,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.textPrimary,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  searchWrap: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginHorizontal: 20,
+    marginTop: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: Colors.cardBackground,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: 'Inter_400Regular',
+    color: Colors.textPrimary,
+    padding: 0,
+  },
+  listContent: {
+    padding: 20,
+    gap: 10,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 14,
+    backgroundColor: Colors.cardBackground,
+    borderRadius: 14,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  cardActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  avatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: Colors.cream,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  avatarText: {
+    fontSize: 16,
+    fontFamily: 'PlayfairDisplay_700Bold',
+    color: Colors.goldDark,
+  },
+  clientName: {
+    fontSize: 15,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.textPrimary,
+  },
+  clientMeta: {
+    fontSize: 12,
+    fontFamily: 'Inter_400Regular',
+    color: Colors.textMuted,
+    marginTop: 2,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingHorizontal: 30,
+    gap: 8,
+  },
+  emptyTitle: {
+    fontSize: 16,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.textSecondary,
+  },
+  emptyText: {
+    fontSize: 13,
+    fontFamily: 'Inter_400Regular',
+    color: Colors.textMuted,
+    textAlign: 'center',
+    lineHeight: 19,
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  modalContent: {
+    padding: 20,
+  },
+  fieldWrap: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 13,
+    fontFamily: 'Inter_500Medium',
+    color: Colors.textSecondary,
+    marginBottom: 6,
+  },
+  input: {
+    backgroundColor: Colors.cardBackground,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 14,
+    fontFamily: 'Inter_400Regular',
+    color: Colors.textPrimary,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  multilineInput: {
+    minHeight: 72,
+  },
+  phoneRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  addPhoneBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    alignSelf: 'flex-start',
+    paddingVertical: 6,
+  },
+  addPhoneText: {
+    fontSize: 13,
+    fontFamily: 'Inter_500Medium',
+    color: Colors.gold,
+  },
+  modalFooter: {
+    paddingHorizontal: 20,
+    paddingTop: 12,
+    backgroundColor: Colors.background,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+  saveButton: {
+    backgroundColor: Colors.darkGreen,
+    borderRadius: 14,
+    paddingVertical: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.white,
+  },
+});
@@ -13,100 +13,148 @@ import {
 } from 'react-native';
 import { router, useLocalSearchParams } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { Ionicons, Feather, MaterialCommunityIcons } from '@expo/vector-icons';
+import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
 import Colors from '@/constants/colors';
 import DatePicker from '@/components/DatePicker';
+import PaymentsEditor from '@/components/PaymentsEditor';
+import LineItemsEditor from '@/components/LineItemsEditor';
+import PricingEditor from '@/components/PricingEditor';
+import AdjustmentsEditor from '@/components/AdjustmentsEditor';
+import ClientAutocomplete from '@/components/ClientAutocomplete';
 import {
-  Invoice,
   InvoiceItem,
+  InvoicePayment,
+  CreditNote,
+  PriceMode,
+  InvoiceAdjustment,
   getInvoice,
+  getQuote,
   updateInvoice,
+  updateQuote,
   generateItemId,
+  getTotalPaid,
+  isInvoiceNumberTaken,
+  getTotalCredited,
+  getTotalRefunded,
+  getSubtotal,
+  getTotal,
+  sortPayments,
   formatCurrency,
+  resolveClientId,
 } from '@/lib/storage';
 import { scheduleInvoiceReminder } from '@/lib/notifications';
 
 export default function EditInvoiceScreen() {
-  const { id } = useLocalSearchParams<{ id: string }>();
+  const { id, type } = useLocalSearchParams<{ id: string; type?: string }>();
+  const isQuote = type === 'quote';
   const insets = useSafeAreaInsets();
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [invoiceNumber, setInvoiceNumber] = useState('');
   const [invoiceDate, setInvoiceDate] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [validUntil, setValidUntil] = useState('');
   const [customerNames, setCustomerNames] = useState('');
+  const [clientId, setClientId] = useState('');
   const [eventDate, setEventDate] = useState('');
   const [eventLocation, setEventLocation] = useState('');
   const [phoneNumbers, setPhoneNumbers] = useState<string[]>(['']);
-  const [advancePayment, setAdvancePayment] = useState('');
+  const [payments, setPayments] = useState<InvoicePayment[]>([]);
+  const [creditNotes, setCreditNotes] = useState<CreditNote[]>([]);
+  const [priceMode, setPriceMode] = useState<PriceMode>('manual');
   const [fullPrice, setFullPrice] = useState('');
+  const [adjustments, setAdjustments] = useState<InvoiceAdjustment[]>([]);
   const [items, setItems] = useState<InvoiceItem[]>([]);
 
   useEffect(() => {
     loadInvoice();
-  }, [id]);
+  }, [id, type]);
 
   const loadInvoice = async () => {
     if (!id) return;
-    const invoice = await getInvoice(id);
-    if (invoice) {
-      setInvoiceNumber(invoice.invoiceNumber);
-      setInvoiceDate(invoice.invoiceDate);
-      setCustomerNames(invoice.customerNames);
-      setEventDate(invoice.eventDate);
-      setEventLocation(invoice.eventLocation);
-      const phones = invoice.phoneNumber ? invoice.phoneNumber.split(' / ').map(p => p.trim()) : [''];
+    const document = isQuote ? await getQuote(id) : await getInvoice(id);
+    if (document) {
+      if ('quoteNumber' in document) {
+        setInvoiceNumber(document.quoteNumber);
+        setInvoiceDate(document.quoteDate);
+        setValidUntil(document.validUntil);
+      } else {
+        setInvoiceNumber(document.invoiceNumber);
+        setInvoiceDate(document.invoiceDate);
+        setDueDate(document.dueDate);
+        setPayments(document.payments);
+        setCreditNotes(document.creditNotes);
+      }
+      setCustomerNames(document.customerNames);
+      setClientId(document.clientId || '');
+      setEventDate(document.eventDate);
+      setEventLocation(document.eventLocation);
+      const phones = document.phoneNumber ? document.phoneNumber.split(' / ').map(p => p.trim()) : [''];
       setPhoneNumbers(phones.length > 0 ? phones : ['']);
-      setAdvancePayment(invoice.advancePayment);
-      setFullPrice(invoice.fullPrice || '');
-      setItems(invoice.items.map(item => ({ ...item, id: item.id || generateItemId() })));
+      setPriceMode(document.priceMode || 'manual');
+      setFullPrice(document.fullPrice || '');
+      setAdjustments(document.adjustments || []);
+      setItems(document.items.map(item => ({ ...item, id: item.id || generateItemId() })));
     }
     setLoading(false);
   };
 
-  const addItem = () => {
-    if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-    setItems(prev => [...prev, { id: generateItemId(), description: '', quantity: '1' }]);
-  };
-
-  const removeItem = (itemId: string) => {
-    if (items.length <= 1) return;
-    if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-    setItems(prev => prev.filter(item => item.id !== itemId));
-  };
-
-  const updateItem = (itemId: string, field: keyof InvoiceItem, value: string) => {
-    setItems(prev => prev.map(item => item.id === itemId ? { ...item, [field]: value } : item));
-  };
-
-  const total = parseFloat(fullPrice) || 0;
-  const advance = parseFloat(advancePayment) || 0;
-  const balance = total - advance;
+  const subtotal = getSubtotal({ priceMode, items, fullPrice });
+  const total = getTotal({ priceMode, items, fullPrice, adjustments });
+  const paid = getTotalPaid(payments);
+  const credited = getTotalCredited(creditNotes);
+  const refunded = getTotalRefunded(creditNotes);
+  const balance = total - credited - (paid - refunded);
 
   const handleSave = async () => {
     if (!customerNames.trim()) {
       Alert.alert('Required', 'Please enter customer names');
       return;
     }
+    if (!isQuote) {
+      if (!invoiceNumber.trim()) {
+        Alert.alert('Required', 'Please enter an invoice number');
+        return;
+      }
+      if (await isInvoiceNumberTaken(invoiceNumber, id)) {
+        Alert.alert('Duplicate Number', `Invoice number ${invoiceNumber.trim()} is already used by another invoice.`);
+        return;
+      }
+    }
 
     setSaving(true);
     try {
-      await updateInvoice(id!, {
-        invoiceNumber,
-        invoiceDate,
+      const phones = phoneNumbers.map(p => p.trim()).filter(Boolean);
+      const document = {
+        clientId: await resolveClientId(customerNames, phones, clientId),
         customerNames: customerNames.trim(),
         eventDate,
         eventLocation: eventLocation.trim(),
-        phoneNumber: phoneNumbers.map(p => p.trim()).filter(Boolean).join(' / '),
+        phoneNumber: phones.join(' / '),
         items: items.filter(item => item.description.trim()),
+        priceMode,
         fullPrice,
-        advancePayment,
+        adjustments: adjustments.filter(a => (parseFloat(a.value) || 0) !== 0),
+      };
+      if (isQuote) {
+        await updateQuote(id!, { ...document, quoteNumber: invoiceNumber, quoteDate: invoiceDate, validUntil });
+        if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        router.replace({ pathname: '/preview/[id]', params: { id: id!, type: 'quote' } });
+        return;
+      }
+      await updateInvoice(id!, {
+        ...document,
+        invoiceNumber: invoiceNumber.trim(),
+        invoiceDate,
+        dueDate,
+        payments: sortPayments(payments.filter(p => (parseFloat(p.amount) || 0) > 0)),
       });
       scheduleInvoiceReminder(id!, invoiceNumber, customerNames.trim(), eventDate, eventLocation.trim()).catch(() => {});
       if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       router.replace({ pathname: '/preview/[id]', params: { id: id! } });
     } catch (e) {
-      Alert.alert('Error', 'Failed to update invoice');
+      Alert.alert('Error', e instanceof Error ? e.message : isQuote ? 'Failed to update quote' : 'Failed to update invoice');
     } finally {
       setSaving(false);
     }
@@ -132,7 +180,7 @@ export default function EditInvoiceScreen() {
         <Pressable onPress={() => router.back()} hitSlop={12}>
           <Ionicons name="arrow-back" size={24} color={Colors.primary} />
         </Pressable>
-        <Text style={styles.headerTitle}>Edit Invoice</Text>
+        <Text style={styles.headerTitle}>{isQuote ? 'Edit Quote' : 'Edit Invoice'}</Text>
         <View style={{ width: 24 }} />
       </View>
 
@@ -143,10 +191,10 @@ export default function EditInvoiceScreen() {
         keyboardShouldPersistTaps="handled"
       >
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Invoice Details</Text>
+          <Text style={styles.sectionTitle}>{isQuote ? 'Quote Details' : 'Invoice Details'}</Text>
           <View style={styles.row}>
             <View style={styles.halfField}>
-              <Text style={styles.label}>Invoice No</Text>
+              <Text style={styles.label}>{isQuote ? 'Quote No' : 'Invoice No'}</Text>
               <TextInput
                 style={styles.input}
                 value={invoiceNumber}
@@ -156,7 +204,7 @@ export default function EditInvoiceScreen() {
               />
             </View>
             <View style={styles.halfField}>
-              <Text style={styles.label}>Invoice Date</Text>
+              <Text style={styles.label}>{isQuote ? 'Quote Date' : 'Invoice Date'}</Text>
               <DatePicker
                 value={invoiceDate}
                 onChange={setInvoiceDate}
@@ -174,18 +222,51 @@ export default function EditInvoiceScreen() {
               />
             </View>
           </View>
+          <View style={[styles.fieldWrap, { marginTop: 10 }]}>
+            <Text style={styles.label}>{isQuote ? 'Valid Until' : 'Balance Due By'}</Text>
+            <DatePicker
+              value={isQuote ? validUntil : dueDate}
+              onChange={isQuote ? setValidUntil : setDueDate}
+              placeholder={isQuote ? 'No expiry' : 'Defaults to event date'}
+              colors={{
+                background: Colors.cream,
+                cardBackground: Colors.white,
+                textPrimary: Colors.primary,
+                textSecondary: Colors.textSecondary,
+                textMuted: Colors.textMuted,
+                border: Colors.border,
+                accent: Colors.gold,
+                accentDark: Colors.darkGreen,
+              }}
+            />
+          </View>
         </View>
 
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Customer Details</Text>
           <View style={styles.fieldWrap}>
             <Text style={styles.label}>Customer Names</Text>
-            <TextInput
-              style={styles.input}
+            <ClientAutocomplete
+              inputStyle={styles.input}
               value={customerNames}
-              onChangeText={setCustomerNames}
+              onChangeText={(v) => {
+                setCustomerNames(v);
+                setClientId('');
+              }}
+              onSelectClient={(client) => {
+                setCustomerNames(client.name);
+                setClientId(client.id);
+                if (client.phones.length > 0) setPhoneNumbers(client.phones);
+              }}
+              linked={!!clientId}
               placeholder="e.g. Mr & Mrs"
-              placeholderTextColor={Colors.textMuted}
+              colors={{
+                cardBackground: Colors.cardBackground,
+                textPrimary: Colors.textPrimary,
+                textMuted: Colors.textMuted,
+                border: Colors.border,
+                accent: Colors.gold,
+              }}
             />
           </View>
           <View style={styles.fieldWrap}>
@@ -264,90 +345,51 @@ export default function EditInvoiceScreen() {
           </View>
         </View>
 
-        <View style={styles.section}>
-          <View style={styles.sectionHeader}>
-            <Text style={styles.sectionTitle}>Items / Services</Text>
-            <Pressable onPress={addItem} style={styles.addItemBtn}>
-              <Ionicons name="add-circle" size={20} color={Colors.darkGreen} />
-              <Text style={styles.addItemText}>Add Item</Text>
-            </Pressable>
-          </View>
-          {items.map((item, index) => (
-            <View key={item.id} style={styles.itemCard}>
-              <View style={styles.itemHeader}>
-                <Text style={styles.itemIndex}>Item {index + 1}</Text>
-                {items.length > 1 && (
-                  <Pressable onPress={() => removeItem(item.id)} hitSlop={8}>
-                    <Feather name="x-circle" size={18} color={Colors.danger} />
-                  </Pressable>
-                )}
-              </View>
-              <View style={styles.row}>
-                <View style={{ flex: 2 }}>
-                  <TextInput
-                    style={styles.input}
-                    value={item.description}
-                    onChangeText={val => updateItem(item.id, 'description', val)}
-                    placeholder="Description"
-                    placeholderTextColor={Colors.textMuted}
-                  />
-                </View>
-                <View style={{ flex: 1 }}>
-                  <TextInput
-                    style={styles.input}
-                    value={item.quantity}
-                    onChangeText={val => updateItem(item.id, 'quantity', val)}
-                    placeholder="QTY"
-                    placeholderTextColor={Colors.textMuted}
-                    textAlign="center" as const
-                  />
-                </View>
-              </View>
-            </View>
-          ))}
-        </View>
+        <LineItemsEditor items={items} onChange={setItems} />
 
-        <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Pricing</Text>
-          <View style={styles.fieldWrap}>
-            <Text style={styles.label}>Full Price</Text>
-            <TextInput
-              style={[styles.input, styles.priceInput]}
-              value={fullPrice}
-              onChangeText={setFullPrice}
-              placeholder="Enter full package price"
-              placeholderTextColor={Colors.textMuted}
-              keyboardType="numeric"
-            />
-          </View>
-          <View style={styles.fieldWrap}>
-            <Text style={styles.label}>Advance Payment</Text>
-            <TextInput
-              style={styles.input}
-              value={advancePayment}
-              onChangeText={setAdvancePayment}
-              placeholder="0.00"
-              placeholderTextColor={Colors.textMuted}
-              keyboardType="numeric"
-            />
-          </View>
-        </View>
+        <PricingEditor
+          items={items}
+          priceMode={priceMode}
+          onChangePriceMode={setPriceMode}
+          fullPrice={fullPrice}
+          onChangeFullPrice={setFullPrice}
+        />
+
+        <AdjustmentsEditor adjustments={adjustments} subtotal={subtotal} onChange={setAdjustments} />
+
+        {!isQuote && <PaymentsEditor payments={payments} onChange={setPayments} />}
 
         <View style={styles.summaryCard}>
           <View style={styles.summaryRow}>
             <Text style={styles.summaryLabel}>Total</Text>
             <Text style={styles.summaryTotal}>{formatCurrency(total)}</Text>
           </View>
-          <View style={styles.summaryDivider} />
-          <View style={styles.summaryRow}>
-            <Text style={styles.summarySubLabel}>Advance</Text>
-            <Text style={styles.summarySubValue}>- {formatCurrency(advance)}</Text>
-          </View>
-          <View style={styles.summaryDividerGold} />
-          <View style={styles.summaryRow}>
-            <Text style={styles.balanceLabel}>Balance</Text>
-            <Text style={styles.balanceValue}>{formatCurrency(balance)}</Text>
-          </View>
+          {!isQuote && (
+            <>
+              <View style={styles.summaryDivider} />
+              <View style={styles.summaryRow}>
+                <Text style={styles.summarySubLabel}>Paid</Text>
+                <Text style={styles.summarySubValue}>- {formatCurrency(paid)}</Text>
+              </View>
+              {credited > 0 && (
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summarySubLabel}>Credited</Text>
+                  <Text style={styles.summarySubValue}>- {formatCurrency(credited)}</Text>
+                </View>
+              )}
+              {refunded > 0 && (
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summarySubLabel}>Refunded</Text>
+                  <Text style={styles.summarySubValue}>+ {formatCurrency(refunded)}</Text>
+                </View>
+              )}
+              <View style={styles.summaryDividerGold} />
+              <View style={styles.summaryRow}>
+                <Text style={styles.balanceLabel}>Balance</Text>
+                <Text style={styles.balanceValue}>{formatCurrency(balance)}</Text>
+              </View>
+            </>
+          )}
         </View>
       </ScrollView>
 
@@ -400,11 +442,6 @@ const styles = StyleSheet.create({
   section: {
     marginBottom: 20,
   },
-  sectionHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-  },
   sectionTitle: {
     fontSize: 14,
     fontFamily: 'Inter_600SemiBold',
@@ -413,17 +450,6 @@ const styles = StyleSheet.create({
     textTransform: 'uppercase' as const,
     letterSpacing: 1,
   },
-  addItemBtn: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: 4,
-    marginBottom: 12,
-  },
-  addItemText: {
-    fontSize: 13,
-    fontFamily: 'Inter_500Medium',
-    color: Colors.darkGreen,
-  },
   row: {
     flexDirection: 'row',
     gap: 12,
@@ -469,32 +495,6 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter_600SemiBold',
     color: Colors.gold,
   },
-  priceInput: {
-    borderColor: Colors.gold,
-    borderWidth: 1.5,
-    fontSize: 18,
-    fontFamily: 'Inter_700Bold',
-    paddingVertical: 14,
-  },
-  itemCard: {
-    backgroundColor: Colors.cardBackground,
-    borderRadius: 14,
-    padding: 14,
-    marginBottom: 10,
-    borderWidth: 1,
-    borderColor: Colors.border,
-  },
-  itemHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    marginBottom: 8,
-  },
-  itemIndex: {
-    fontSize: 12,
-    fontFamily: 'Inter_600SemiBold',
-    color: Colors.gold,
-  },
   summaryCard: {
     backgroundColor: Colors.primary,
     borderRadius: 16,
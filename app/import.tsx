@@ -0,0 +1,397 @@
+import React, { useState, useMemo, useEffect, useCallback } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  ScrollView,
+  Pressable,
+  Alert,
+  Platform,
+} from 'react-native';
+import { router } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons, Feather, MaterialCommunityIcons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+import {
+  ImportTarget,
+  IMPORT_TARGETS,
+  IMPORT_FIELDS,
+  ColumnMapping,
+  CsvTable,
+  readCsvTable,
+  pickCsvFile,
+  guessMapping,
+  previewImport,
+  commitImport,
+} from '@/lib/csv-import';
+import { getAllInvoices } from '@/lib/storage';
+
+const MAX_ERRORS_SHOWN = 20;
+
+export default function ImportScreen() {
+  const insets = useSafeAreaInsets();
+  const [target, setTarget] = useState<ImportTarget>('shoots');
+  const [table, setTable] = useState<CsvTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [importing, setImporting] = useState(false);
+  const [usedInvoiceNumbers, setUsedInvoiceNumbers] = useState<string[]>([]);
+
+  const loadUsedInvoiceNumbers = useCallback(async () => {
+    const invoices = await getAllInvoices();
+    setUsedInvoiceNumbers(invoices.map(inv => inv.invoiceNumber));
+  }, []);
+
+  useEffect(() => {
+    loadUsedInvoiceNumbers();
+  }, [loadUsedInvoiceNumbers]);
+
+  const preview = useMemo(
+    () => (table ? previewImport(target, table, mapping, usedInvoiceNumbers) : null),
+    [target, table, mapping, usedInvoiceNumbers]
+  );
+
+  const selectTarget = (next: ImportTarget) => {
+    setTarget(next);
+    if (table) setMapping(guessMapping(next, table.headers));
+    if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+  };
+
+  const handlePickFile = async () => {
+    const text = await pickCsvFile();
+    if (!text) return;
+    const parsed = readCsvTable(text);
+    if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+      Alert.alert('Empty File', 'This CSV file has no rows to import. The first row must contain column names.');
+      return;
+    }
+    setTable(parsed);
+    setMapping(guessMapping(target, parsed.headers));
+  };
+
+  const setColumn = (fieldKey: string, column: number | null) => {
+    setMapping(prev => ({ ...prev, [fieldKey]: column }));
+    if (Platform.OS !== 'web') Haptics.selectionAsync();
+  };
+
+  const runImport = async () => {
+    if (!preview) return;
+    setImporting(true);
+    try {
+      const saved = await commitImport(preview);
+      if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      Alert.alert('Import Complete', `${saved} records were imported.`);
+      router.back();
+    } catch (e) {
+      // Rows saved before the failure now count as used numbers in the preview.
+      loadUsedInvoiceNumbers();
+      Alert.alert('Error', e instanceof Error ? e.message : 'The import stopped partway through. Check your data before importing again.');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleImport = () => {
+    if (!preview || preview.valid.length === 0) return;
+    const skipped = preview.invalid.length > 0 ? ` ${preview.invalid.length} invalid rows will be skipped.` : '';
+    Alert.alert(
+      'Import Rows',
+      `Import ${preview.valid.length} ${IMPORT_TARGETS.find(t => t.id === target)?.label.toLowerCase()}?${skipped}`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Import', onPress: runImport },
+      ]
+    );
+  };
+
+  const webTopInset = Platform.OS === 'web' ? 67 : 0;
+  const webBottomInset = Platform.OS === 'web' ? 34 : 0;
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, { paddingTop: insets.top + webTopInset + 10 }]}>
+        <Pressable onPress={() => router.back()} hitSlop={12}>
+          <Ionicons name="arrow-back" size={24} color={Colors.primary} />
+        </Pressable>
+        <Text style={styles.headerTitle}>Import CSV</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[styles.scrollContent, { paddingBottom: insets.bottom + webBottomInset + 100 }]}
+        showsVerticalScrollIndicator={false}
+      >
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Import Into</Text>
+          <View style={styles.chipRow}>
+            {IMPORT_TARGETS.map(option => (
+              <Pressable
+                key={option.id}
+                style={[styles.chip, target === option.id && styles.chipActive]}
+                onPress={() => selectTarget(option.id)}
+              >
+                <Text style={[styles.chipText, target === option.id && styles.chipTextActive]}>{option.label}</Text>
+              </Pressable>
+            ))}
+          </View>
+        </View>
+
+        <Pressable style={styles.fileCard} onPress={handlePickFile}>
+          <MaterialCommunityIcons name="file-delimited-outline" size={24} color={Colors.gold} />
+          <View style={{ flex: 1 }}>
+            <Text style={styles.fileTitle}>{table ? `${table.rows.length} rows, ${table.headers.length} columns` : 'Choose CSV File'}</Text>
+            <Text style={styles.fileHint}>{table ? 'Tap to choose a different file' : 'The first row must contain column names'}</Text>
+          </View>
+          <Feather name="upload" size={18} color={Colors.textMuted} />
+        </Pressable>
+
+        {table && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Column Mapping</Text>
+            {IMPORT_FIELDS[target].map(field => {
+              const column = mapping[field.key] ?? null;
+              return (
+                <View key={field.key} style={styles.mappingRow}>
+                  <Text style={styles.mappingLabel}>
+                    {field.label}{field.required ? ' *' : ''}
+                  </Text>
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+                    <Pressable
+                      style={[styles.chip, column === null && styles.chipSkip]}
+                      onPress={() => setColumn(field.key, null)}
+                    >
+                      <Text style={[styles.chipText, column === null && styles.chipTextActive]}>Skip</Text>
+                    </Pressable>
+                    {table.headers.map((header, index) => (
+                      <Pressable
+                        key={`${header}-${index}`}
+                        style={[styles.chip, column === index && styles.chipActive]}
+                        onPress={() => setColumn(field.key, index)}
+                      >
+                        <Text style={[styles.chipText, column === index && styles.chipTextActive]}>{header || `Column ${index + 1}`}</Text>
+                      </Pressable>
+                    ))}
+                  </ScrollView>
+                </View>
+              );
+            })}
+          </View>
+        )}
+
+        {preview && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Dry Run</Text>
+            <View style={styles.summaryCard}>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Ready to import</Text>
+                <Text style={[styles.summaryValue, { color: Colors.success }]}>{preview.valid.length}</Text>
+              </View>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Invalid rows</Text>
+                <Text style={[styles.summaryValue, { color: preview.invalid.length > 0 ? Colors.danger : Colors.textMuted }]}>
+                  {preview.invalid.length}
+                </Text>
+              </View>
+            </View>
+            {preview.invalid.slice(0, MAX_ERRORS_SHOWN).map(row => (
+              <View key={row.rowNumber} style={styles.errorRow}>
+                <Text style={styles.errorRowNumber}>Row {row.rowNumber}</Text>
+                <Text style={styles.errorText}>{row.errors.join(' · ')}</Text>
+              </View>
+            ))}
+            {preview.invalid.length > MAX_ERRORS_SHOWN && (
+              <Text style={styles.fileHint}>and {preview.invalid.length - MAX_ERRORS_SHOWN} more invalid rows</Text>
+            )}
+          </View>
+        )}
+      </ScrollView>
+
+      <View style={[styles.footer, { paddingBottom: insets.bottom + webBottomInset + 10 }]}>
+        <Pressable
+          style={({ pressed }) => [
+            styles.saveButton,
+            pressed && styles.saveButtonPressed,
+            (importing || !preview || preview.valid.length === 0) && styles.saveButtonDisabled,
+          ]}
+          onPress={handleImport}
+          disabled={importing || !preview || preview.valid.length === 0}
+        >
+          <Feather name="download" size={20} color={Colors.white} />
+          <Text style={styles.saveButtonText}>
+            {importing ? 'Importing...' : preview ? `Import ${preview.valid.length} Rows` : 'Import'}
+          </Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+    backgroundColor: Colors.background,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.textPrimary,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+  },
+  section: {
+    marginBottom: 20,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.primary,
+    marginBottom: 12,
+    textTransform: 'uppercase' as const,
+    letterSpacing: 1,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1.5,
+    borderColor: Colors.border,
+  },
+  chipActive: {
+    backgroundColor: Colors.darkGreen,
+    borderColor: Colors.darkGreen,
+  },
+  chipSkip: {
+    backgroundColor: Colors.textMuted,
+    borderColor: Colors.textMuted,
+  },
+  chipText: {
+    fontSize: 12,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.textSecondary,
+  },
+  chipTextActive: {
+    color: Colors.white,
+  },
+  fileCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 14,
+    backgroundColor: Colors.cardBackground,
+    borderRadius: 14,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    marginBottom: 20,
+  },
+  fileTitle: {
+    fontSize: 15,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.textPrimary,
+  },
+  fileHint: {
+    fontSize: 12,
+    fontFamily: 'Inter_400Regular',
+    color: Colors.textMuted,
+    marginTop: 2,
+  },
+  mappingRow: {
+    marginBottom: 14,
+  },
+  mappingLabel: {
+    fontSize: 12,
+    fontFamily: 'Inter_500Medium',
+    color: Colors.textSecondary,
+    marginBottom: 6,
+  },
+  summaryCard: {
+    backgroundColor: Colors.cardBackground,
+    borderRadius: 14,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    gap: 8,
+    marginBottom: 12,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  summaryLabel: {
+    fontSize: 14,
+    fontFamily: 'Inter_500Medium',
+    color: Colors.textSecondary,
+  },
+  summaryValue: {
+    fontSize: 16,
+    fontFamily: 'Inter_700Bold',
+  },
+  errorRow: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  errorRowNumber: {
+    fontSize: 12,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.danger,
+  },
+  errorText: {
+    fontSize: 12,
+    fontFamily: 'Inter_400Regular',
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  footer: {
+    paddingHorizontal: 20,
+    paddingTop: 12,
+    backgroundColor: Colors.background,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+  saveButton: {
+    backgroundColor: Colors.darkGreen,
+    borderRadius: 14,
+    paddingVertical: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    shadowColor: Colors.darkGreen,
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 6,
+  },
+  saveButtonPressed: {
+    transform: [{ scale: 0.98 }],
+    opacity: 0.9,
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.white,
+  },
+});
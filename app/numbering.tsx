@@ -0,0 +1,315 @@
+import React, { useState, useEffect } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TextInput,
+  Pressable,
+  Alert,
+  Platform,
+  ScrollView,
+  Switch,
+  KeyboardAvoidingView,
+} from 'react-native';
+import { router } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+import {
+  InvoiceNumbering,
+  DEFAULT_INVOICE_NUMBERING,
+  INVOICE_NUMBER_TOKENS,
+  getInvoiceNumbering,
+  saveInvoiceNumbering,
+  formatInvoiceNumber,
+} from '@/lib/storage';
+
+const PRESETS: { label: string; pattern: string }[] = [
+  { label: '0042', pattern: '{SEQ}' },
+  { label: 'NS-2026-0042', pattern: '{PREFIX}-{YYYY}-{SEQ}' },
+  { label: 'NS2603-0042', pattern: '{PREFIX}{YY}{MM}-{SEQ}' },
+];
+
+export default function NumberingScreen() {
+  const insets = useSafeAreaInsets();
+  const [numbering, setNumbering] = useState<InvoiceNumbering>(DEFAULT_INVOICE_NUMBERING);
+  const [padding, setPadding] = useState(String(DEFAULT_INVOICE_NUMBERING.padding));
+
+  useEffect(() => {
+    getInvoiceNumbering().then(saved => {
+      setNumbering(saved);
+      setPadding(String(saved.padding));
+    });
+  }, []);
+
+  const update = <K extends keyof InvoiceNumbering>(field: K, value: InvoiceNumbering[K]) => {
+    setNumbering(prev => ({ ...prev, [field]: value }));
+  };
+
+  const draft: InvoiceNumbering = { ...numbering, padding: parseInt(padding, 10) || 0 };
+
+  const handleSave = async () => {
+    try {
+      await saveInvoiceNumbering({ ...draft, prefix: draft.prefix.trim(), pattern: draft.pattern.trim() });
+      if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      router.back();
+    } catch (e) {
+      Alert.alert('Invalid Pattern', e instanceof Error ? e.message : 'Failed to save numbering');
+    }
+  };
+
+  const webTopInset = Platform.OS === 'web' ? 67 : 0;
+  const webBottomInset = Platform.OS === 'web' ? 34 : 0;
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <View style={[styles.header, { paddingTop: insets.top + webTopInset + 10 }]}>
+        <Pressable onPress={() => router.back()} hitSlop={12}>
+          <Ionicons name="arrow-back" size={24} color={Colors.primary} />
+        </Pressable>
+        <Text style={styles.headerTitle}>Invoice Numbering</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      <ScrollView
+        style={{ flex: 1 }}
+        contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + webBottomInset + 100 }]}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        <View style={styles.previewCard}>
+          <Text style={styles.previewLabel}>Example</Text>
+          <Text style={styles.previewValue}>
+            {draft.pattern.includes('{SEQ}') && draft.padding > 0 ? formatInvoiceNumber(draft, 42) : '—'}
+          </Text>
+        </View>
+
+        <View style={styles.fieldWrap}>
+          <Text style={styles.label}>Prefix</Text>
+          <TextInput
+            style={styles.input}
+            value={numbering.prefix}
+            onChangeText={val => update('prefix', val)}
+            placeholder="e.g. NS"
+            placeholderTextColor={Colors.textMuted}
+            autoCapitalize="characters"
+          />
+        </View>
+
+        <View style={styles.fieldWrap}>
+          <Text style={styles.label}>Pattern</Text>
+          <TextInput
+            style={styles.input}
+            value={numbering.pattern}
+            onChangeText={val => update('pattern', val)}
+            placeholder="{PREFIX}-{YYYY}-{SEQ}"
+            placeholderTextColor={Colors.textMuted}
+            autoCapitalize="characters"
+            autoCorrect={false}
+          />
+          <View style={styles.chipRow}>
+            {INVOICE_NUMBER_TOKENS.map(token => (
+              <Pressable key={token} style={styles.chip} onPress={() => update('pattern', numbering.pattern + token)}>
+                <Text style={styles.chipText}>{token}</Text>
+              </Pressable>
+            ))}
+          </View>
+          <View style={styles.chipRow}>
+            {PRESETS.map(preset => (
+              <Pressable
+                key={preset.pattern}
+                style={[styles.chip, numbering.pattern === preset.pattern && styles.chipActive]}
+                onPress={() => update('pattern', preset.pattern)}
+              >
+                <Text style={[styles.chipText, numbering.pattern === preset.pattern && styles.chipTextActive]}>{preset.label}</Text>
+              </Pressable>
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.fieldWrap}>
+          <Text style={styles.label}>Sequence Digits</Text>
+          <TextInput
+            style={styles.input}
+            value={padding}
+            onChangeText={setPadding}
+            placeholder="4"
+            placeholderTextColor={Colors.textMuted}
+            keyboardType="number-pad"
+          />
+        </View>
+
+        <View style={styles.switchRow}>
+          <View style={{ flex: 1 }}>
+            <Text style={styles.switchLabel}>Restart every year</Text>
+            <Text style={styles.switchHint}>The sequence goes back to 1 on the first invoice of each year</Text>
+          </View>
+          <Switch
+            value={numbering.resetYearly}
+            onValueChange={val => update('resetYearly', val)}
+            trackColor={{ false: '#E8E4DE', true: '#1B4332' }}
+            thumbColor={numbering.resetYearly ? '#C8A951' : '#fff'}
+            ios_backgroundColor="#E8E4DE"
+          />
+        </View>
+
+        <Text style={styles.note}>
+          Existing invoices keep their numbers. New numbers skip any that are already in use.
+        </Text>
+      </ScrollView>
+
+      <View style={[styles.footer, { paddingBottom: insets.bottom + webBottomInset + 10 }]}>
+        <Pressable
+          style={({ pressed }) => [styles.saveButton, pressed && { opacity: 0.9 }]}
+          onPress={handleSave}
+        >
+          <MaterialCommunityIcons name="check" size={20} color={Colors.white} />
+          <Text style={styles.saveButtonText}>Save Numbering</Text>
+        </Pressable>
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+    backgroundColor: Colors.background,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.textPrimary,
+  },
+  content: {
+    padding: 20,
+  },
+  previewCard: {
+    backgroundColor: Colors.primary,
+    borderRadius: 14,
+    padding: 18,
+    marginBottom: 20,
+    alignItems: 'center',
+  },
+  previewLabel: {
+    fontSize: 11,
+    fontFamily: 'Inter_500Medium',
+    color: 'rgba(255,255,255,0.6)',
+    textTransform: 'uppercase' as const,
+    letterSpacing: 1,
+  },
+  previewValue: {
+    fontSize: 22,
+    fontFamily: 'Inter_700Bold',
+    color: Colors.gold,
+    marginTop: 6,
+  },
+  fieldWrap: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 13,
+    fontFamily: 'Inter_500Medium',
+    color: Colors.textSecondary,
+    marginBottom: 6,
+  },
+  input: {
+    backgroundColor: Colors.cardBackground,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 14,
+    fontFamily: 'Inter_400Regular',
+    color: Colors.textPrimary,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 10,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 20,
+    borderWidth: 1.5,
+    borderColor: Colors.border,
+  },
+  chipActive: {
+    backgroundColor: Colors.darkGreen,
+    borderColor: Colors.darkGreen,
+  },
+  chipText: {
+    fontSize: 12,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.textSecondary,
+  },
+  chipTextActive: {
+    color: Colors.white,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: Colors.cardBackground,
+    borderRadius: 14,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  switchLabel: {
+    fontSize: 14,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.textPrimary,
+  },
+  switchHint: {
+    fontSize: 12,
+    fontFamily: 'Inter_400Regular',
+    color: Colors.textMuted,
+    marginTop: 2,
+  },
+  note: {
+    fontSize: 12,
+    fontFamily: 'Inter_400Regular',
+    color: Colors.textMuted,
+    marginTop: 16,
+    lineHeight: 18,
+  },
+  footer: {
+    paddingHorizontal: 20,
+    paddingTop: 12,
+    backgroundColor: Colors.background,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+  saveButton: {
+    backgroundColor: Colors.darkGreen,
+    borderRadius: 14,
+    paddingVertical: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.white,
+  },
+});
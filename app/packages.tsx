@@ -0,0 +1,409 @@
+import React, { useState, useCallback } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  FlatList,
+  TextInput,
+  Pressable,
+  Alert,
+  Platform,
+  Modal,
+  ScrollView,
+  KeyboardAvoidingView,
+} from 'react-native';
+import { router, useFocusEffect } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons, Feather, MaterialCommunityIcons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+import LineItemsEditor from '@/components/LineItemsEditor';
+import {
+  InvoiceItem,
+  InvoicePackage,
+  ShootType,
+  SHOOT_TYPES,
+  getAllPackages,
+  savePackage,
+  updatePackage,
+  deletePackage,
+  createItem,
+  hasItemPrices,
+  getItemsSubtotal,
+  formatCurrency,
+} from '@/lib/storage';
+
+export default function PackagesScreen() {
+  const insets = useSafeAreaInsets();
+  const [packages, setPackages] = useState<InvoicePackage[]>([]);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [shootType, setShootType] = useState<ShootType>('Wedding');
+  const [items, setItems] = useState<InvoiceItem[]>([createItem()]);
+  const [price, setPrice] = useState('');
+
+  const loadPackages = useCallback(async () => {
+    setPackages(await getAllPackages());
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadPackages();
+    }, [loadPackages])
+  );
+
+  const openModal = (pkg?: InvoicePackage) => {
+    setEditingId(pkg?.id || null);
+    setName(pkg?.name || '');
+    setShootType(pkg?.shootType || 'Wedding');
+    setItems(pkg && pkg.items.length > 0 ? pkg.items : [createItem()]);
+    setPrice(pkg?.price || '');
+    setModalVisible(true);
+    if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      Alert.alert('Required', 'Please enter a package name');
+      return;
+    }
+    const fields = {
+      name: name.trim(),
+      shootType,
+      items: items.filter(item => item.description.trim()),
+      price: price.trim(),
+    };
+    try {
+      if (editingId) {
+        await updatePackage(editingId, fields);
+      } else {
+        await savePackage(fields);
+      }
+      if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setModalVisible(false);
+      loadPackages();
+    } catch {
+      Alert.alert('Error', 'Failed to save package');
+    }
+  };
+
+  const handleDelete = (pkg: InvoicePackage) => {
+    Alert.alert(
+      'Delete Package',
+      `Delete ${pkg.name}? Invoices already created from it are not changed.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            await deletePackage(pkg.id);
+            if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+            loadPackages();
+          },
+        },
+      ]
+    );
+  };
+
+  const packagePrice = (pkg: InvoicePackage) => {
+    if (pkg.price) return formatCurrency(parseFloat(pkg.price) || 0);
+    if (hasItemPrices(pkg.items)) return formatCurrency(getItemsSubtotal(pkg.items));
+    return 'No price';
+  };
+
+  const webTopInset = Platform.OS === 'web' ? 67 : 0;
+  const webBottomInset = Platform.OS === 'web' ? 34 : 0;
+
+  const renderPackage = ({ item }: { item: InvoicePackage }) => (
+    <Pressable
+      style={({ pressed }) => [styles.card, pressed && { opacity: 0.9 }]}
+      onPress={() => openModal(item)}
+      onLongPress={() => handleDelete(item)}
+    >
+      <View style={styles.cardIcon}>
+        <MaterialCommunityIcons name="package-variant-closed" size={20} color={Colors.goldDark} />
+      </View>
+      <View style={{ flex: 1 }}>
+        <Text style={styles.cardTitle} numberOfLines={1}>{item.name}</Text>
+        <Text style={styles.cardMeta} numberOfLines={1}>
+          {item.shootType} · {item.items.length} {item.items.length === 1 ? 'item' : 'items'}
+        </Text>
+      </View>
+      <Text style={styles.cardPrice}>{packagePrice(item)}</Text>
+      <Pressable onPress={() => handleDelete(item)} hitSlop={10}>
+        <Feather name="trash-2" size={16} color={Colors.textMuted} />
+      </Pressable>
+    </Pressable>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, { paddingTop: insets.top + webTopInset + 10 }]}>
+        <Pressable onPress={() => router.back()} hitSlop={12}>
+          <Ionicons name="arrow-back" size={24} color={Colors.primary} />
+        </Pressable>
+        <Text style={styles.headerTitle}>Packages</Text>
+        <Pressable onPress={() => openModal()} hitSlop={10}>
+          <Ionicons name="add" size={24} color={Colors.primary} />
+        </Pressable>
+      </View>
+
+      <FlatList
+        data={packages}
+        keyExtractor={item => item.id}
+        renderItem={renderPackage}
+        contentContainerStyle={[styles.listContent, { paddingBottom: insets.bottom + webBottomInset + 40 }]}
+        showsVerticalScrollIndicator={false}
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <MaterialCommunityIcons name="package-variant" size={48} color={Colors.lightGray} />
+            <Text style={styles.emptyTitle}>No packages yet</Text>
+            <Text style={styles.emptyText}>Save the items and price you offer for each kind of shoot, then pick them when creating an invoice</Text>
+          </View>
+        }
+      />
+
+      <Modal
+        visible={modalVisible}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setModalVisible(false)}
+      >
+        <KeyboardAvoidingView
+          style={styles.modalContainer}
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        >
+          <View style={[styles.modalHeader, { paddingTop: Platform.OS === 'web' ? 20 : insets.top + 10 }]}>
+            <Pressable onPress={() => setModalVisible(false)} hitSlop={12}>
+              <Ionicons name="close" size={24} color={Colors.textPrimary} />
+            </Pressable>
+            <Text style={styles.headerTitle}>{editingId ? 'Edit Package' : 'New Package'}</Text>
+            <View style={{ width: 24 }} />
+          </View>
+
+          <ScrollView
+            style={{ flex: 1 }}
+            contentContainerStyle={[styles.modalContent, { paddingBottom: insets.bottom + 100 }]}
+            showsVerticalScrollIndicator={false}
+            keyboardShouldPersistTaps="handled"
+          >
+            <View style={styles.fieldWrap}>
+              <Text style={styles.label}>Name</Text>
+              <TextInput
+                style={styles.input}
+                value={name}
+                onChangeText={setName}
+                placeholder="e.g. Gold Wedding"
+                placeholderTextColor={Colors.textMuted}
+              />
+            </View>
+            <View style={styles.fieldWrap}>
+              <Text style={styles.label}>Shoot Type</Text>
+              <View style={styles.chipRow}>
+                {SHOOT_TYPES.map(type => (
+                  <Pressable
+                    key={type}
+                    style={[styles.chip, shootType === type && styles.chipActive]}
+                    onPress={() => setShootType(type)}
+                  >
+                    <Text style={[styles.chipText, shootType === type && styles.chipTextActive]}>{type}</Text>
+                  </Pressable>
+                ))}
+              </View>
+            </View>
+
+            <LineItemsEditor items={items} onChange={setItems} />
+
+            <View style={styles.fieldWrap}>
+              <Text style={styles.label}>Package Price</Text>
+              <TextInput
+                style={[styles.input, styles.priceInput]}
+                value={price}
+                onChangeText={setPrice}
+                placeholder={hasItemPrices(items) ? `Leave empty to use items (${formatCurrency(getItemsSubtotal(items))})` : 'Default price'}
+                placeholderTextColor={Colors.textMuted}
+                keyboardType="numeric"
+              />
+            </View>
+          </ScrollView>
+
+          <View style={[styles.modalFooter, { paddingBottom: insets.bottom + 10 }]}>
+            <Pressable
+              style={({ pressed }) => [styles.saveButton, pressed && { opacity: 0.9 }]}
+              onPress={handleSave}
+            >
+              <MaterialCommunityIcons name={editingId ? 'check' : 'plus'} size={20} color={Colors.white} />
+              <Text style={styles.saveButtonText}>{editingId ? 'Update Package' : 'Add Package'}</Text>
+            </Pressable>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+    backgroundColor: Colors.background,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.textPrimary,
+  },
+  listContent: {
+    padding: 20,
+    gap: 10,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 14,
+    backgroundColor: Colors.cardBackground,
+    borderRadius: 14,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  cardIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 12,
+    backgroundColor: Colors.cream,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  cardTitle: {
+    fontSize: 15,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.textPrimary,
+  },
+  cardMeta: {
+    fontSize: 12,
+    fontFamily: 'Inter_400Regular',
+    color: Colors.textMuted,
+    marginTop: 2,
+  },
+  cardPrice: {
+    fontSize: 13,
+    fontFamily: 'Inter_700Bold',
+    color: Colors.darkGreen,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingHorizontal: 30,
+    gap: 8,
+  },
+  emptyTitle: {
+    fontSize: 16,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.textSecondary,
+  },
+  emptyText: {
+    fontSize: 13,
+    fontFamily: 'Inter_400Regular',
+    color: Colors.textMuted,
+    textAlign: 'center',
+    lineHeight: 19,
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  modalContent: {
+    padding: 20,
+  },
+  fieldWrap: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 13,
+    fontFamily: 'Inter_500Medium',
+    color: Colors.textSecondary,
+    marginBottom: 6,
+  },
+  input: {
+    backgroundColor: Colors.cardBackground,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 14,
+    fontFamily: 'Inter_400Regular',
+    color: Colors.textPrimary,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  priceInput: {
+    borderColor: Colors.gold,
+    borderWidth: 1.5,
+    fontFamily: 'Inter_700Bold',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1.5,
+    borderColor: Colors.border,
+  },
+  chipActive: {
+    backgroundColor: Colors.darkGreen,
+    borderColor: Colors.darkGreen,
+  },
+  chipText: {
+    fontSize: 12,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.textSecondary,
+  },
+  chipTextActive: {
+    color: Colors.white,
+  },
+  modalFooter: {
+    paddingHorizontal: 20,
+    paddingTop: 12,
+    backgroundColor: Colors.background,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+  saveButton: {
+    backgroundColor: Colors.darkGreen,
+    borderRadius: 14,
+    paddingVertical: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.white,
+  },
+});
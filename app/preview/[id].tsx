@@ -19,47 +19,141 @@ import * as Haptics from 'expo-haptics';
 import * as MediaLibrary from 'expo-media-library';
 import { captureRef } from 'react-native-view-shot';
 import * as FileSystem from 'expo-file-system';
-import Colors from '@/constants/colors';
+import Colors, { INVOICE_STATUS_COLORS, QUOTE_STATUS_COLORS } from '@/constants/colors';
 import {
   Invoice,
+  InvoicePayment,
+  CreditNote,
+  InvoiceStatus,
+  INVOICE_STATUS_LABELS,
+  Quote,
+  QuoteStatus,
+  QUOTE_STATUS_LABELS,
   getInvoice,
+  updateInvoice,
+  getQuote,
+  updateQuote,
+  convertQuoteToInvoice,
+  issueReceipt,
+  deleteCreditNote,
+  HistoryEntry,
+  getHistory,
+  getVersionBefore,
+  getInvoiceVersion,
   getTotal,
-  calculateBalance,
+  getSubtotal,
+  applyAdjustments,
+  formatAdjustmentLabel,
+  hasItemPrice,
+  hasItemPrices,
+  getLineTotal,
+  getInvoiceBalance,
+  sortPayments,
   formatCurrency,
   formatDate,
 } from '@/lib/storage';
-import { generateInvoiceHTML } from '@/lib/pdf-generator';
+import { generateInvoiceHTML, generateQuoteHTML, generateReceiptHTML, generateCreditNoteHTML } from '@/lib/pdf-generator';
 import { useBranding } from '@/lib/branding-context';
 import { useTheme } from '@/lib/theme-context';
+import CreditNoteModal from '@/components/CreditNoteModal';
+import HistoryTimeline from '@/components/HistoryTimeline';
 
 export default function PreviewScreen() {
-  const { id } = useLocalSearchParams<{ id: string }>();
+  const { id, type, version, before } = useLocalSearchParams<{ id: string; type?: string; version?: string; before?: string }>();
+  const isQuote = type === 'quote';
+  const isVersion = !!version;
   const insets = useSafeAreaInsets();
   const { branding } = useBranding();
   const { invoiceColors, invoiceStyle } = useTheme();
   const invoiceRef = useRef<View>(null);
   const [invoice, setInvoice] = useState<Invoice | null>(null);
+  const [quote, setQuote] = useState<Quote | null>(null);
   const [loading, setLoading] = useState(true);
   const [generating, setGenerating] = useState(false);
   const [savingPhoto, setSavingPhoto] = useState(false);
+  const [receiptFor, setReceiptFor] = useState<string | null>(null);
+  const [creditNoteVisible, setCreditNoteVisible] = useState(false);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [historyBusy, setHistoryBusy] = useState<string | null>(null);
+  const [versionEntry, setVersionEntry] = useState<HistoryEntry | null>(null);
 
   useEffect(() => {
     loadInvoice();
-  }, [id]);
+  }, [id, type, version]);
+
+  const invoiceId = invoice?.id;
+  const invoiceUpdatedAt = invoice?.updatedAt;
+  useEffect(() => {
+    if (!invoiceId || isVersion) return;
+    getHistory(invoiceId).then(setHistory);
+  }, [invoiceId, invoiceUpdatedAt, isVersion]);
 
   const loadInvoice = async () => {
     if (!id) return;
-    const data = await getInvoice(id);
-    setInvoice(data);
+    if (isQuote) {
+      setQuote(await getQuote(id));
+    } else if (version) {
+      const found = await getInvoiceVersion(version, before === '1');
+      setInvoice(found?.invoice ?? null);
+      setVersionEntry(found?.entry ?? null);
+    } else {
+      setInvoice(await getInvoice(id));
+    }
     setLoading(false);
   };
 
-  const handleGeneratePDF = async () => {
+  const document = isQuote ? quote : invoice;
+  const documentNumber = quote ? quote.quoteNumber : invoice?.invoiceNumber;
+  const documentLabel = isQuote ? 'Quote' : 'Invoice';
+
+  const handleQuoteStatusChange = async (status: QuoteStatus) => {
+    if (!quote) return;
+    const updated = await updateQuote(quote.id, { status });
+    if (updated) setQuote(updated);
+    if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+  };
+
+  const handleConvert = async () => {
+    if (!quote) return;
+    try {
+      const result = await convertQuoteToInvoice(quote.id);
+      if (!result) return;
+      if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      router.replace({ pathname: '/preview/[id]', params: { id: result.invoice.id } });
+    } catch (e) {
+      Alert.alert('Error', e instanceof Error ? e.message : 'Failed to convert quote');
+    }
+  };
+
+  const buildHTML = () => {
+    const pdfColors = { primary: invoiceColors.primary, gold: invoiceColors.gold, darkGreen: invoiceColors.darkGreen };
+    if (quote) return generateQuoteHTML(quote, branding, pdfColors, invoiceStyle);
+    return generateInvoiceHTML(invoice!, branding, pdfColors, invoiceStyle);
+  };
+
+  const handleStatusChange = async (status: InvoiceStatus) => {
     if (!invoice) return;
+    const updated = await updateInvoice(invoice.id, { status });
+    if (updated) setInvoice(updated);
+    if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+  };
+
+  const confirmCancel = () => {
+    Alert.alert(
+      'Cancel Invoice',
+      `Mark invoice #${invoice?.invoiceNumber} as cancelled? It will no longer count towards revenue.`,
+      [
+        { text: 'Keep', style: 'cancel' },
+        { text: 'Cancel Invoice', style: 'destructive', onPress: () => handleStatusChange('cancelled') },
+      ]
+    );
+  };
+
+  const handleGeneratePDF = async () => {
+    if (!document) return;
     setGenerating(true);
     try {
-      const pdfColors = { primary: invoiceColors.primary, gold: invoiceColors.gold, darkGreen: invoiceColors.darkGreen };
-      const html = generateInvoiceHTML(invoice, branding, pdfColors, invoiceStyle);
+      const html = buildHTML();
       const { uri } = await Print.printToFileAsync({ html, width: 595, height: 842 });
       if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
 
@@ -67,11 +161,19 @@ export default function PreviewScreen() {
       if (isAvailable) {
         await Sharing.shareAsync(uri, {
           mimeType: 'application/pdf',
-          dialogTitle: `Invoice #${invoice.invoiceNumber} - ${invoice.customerNames}`,
+          dialogTitle: `${documentLabel} #${documentNumber} - ${document.customerNames}`,
           UTI: 'com.adobe.pdf',
         });
       } else {
-        Alert.alert('PDF Saved', `Invoice PDF has been saved to your device.`);
+        Alert.alert('PDF Saved', `${documentLabel} PDF has been saved to your device.`);
+      }
+      if (quote?.status === 'draft') {
+        const updated = await updateQuote(quote.id, { status: 'sent' });
+        if (updated) setQuote(updated);
+      }
+      if (invoice?.status === 'draft' && !isVersion) {
+        const updated = await updateInvoice(invoice.id, { status: 'sent' });
+        if (updated) setInvoice(updated);
       }
     } catch (e) {
       Alert.alert('Error', 'Failed to generate PDF');
@@ -80,11 +182,89 @@ export default function PreviewScreen() {
     }
   };
 
-  const handlePrint = async () => {
+  const shareSlip = async (html: string, label: string, dialogTitle: string) => {
+    const { uri } = await Print.printToFileAsync({ html, width: 595, height: 842 });
+    if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    if (await Sharing.isAvailableAsync()) {
+      await Sharing.shareAsync(uri, { mimeType: 'application/pdf', dialogTitle, UTI: 'com.adobe.pdf' });
+    } else {
+      Alert.alert('PDF Saved', `${label} PDF has been saved to your device.`);
+    }
+  };
+
+  const handleShareReceipt = async (payment: InvoicePayment) => {
+    if (!invoice) return;
+    setReceiptFor(payment.id);
+    try {
+      const result = await issueReceipt(invoice.id, payment.id);
+      if (!result) return;
+      setInvoice(result.invoice);
+      const pdfColors = { primary: invoiceColors.primary, gold: invoiceColors.gold, darkGreen: invoiceColors.darkGreen };
+      const html = generateReceiptHTML(result.invoice, result.payment, branding, pdfColors, invoiceStyle);
+      await shareSlip(html, 'Receipt', `Receipt #${result.payment.receiptNumber} - ${result.invoice.customerNames}`);
+    } catch {
+      Alert.alert('Error', 'Failed to generate receipt');
+    } finally {
+      setReceiptFor(null);
+    }
+  };
+
+  const handleShareCreditNote = async (creditNote: CreditNote) => {
+    if (!invoice) return;
+    setReceiptFor(creditNote.id);
+    try {
+      const pdfColors = { primary: invoiceColors.primary, gold: invoiceColors.gold, darkGreen: invoiceColors.darkGreen };
+      const html = generateCreditNoteHTML(invoice, creditNote, branding, pdfColors, invoiceStyle);
+      await shareSlip(html, 'Credit note', `Credit Note #${creditNote.creditNoteNumber} - ${invoice.customerNames}`);
+    } catch {
+      Alert.alert('Error', 'Failed to generate credit note');
+    } finally {
+      setReceiptFor(null);
+    }
+  };
+
+  const confirmDeleteCreditNote = (creditNote: CreditNote) => {
     if (!invoice) return;
+    Alert.alert(
+      'Delete Credit Note',
+      `Delete credit note #${creditNote.creditNoteNumber}? The invoice balance will go back up by ${formatCurrency(parseFloat(creditNote.amount) || 0)}.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const updated = await deleteCreditNote(invoice.id, creditNote.id);
+            if (updated) setInvoice(updated);
+            if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+          },
+        },
+      ]
+    );
+  };
+
+  const handleViewVersion = (entry: HistoryEntry, fromBefore: boolean) => {
+    router.push({ pathname: '/preview/[id]', params: { id: id!, version: entry.id, before: fromBefore ? '1' : '' } });
+  };
+
+  const handleExportVersion = async (entry: HistoryEntry, fromBefore: boolean) => {
+    const snapshot = (fromBefore ? getVersionBefore(entry) : entry.snapshot) as Invoice;
+    setHistoryBusy(`${entry.id}${fromBefore ? ':before' : ''}`);
     try {
       const pdfColors = { primary: invoiceColors.primary, gold: invoiceColors.gold, darkGreen: invoiceColors.darkGreen };
-      const html = generateInvoiceHTML(invoice, branding, pdfColors, invoiceStyle);
+      const html = generateInvoiceHTML(snapshot, branding, pdfColors, invoiceStyle);
+      await shareSlip(html, 'Invoice', `Invoice #${snapshot.invoiceNumber} - ${snapshot.customerNames}`);
+    } catch {
+      Alert.alert('Error', 'Failed to generate PDF');
+    } finally {
+      setHistoryBusy(null);
+    }
+  };
+
+  const handlePrint = async () => {
+    if (!document) return;
+    try {
+      const html = buildHTML();
       await Print.printAsync({ html });
     } catch (e) {
       console.log('Print cancelled or failed');
@@ -92,7 +272,7 @@ export default function PreviewScreen() {
   };
 
   const handleSavePhoto = async () => {
-    if (!invoice || !invoiceRef.current) return;
+    if (!document || !invoiceRef.current) return;
     setSavingPhoto(true);
     try {
       if (Platform.OS === 'web') {
@@ -103,7 +283,7 @@ export default function PreviewScreen() {
 
       const { status } = await MediaLibrary.requestPermissionsAsync();
       if (status !== 'granted') {
-        Alert.alert('Permission Needed', 'Please allow access to your photo gallery to save invoices as images.');
+        Alert.alert('Permission Needed', `Please allow access to your photo gallery to save ${documentLabel.toLowerCase()}s as images.`);
         setSavingPhoto(false);
         return;
       }
@@ -116,7 +296,7 @@ export default function PreviewScreen() {
 
       await MediaLibrary.saveToLibraryAsync(uri);
       if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      Alert.alert('Saved', `Invoice #${invoice.invoiceNumber} has been saved to your gallery.`);
+      Alert.alert('Saved', `${documentLabel} #${documentNumber} has been saved to your gallery.`);
     } catch (e) {
       Alert.alert('Error', 'Failed to save image to gallery');
     } finally {
@@ -135,10 +315,10 @@ export default function PreviewScreen() {
     );
   }
 
-  if (!invoice) {
+  if (!document) {
     return (
       <View style={[styles.loadingContainer, { paddingTop: insets.top + webTopInset }]}>
-        <Text style={styles.errorText}>Invoice not found</Text>
+        <Text style={styles.errorText}>{documentLabel} not found</Text>
         <Pressable onPress={() => router.back()}>
           <Text style={styles.backLink}>Go Back</Text>
         </Pressable>
@@ -146,9 +326,15 @@ export default function PreviewScreen() {
     );
   }
 
-  const total = getTotal(invoice);
-  const advance = parseFloat(invoice.advancePayment) || 0;
-  const balance = calculateBalance(total, invoice.advancePayment);
+  const subtotal = getSubtotal(document);
+  const adjustments = applyAdjustments(subtotal, document.adjustments);
+  const total = getTotal(document);
+  const payments = invoice ? sortPayments(invoice.payments) : [];
+  const creditNotes = invoice ? invoice.creditNotes : [];
+  const balance = invoice ? getInvoiceBalance(invoice) : 0;
+  const statusColor = quote ? QUOTE_STATUS_COLORS[quote.status] : INVOICE_STATUS_COLORS[invoice!.status];
+  const statusLabel = quote ? QUOTE_STATUS_LABELS[quote.status] : INVOICE_STATUS_LABELS[invoice!.status];
+  const showPrices = hasItemPrices(document.items);
 
   return (
     <View style={[styles.container, { paddingTop: insets.top + webTopInset }]}>
@@ -156,13 +342,74 @@ export default function PreviewScreen() {
         <Pressable onPress={() => router.back()} hitSlop={12}>
           <Ionicons name="arrow-back" size={24} color={Colors.primary} />
         </Pressable>
-        <Text style={styles.headerTitle}>Invoice Preview</Text>
-        <Pressable
-          onPress={() => router.push({ pathname: '/edit/[id]', params: { id: invoice.id } })}
-          hitSlop={12}
-        >
-          <Feather name="edit-2" size={20} color={Colors.primary} />
-        </Pressable>
+        <Text style={styles.headerTitle}>{documentLabel} {isVersion ? 'Version' : 'Preview'}</Text>
+        {isVersion ? (
+          <View style={{ width: 20 }} />
+        ) : (
+          <Pressable
+            onPress={() => router.push({ pathname: '/edit/[id]', params: isQuote ? { id: id!, type: 'quote' } : { id: id! } })}
+            hitSlop={12}
+          >
+            <Feather name="edit-2" size={20} color={Colors.primary} />
+          </Pressable>
+        )}
+      </View>
+
+      <View style={styles.statusBar}>
+        <View style={[styles.statusBadge, { backgroundColor: statusColor + '20' }]}>
+          <View style={[styles.statusDot, { backgroundColor: statusColor }]} />
+          <Text style={[styles.statusBadgeText, { color: statusColor }]}>{statusLabel}</Text>
+        </View>
+        {isVersion ? (
+          <Text style={styles.versionNote}>
+            {before === '1' ? 'Before' : 'Saved'} {formatDate(versionEntry?.createdAt ?? invoice!.updatedAt)}
+          </Text>
+        ) : quote ? (
+          <View style={styles.statusActions}>
+            {quote.status === 'draft' && (
+              <Pressable onPress={() => handleQuoteStatusChange('sent')} hitSlop={8}>
+                <Text style={styles.statusAction}>Mark as Sent</Text>
+              </Pressable>
+            )}
+            {quote.invoiceId ? (
+              <Pressable onPress={() => router.push({ pathname: '/preview/[id]', params: { id: quote.invoiceId } })} hitSlop={8}>
+                <Text style={styles.statusAction}>View Invoice</Text>
+              </Pressable>
+            ) : quote.status === 'declined' ? (
+              <Pressable onPress={() => handleQuoteStatusChange('sent')} hitSlop={8}>
+                <Text style={styles.statusAction}>Reopen</Text>
+              </Pressable>
+            ) : (
+              <>
+                {quote.status !== 'accepted' && (
+                  <Pressable onPress={() => handleQuoteStatusChange('accepted')} hitSlop={8}>
+                    <Text style={styles.statusAction}>Accept</Text>
+                  </Pressable>
+                )}
+                <Pressable onPress={() => handleQuoteStatusChange('declined')} hitSlop={8}>
+                  <Text style={[styles.statusAction, { color: Colors.danger }]}>Decline</Text>
+                </Pressable>
+              </>
+            )}
+          </View>
+        ) : (
+          <View style={styles.statusActions}>
+            {invoice!.status === 'draft' && (
+              <Pressable onPress={() => handleStatusChange('sent')} hitSlop={8}>
+                <Text style={styles.statusAction}>Mark as Sent</Text>
+              </Pressable>
+            )}
+            {invoice!.status === 'cancelled' ? (
+              <Pressable onPress={() => handleStatusChange('sent')} hitSlop={8}>
+                <Text style={styles.statusAction}>Restore</Text>
+              </Pressable>
+            ) : (
+              <Pressable onPress={confirmCancel} hitSlop={8}>
+                <Text style={[styles.statusAction, { color: Colors.danger }]}>Cancel Invoice</Text>
+              </Pressable>
+            )}
+          </View>
+        )}
       </View>
 
       <ScrollView
@@ -184,7 +431,7 @@ export default function PreviewScreen() {
                 source={{ uri: branding.logoUri }}
                 style={styles.logoImage}
               />
-              <Text style={styles.invoiceTitle}>INVOICE</Text>
+              <Text style={styles.invoiceTitle}>{isQuote ? 'QUOTATION' : 'INVOICE'}</Text>
             </View>
             <View style={styles.businessBadge}>
               <Text style={styles.businessName}>{branding.businessName}</Text>
@@ -194,18 +441,23 @@ export default function PreviewScreen() {
 
           <View style={styles.detailsSection}>
             <Text style={styles.detailText}>
-              Invoice No &nbsp;&nbsp;: &nbsp;{invoice.invoiceNumber}
+              {documentLabel} No &nbsp;&nbsp;: &nbsp;{documentNumber}
             </Text>
             <Text style={styles.detailText}>
-              Invoice Date : &nbsp;{formatDate(invoice.invoiceDate)}
+              {documentLabel} Date : &nbsp;{formatDate(quote ? quote.quoteDate : invoice!.invoiceDate)}
             </Text>
+            {!!quote?.validUntil && (
+              <Text style={styles.detailText}>
+                Valid Until : &nbsp;{formatDate(quote.validUntil)}
+              </Text>
+            )}
             <View style={styles.customerRow}>
               <View style={styles.customerLeft}>
-                <Text style={styles.customerName}>{invoice.customerNames}</Text>
-                <Text style={styles.eventDateText}>{formatDate(invoice.eventDate)}</Text>
-                <Text style={styles.locationText}>{invoice.eventLocation}</Text>
+                <Text style={styles.customerName}>{document.customerNames}</Text>
+                <Text style={styles.eventDateText}>{formatDate(document.eventDate)}</Text>
+                <Text style={styles.locationText}>{document.eventLocation}</Text>
               </View>
-              <Text style={styles.phoneText}>{invoice.phoneNumber}</Text>
+              <Text style={styles.phoneText}>{document.phoneNumber}</Text>
             </View>
           </View>
 
@@ -213,33 +465,86 @@ export default function PreviewScreen() {
             <View style={styles.tableHeader}>
               <Text style={[styles.tableHeaderText, { flex: 1 }]}>Description</Text>
               <Text style={[styles.tableHeaderText, { width: 60, textAlign: 'center' as const }]}>QTY</Text>
+              {showPrices && (
+                <Text style={[styles.tableHeaderText, { width: 90, textAlign: 'right' as const }]}>Amount</Text>
+              )}
             </View>
-            {invoice.items.map((item, index) => (
+            {document.items.map((item, index) => (
               <View key={index} style={styles.tableRow}>
                 <Text style={[styles.tableCell, { flex: 1 }]}>{item.description}</Text>
                 <Text style={[styles.tableCell, { width: 60, textAlign: 'center' as const }]}>
                   {item.quantity || '---'}
                 </Text>
+                {showPrices && (
+                  <Text style={[styles.tableCell, { width: 90, textAlign: 'right' as const }]}>
+                    {hasItemPrice(item) ? formatCurrency(getLineTotal(item)) : ''}
+                  </Text>
+                )}
               </View>
             ))}
           </View>
 
           <View style={styles.totalsSection}>
             <View style={styles.totalsDivider} />
+            {adjustments.length > 0 && (
+              <>
+                <View style={styles.subtotalRow}>
+                  <Text style={styles.advanceLabel}>Subtotal</Text>
+                  <Text style={styles.advanceAmount}>{formatCurrency(subtotal)}</Text>
+                </View>
+                {adjustments.map(({ adjustment, amount }) => (
+                  <View key={adjustment.id} style={styles.subtotalRow}>
+                    <Text style={styles.advanceLabel}>{formatAdjustmentLabel(adjustment)}</Text>
+                    <Text style={styles.advanceAmount}>{amount < 0 ? `- ${formatCurrency(-amount)}` : formatCurrency(amount)}</Text>
+                  </View>
+                ))}
+              </>
+            )}
             <View style={styles.totalRow}>
               <Text style={styles.totalLabel}>Total</Text>
               <Text style={styles.totalAmount}>{formatCurrency(total)}</Text>
             </View>
-            <View style={styles.goldDivider} />
-            <View style={styles.subtotalRow}>
-              <Text style={styles.advanceLabel}>Advance</Text>
-              <Text style={styles.advanceAmount}>- {formatCurrency(advance)}</Text>
-            </View>
-            <View style={styles.goldDivider} />
-            <View style={styles.subtotalRow}>
-              <Text style={styles.balanceLabel}>Balance</Text>
-              <Text style={styles.balanceAmount}>{formatCurrency(balance)}</Text>
-            </View>
+            {invoice && (
+              <>
+                <View style={styles.goldDivider} />
+                {payments.length === 0 ? (
+                  <View style={styles.subtotalRow}>
+                    <Text style={styles.advanceLabel}>Paid</Text>
+                    <Text style={styles.advanceAmount}>- {formatCurrency(0)}</Text>
+                  </View>
+                ) : payments.map(payment => (
+                  <View key={payment.id} style={styles.subtotalRow}>
+                    <Text style={styles.advanceLabel}>
+                      {formatDate(payment.date)} · {payment.method}{payment.reference ? ` (${payment.reference})` : ''}
+                    </Text>
+                    <Text style={styles.advanceAmount}>- {formatCurrency(parseFloat(payment.amount) || 0)}</Text>
+                  </View>
+                ))}
+                {creditNotes.map(creditNote => (
+                  <React.Fragment key={creditNote.id}>
+                    <View style={styles.subtotalRow}>
+                      <Text style={styles.advanceLabel}>
+                        Credit Note #{creditNote.creditNoteNumber}{creditNote.reason ? ` · ${creditNote.reason}` : ''}
+                      </Text>
+                      <Text style={styles.advanceAmount}>- {formatCurrency(parseFloat(creditNote.amount) || 0)}</Text>
+                    </View>
+                    {(parseFloat(creditNote.refundAmount) || 0) > 0 && (
+                      <View style={styles.subtotalRow}>
+                        <Text style={styles.advanceLabel}>
+                          Refund · {creditNote.method}{creditNote.reference ? ` (${creditNote.reference})` : ''}
+                        </Text>
+                        <Text style={styles.advanceAmount}>+ {formatCurrency(parseFloat(creditNote.refundAmount) || 0)}</Text>
+                      </View>
+                    )}
+                  </React.Fragment>
+                ))}
+                <View style={styles.goldDivider} />
+                <View style={styles.subtotalRow}>
+                  <Text style={styles.balanceLabel}>Balance</Text>
+                  <Text style={styles.balanceAmount}>{formatCurrency(balance)}</Text>
+                </View>
+              </>
+            )}
           </View>
 
           <View style={styles.bankSection}>
@@ -269,8 +574,98 @@ export default function PreviewScreen() {
             <View style={styles.stripeGold} />
           </View>
         </View>
+
+        {payments.length > 0 && !isVersion && (
+          <View style={styles.receiptsSection}>
+            <Text style={styles.receiptsTitle}>Receipts</Text>
+            {payments.map(payment => (
+              <View key={payment.id} style={styles.receiptRow}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.receiptAmount}>{formatCurrency(parseFloat(payment.amount) || 0)}</Text>
+                  <Text style={styles.receiptMeta}>{formatDate(payment.date)} · {payment.method}</Text>
+                </View>
+                <Pressable
+                  style={({ pressed }) => [styles.receiptBtn, pressed && { opacity: 0.8 }]}
+                  onPress={() => handleShareReceipt(payment)}
+                  disabled={receiptFor !== null}
+                >
+                  {receiptFor === payment.id ? (
+                    <ActivityIndicator size="small" color={Colors.darkGreen} />
+                  ) : (
+                    <MaterialCommunityIcons name="receipt" size={16} color={Colors.darkGreen} />
+                  )}
+                  <Text style={styles.receiptBtnText}>
+                    {payment.receiptNumber ? `Receipt #${payment.receiptNumber}` : 'Issue Receipt'}
+                  </Text>
+                </Pressable>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {invoice && !isVersion && (
+          <View style={styles.receiptsSection}>
+            <View style={styles.sectionHeaderRow}>
+              <Text style={styles.receiptsTitle}>Credit Notes</Text>
+              <Pressable onPress={() => setCreditNoteVisible(true)} style={styles.addCreditBtn} hitSlop={8}>
+                <Ionicons name="add-circle" size={20} color={Colors.darkGreen} />
+                <Text style={styles.receiptBtnText}>Add Credit Note</Text>
+              </Pressable>
+            </View>
+            {creditNotes.length === 0 && (
+              <Text style={styles.receiptMeta}>Credit part of this invoice if a booking is cancelled or postponed</Text>
+            )}
+            {creditNotes.map(creditNote => (
+              <View key={creditNote.id} style={styles.receiptRow}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.receiptAmount}>{formatCurrency(parseFloat(creditNote.amount) || 0)}</Text>
+                  <Text style={styles.receiptMeta}>
+                    {formatDate(creditNote.date)}
+                    {(parseFloat(creditNote.refundAmount) || 0) > 0 ? ` · ${formatCurrency(parseFloat(creditNote.refundAmount) || 0)} refunded` : ''}
+                  </Text>
+                </View>
+                <Pressable
+                  style={({ pressed }) => [styles.receiptBtn, pressed && { opacity: 0.8 }]}
+                  onPress={() => handleShareCreditNote(creditNote)}
+                  disabled={receiptFor !== null}
+                >
+                  {receiptFor === creditNote.id ? (
+                    <ActivityIndicator size="small" color={Colors.darkGreen} />
+                  ) : (
+                    <MaterialCommunityIcons name="file-undo-outline" size={16} color={Colors.darkGreen} />
+                  )}
+                  <Text style={styles.receiptBtnText}>#{creditNote.creditNoteNumber}</Text>
+                </Pressable>
+                <Pressable onPress={() => confirmDeleteCreditNote(creditNote)} hitSlop={10} style={{ marginLeft: 12 }}>
+                  <Feather name="trash-2" size={16} color={Colors.danger} />
+                </Pressable>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {invoice && !isVersion && (
+          <HistoryTimeline
+            entries={history}
+            busyKey={historyBusy}
+            onView={handleViewVersion}
+            onExport={handleExportVersion}
+          />
+        )}
       </ScrollView>
 
+      {invoice && !isVersion && (
+        <CreditNoteModal
+          invoice={invoice}
+          visible={creditNoteVisible}
+          onClose={() => setCreditNoteVisible(false)}
+          onSaved={updated => {
+            setInvoice(updated);
+            setCreditNoteVisible(false);
+          }}
+        />
+      )}
+
       <View style={[styles.footer, { paddingBottom: insets.bottom + webBottomInset + 10 }]}>
         <Pressable
           style={({ pressed }) => [styles.iconBtn, pressed && { opacity: 0.8 }]}
@@ -301,6 +696,15 @@ export default function PreviewScreen() {
           )}
           <Text style={styles.shareBtnText}>{generating ? 'Generating...' : 'Share PDF'}</Text>
         </Pressable>
+        {quote && !quote.invoiceId && quote.status !== 'declined' && (
+          <Pressable
+            style={({ pressed }) => [styles.convertBtn, pressed && { opacity: 0.9, transform: [{ scale: 0.98 }] }]}
+            onPress={handleConvert}
+          >
+            <MaterialCommunityIcons name="file-swap-outline" size={18} color={Colors.white} />
+            <Text style={styles.shareBtnText}>Convert</Text>
+          </Pressable>
+        )}
       </View>
     </View>
   );
@@ -342,12 +746,108 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter_600SemiBold',
     color: Colors.textPrimary,
   },
+  statusBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: 12,
+  },
+  statusBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 10,
+  },
+  statusDot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+  },
+  statusBadgeText: {
+    fontSize: 12,
+    fontFamily: 'Inter_600SemiBold',
+  },
+  versionNote: {
+    fontSize: 12,
+    fontFamily: 'Inter_500Medium',
+    color: Colors.textMuted,
+  },
+  statusActions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  statusAction: {
+    fontSize: 13,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.darkGreen,
+  },
   scrollView: {
     flex: 1,
   },
   scrollContent: {
     padding: 16,
   },
+  receiptsSection: {
+    marginTop: 20,
+    gap: 8,
+  },
+  receiptsTitle: {
+    fontSize: 14,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.primary,
+    marginBottom: 4,
+    textTransform: 'uppercase' as const,
+    letterSpacing: 1,
+  },
+  sectionHeaderRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  addCreditBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginBottom: 4,
+  },
+  receiptRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.cardBackground,
+    borderRadius: 12,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  receiptAmount: {
+    fontSize: 14,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.textPrimary,
+  },
+  receiptMeta: {
+    fontSize: 12,
+    fontFamily: 'Inter_400Regular',
+    color: Colors.textMuted,
+    marginTop: 2,
+  },
+  receiptBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    borderWidth: 1.5,
+    borderColor: Colors.darkGreen,
+  },
+  receiptBtnText: {
+    fontSize: 12,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.darkGreen,
+  },
   invoiceCard: {
     backgroundColor: Colors.white,
     borderRadius: 16,
@@ -660,6 +1160,16 @@ const styles = StyleSheet.create({
     shadowRadius: 8,
     elevation: 6,
   },
+  convertBtn: {
+    height: 50,
+    borderRadius: 14,
+    paddingHorizontal: 16,
+    backgroundColor: Colors.gold,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+  },
   shareBtnText: {
     fontSize: 15,
     fontFamily: 'Inter_600SemiBold',
@@ -0,0 +1,288 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  FlatList,
+  TextInput,
+  Pressable,
+  Alert,
+  Platform,
+} from 'react-native';
+import { router, useFocusEffect } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons, Feather, MaterialCommunityIcons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import Colors, { QUOTE_STATUS_COLORS } from '@/constants/colors';
+import {
+  Quote,
+  QUOTE_STATUS_LABELS,
+  getAllQuotes,
+  deleteQuote,
+  searchQuotes,
+  getTotal,
+  formatCurrency,
+  formatDate,
+} from '@/lib/storage';
+
+export default function QuotesScreen() {
+  const insets = useSafeAreaInsets();
+  const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+
+  const loadQuotes = useCallback(async () => {
+    setQuotes(await getAllQuotes());
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadQuotes();
+    }, [loadQuotes])
+  );
+
+  const filtered = useMemo(() => searchQuery ? searchQuotes(quotes, searchQuery) : quotes, [quotes, searchQuery]);
+
+  const handleDelete = (quote: Quote) => {
+    Alert.alert(
+      'Delete Quote',
+      `Delete quote #${quote.quoteNumber} for ${quote.customerNames}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            await deleteQuote(quote.id);
+            if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+            loadQuotes();
+          },
+        },
+      ]
+    );
+  };
+
+  const webTopInset = Platform.OS === 'web' ? 67 : 0;
+  const webBottomInset = Platform.OS === 'web' ? 34 : 0;
+
+  const renderQuote = ({ item }: { item: Quote }) => {
+    const statusColor = QUOTE_STATUS_COLORS[item.status];
+    return (
+      <Pressable
+        style={({ pressed }) => [styles.card, pressed && { opacity: 0.9 }]}
+        onPress={() => router.push({ pathname: '/preview/[id]', params: { id: item.id, type: 'quote' } })}
+        onLongPress={() => handleDelete(item)}
+      >
+        <View style={styles.cardTop}>
+          <View style={{ flex: 1 }}>
+            <Text style={styles.cardTitle} numberOfLines={1}>{item.customerNames || 'Unnamed'}</Text>
+            <View style={styles.cardNoRow}>
+              <Text style={styles.cardMeta}>#{item.quoteNumber}</Text>
+              <View style={[styles.statusBadge, { backgroundColor: statusColor + '20' }]}>
+                <Text style={[styles.statusBadgeText, { color: statusColor }]}>{QUOTE_STATUS_LABELS[item.status]}</Text>
+              </View>
+            </View>
+          </View>
+          <Text style={styles.cardTotal}>{formatCurrency(getTotal(item))}</Text>
+        </View>
+        <View style={styles.cardBottom}>
+          <View style={styles.cardMetaRow}>
+            <Feather name="calendar" size={12} color={Colors.textMuted} />
+            <Text style={styles.cardMeta}>{formatDate(item.eventDate)}</Text>
+          </View>
+          <View style={styles.cardMetaRow}>
+            <Feather name="clock" size={12} color={Colors.textMuted} />
+            <Text style={styles.cardMeta}>{item.validUntil ? `Valid until ${formatDate(item.validUntil)}` : 'No expiry'}</Text>
+          </View>
+          <View style={styles.cardActions}>
+            <Pressable
+              onPress={() => router.push({ pathname: '/edit/[id]', params: { id: item.id, type: 'quote' } })}
+              hitSlop={10}
+            >
+              <Feather name="edit-2" size={16} color={Colors.textMuted} />
+            </Pressable>
+            <Pressable onPress={() => handleDelete(item)} hitSlop={10}>
+              <Feather name="trash-2" size={16} color={Colors.danger} />
+            </Pressable>
+          </View>
+        </View>
+      </Pressable>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, { paddingTop: insets.top + webTopInset + 10 }]}>
+        <Pressable onPress={() => router.back()} hitSlop={12}>
+          <Ionicons name="arrow-back" size={24} color={Colors.primary} />
+        </Pressable>
+        <Text style={styles.headerTitle}>Quotes</Text>
+        <Pressable
+          onPress={() => {
+            if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+            router.push({ pathname: '/create', params: { type: 'quote' } });
+          }}
+          hitSlop={10}
+        >
+          <Ionicons name="add" size={24} color={Colors.primary} />
+        </Pressable>
+      </View>
+
+      <View style={styles.searchWrap}>
+        <Ionicons name="search" size={18} color={Colors.textMuted} />
+        <TextInput
+          style={styles.searchInput}
+          value={searchQuery}
+          onChangeText={setSearchQuery}
+          placeholder="Search by name, location, number..."
+          placeholderTextColor={Colors.textMuted}
+        />
+        {!!searchQuery && (
+          <Pressable onPress={() => setSearchQuery('')} hitSlop={8}>
+            <Ionicons name="close-circle" size={18} color={Colors.textMuted} />
+          </Pressable>
+        )}
+      </View>
+
+      <FlatList
+        data={filtered}
+        keyExtractor={item => item.id}
+        renderItem={renderQuote}
+        contentContainerStyle={[styles.listContent, { paddingBottom: insets.bottom + webBottomInset + 40 }]}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <MaterialCommunityIcons name="file-document-edit-outline" size={48} color={Colors.lightGray} />
+            <Text style={styles.emptyTitle}>{searchQuery ? 'No matching quotes' : 'No quotes yet'}</Text>
+            <Text style={styles.emptyText}>Send a price quotation before a booking, then convert it into an invoice once it is accepted</Text>
+          </View>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+    backgroundColor: Colors.background,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.textPrimary,
+  },
+  searchWrap: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginHorizontal: 20,
+    marginTop: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: Colors.cardBackground,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: 'Inter_400Regular',
+    color: Colors.textPrimary,
+    padding: 0,
+  },
+  listContent: {
+    padding: 20,
+    gap: 10,
+  },
+  card: {
+    backgroundColor: Colors.cardBackground,
+    borderRadius: 14,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  cardTop: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  cardTitle: {
+    fontSize: 15,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.textPrimary,
+  },
+  cardNoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 4,
+  },
+  cardMeta: {
+    fontSize: 12,
+    fontFamily: 'Inter_400Regular',
+    color: Colors.textMuted,
+  },
+  cardTotal: {
+    fontSize: 15,
+    fontFamily: 'Inter_700Bold',
+    color: Colors.textPrimary,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+  },
+  statusBadgeText: {
+    fontSize: 10,
+    fontFamily: 'Inter_600SemiBold',
+  },
+  cardBottom: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 14,
+    marginTop: 12,
+    paddingTop: 10,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+  cardMetaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  cardActions: {
+    flexDirection: 'row',
+    gap: 16,
+    marginLeft: 'auto',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingHorizontal: 30,
+    gap: 8,
+  },
+  emptyTitle: {
+    fontSize: 16,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.textSecondary,
+  },
+  emptyText: {
+    fontSize: 13,
+    fontFamily: 'Inter_400Regular',
+    color: Colors.textMuted,
+    textAlign: 'center',
+    lineHeight: 19,
+  },
+});
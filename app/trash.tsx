@@ -0,0 +1,318 @@
+import React, { useState, useCallback } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  FlatList,
+  Pressable,
+  Alert,
+  Platform,
+} from 'react-native';
+import { router, useFocusEffect } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons, Feather } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+import {
+  TrashEntry,
+  DEFAULT_TRASH_RETENTION_DAYS,
+  getTrash,
+  deleteFromTrash,
+  emptyTrash,
+  purgeTrash,
+  describeTrashEntry,
+  getTrashRetentionDays,
+  saveTrashRetentionDays,
+  formatDate,
+} from '@/lib/storage';
+import { restoreTrashEntry } from '@/lib/undo-context';
+
+const RETENTION_OPTIONS = [7, 14, 30, 60, 90];
+
+const COLLECTION_ICONS: Record<string, keyof typeof Feather.glyphMap> = {
+  ns_invoices: 'file-text',
+  ns_shoots: 'camera',
+  ns_upcoming_shoots: 'calendar',
+  ns_expenses: 'credit-card',
+};
+
+export default function TrashScreen() {
+  const insets = useSafeAreaInsets();
+  const [entries, setEntries] = useState<TrashEntry[]>([]);
+  const [retentionDays, setRetentionDays] = useState(DEFAULT_TRASH_RETENTION_DAYS);
+
+  const loadTrash = useCallback(async () => {
+    await purgeTrash();
+    const [trash, days] = await Promise.all([getTrash(), getTrashRetentionDays()]);
+    setEntries(trash);
+    setRetentionDays(days);
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadTrash();
+    }, [loadTrash])
+  );
+
+  const daysLeft = (entry: TrashEntry) => {
+    const purgeAt = new Date(entry.deletedAt).getTime() + retentionDays * 24 * 60 * 60 * 1000;
+    return Math.max(0, Math.ceil((purgeAt - Date.now()) / (24 * 60 * 60 * 1000)));
+  };
+
+  const handleRestore = async (entry: TrashEntry) => {
+    try {
+      await restoreTrashEntry(entry.id);
+    } catch {
+      Alert.alert('Error', 'Could not restore this item. Please try again.');
+      return;
+    }
+    if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    loadTrash();
+  };
+
+  const handleDeleteForever = (entry: TrashEntry) => {
+    Alert.alert(
+      'Delete Forever',
+      `Permanently delete ${describeTrashEntry(entry).title}? This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            await deleteFromTrash(entry.id);
+            if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+            loadTrash();
+          },
+        },
+      ]
+    );
+  };
+
+  const handleEmpty = () => {
+    if (entries.length === 0) return;
+    Alert.alert(
+      'Empty Trash',
+      `Permanently delete all ${entries.length} item${entries.length > 1 ? 's' : ''} in the trash?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Empty Trash',
+          style: 'destructive',
+          onPress: async () => {
+            await emptyTrash();
+            if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+            loadTrash();
+          },
+        },
+      ]
+    );
+  };
+
+  const handleRetention = async (days: number) => {
+    setRetentionDays(days);
+    await saveTrashRetentionDays(days);
+    if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    loadTrash();
+  };
+
+  const webTopInset = Platform.OS === 'web' ? 67 : 0;
+  const webBottomInset = Platform.OS === 'web' ? 34 : 0;
+
+  const renderEntry = ({ item }: { item: TrashEntry }) => {
+    const { title, subtitle } = describeTrashEntry(item);
+    const left = daysLeft(item);
+    return (
+      <View style={styles.card}>
+        <View style={styles.cardIcon}>
+          <Feather name={COLLECTION_ICONS[item.collection] || 'file'} size={18} color={Colors.goldDark} />
+        </View>
+        <View style={{ flex: 1 }}>
+          <Text style={styles.cardTitle} numberOfLines={1}>{title}</Text>
+          <Text style={styles.cardMeta} numberOfLines={1}>{subtitle}</Text>
+          <Text style={styles.cardMeta}>
+            Deleted {formatDate(item.deletedAt)} · {left === 0 ? 'purged today' : `purged in ${left} day${left > 1 ? 's' : ''}`}
+          </Text>
+        </View>
+        <Pressable onPress={() => handleRestore(item)} hitSlop={10} style={styles.restoreBtn}>
+          <Ionicons name="arrow-undo" size={14} color={Colors.darkGreen} />
+          <Text style={styles.restoreText}>Restore</Text>
+        </Pressable>
+        <Pressable onPress={() => handleDeleteForever(item)} hitSlop={10}>
+          <Feather name="x-circle" size={18} color={Colors.danger} />
+        </Pressable>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, { paddingTop: insets.top + webTopInset + 10 }]}>
+        <Pressable onPress={() => router.back()} hitSlop={12}>
+          <Ionicons name="arrow-back" size={24} color={Colors.primary} />
+        </Pressable>
+        <Text style={styles.headerTitle}>Trash</Text>
+        <Pressable onPress={handleEmpty} hitSlop={10} disabled={entries.length === 0}>
+          <Text style={[styles.emptyAction, entries.length === 0 && { opacity: 0.4 }]}>Empty</Text>
+        </Pressable>
+      </View>
+
+      <FlatList
+        data={entries}
+        keyExtractor={item => item.id}
+        renderItem={renderEntry}
+        contentContainerStyle={[styles.listContent, { paddingBottom: insets.bottom + webBottomInset + 40 }]}
+        showsVerticalScrollIndicator={false}
+        ListHeaderComponent={
+          <View style={styles.retention}>
+            <Text style={styles.retentionLabel}>Keep deleted items for</Text>
+            <View style={styles.chipRow}>
+              {RETENTION_OPTIONS.map(days => (
+                <Pressable
+                  key={days}
+                  style={[styles.chip, retentionDays === days && styles.chipActive]}
+                  onPress={() => handleRetention(days)}
+                >
+                  <Text style={[styles.chipText, retentionDays === days && styles.chipTextActive]}>{days} days</Text>
+                </Pressable>
+              ))}
+            </View>
+          </View>
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Feather name="trash-2" size={48} color={Colors.lightGray} />
+            <Text style={styles.emptyTitle}>Trash is empty</Text>
+            <Text style={styles.emptyText}>Deleted invoices, shoots and expenses stay here until they are purged</Text>
+          </View>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+    backgroundColor: Colors.background,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.textPrimary,
+  },
+  emptyAction: {
+    fontSize: 14,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.danger,
+  },
+  listContent: {
+    padding: 20,
+    gap: 10,
+  },
+  retention: {
+    marginBottom: 10,
+  },
+  retentionLabel: {
+    fontSize: 13,
+    fontFamily: 'Inter_500Medium',
+    color: Colors.textSecondary,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 20,
+    borderWidth: 1.5,
+    borderColor: Colors.border,
+  },
+  chipActive: {
+    backgroundColor: Colors.darkGreen,
+    borderColor: Colors.darkGreen,
+  },
+  chipText: {
+    fontSize: 12,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.textSecondary,
+  },
+  chipTextActive: {
+    color: Colors.white,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: Colors.cardBackground,
+    borderRadius: 14,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  cardIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 12,
+    backgroundColor: Colors.cream,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  cardTitle: {
+    fontSize: 15,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.textPrimary,
+  },
+  cardMeta: {
+    fontSize: 12,
+    fontFamily: 'Inter_400Regular',
+    color: Colors.textMuted,
+    marginTop: 2,
+  },
+  restoreBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 10,
+    borderWidth: 1.5,
+    borderColor: Colors.darkGreen,
+  },
+  restoreText: {
+    fontSize: 12,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.darkGreen,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingHorizontal: 30,
+    gap: 8,
+  },
+  emptyTitle: {
+    fontSize: 16,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.textSecondary,
+  },
+  emptyText: {
+    fontSize: 13,
+    fontFamily: 'Inter_400Regular',
+    color: Colors.textMuted,
+    textAlign: 'center',
+    lineHeight: 19,
+  },
+});
@@ -0,0 +1,204 @@
+import React from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TextInput,
+  Pressable,
+  Platform,
+} from 'react-native';
+import { Ionicons, Feather } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+import {
+  InvoiceAdjustment,
+  AdjustmentKind,
+  AdjustmentMode,
+  ADJUSTMENT_KINDS,
+  ADJUSTMENT_KIND_LABELS,
+  createAdjustment,
+  applyAdjustments,
+  formatCurrency,
+} from '@/lib/storage';
+
+interface AdjustmentsEditorProps {
+  adjustments: InvoiceAdjustment[];
+  subtotal: number;
+  onChange: (adjustments: InvoiceAdjustment[]) => void;
+}
+
+const MODES: { id: AdjustmentMode; label: string }[] = [
+  { id: 'percent', label: '%' },
+  { id: 'fixed', label: 'LKR' },
+];
+
+export default function AdjustmentsEditor({ adjustments, subtotal, onChange }: AdjustmentsEditorProps) {
+  const applied = applyAdjustments(subtotal, adjustments);
+  const amountFor = (id: string) => applied.find(a => a.adjustment.id === id)?.amount || 0;
+
+  const addAdjustment = (kind: AdjustmentKind) => {
+    if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onChange([...adjustments, createAdjustment(kind)]);
+  };
+
+  const removeAdjustment = (id: string) => {
+    if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onChange(adjustments.filter(a => a.id !== id));
+  };
+
+  const updateAdjustment = <K extends keyof InvoiceAdjustment>(id: string, field: K, value: InvoiceAdjustment[K]) => {
+    onChange(adjustments.map(a => a.id === id ? { ...a, [field]: value } : a));
+  };
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Discounts & Taxes</Text>
+      <View style={styles.addRow}>
+        {ADJUSTMENT_KINDS.map(kind => (
+          <Pressable key={kind} onPress={() => addAdjustment(kind)} style={styles.addBtn}>
+            <Ionicons name="add-circle" size={18} color={Colors.darkGreen} />
+            <Text style={styles.addText}>{ADJUSTMENT_KIND_LABELS[kind]}</Text>
+          </Pressable>
+        ))}
+      </View>
+      {adjustments.map(adjustment => {
+        const amount = amountFor(adjustment.id);
+        return (
+          <View key={adjustment.id} style={styles.card}>
+            <View style={styles.cardHeader}>
+              <Text style={styles.cardKind}>{ADJUSTMENT_KIND_LABELS[adjustment.kind]}</Text>
+              <Pressable onPress={() => removeAdjustment(adjustment.id)} hitSlop={8}>
+                <Feather name="x-circle" size={18} color={Colors.danger} />
+              </Pressable>
+            </View>
+            <TextInput
+              style={styles.input}
+              value={adjustment.label}
+              onChangeText={val => updateAdjustment(adjustment.id, 'label', val)}
+              placeholder="Label shown on the invoice"
+              placeholderTextColor={Colors.textMuted}
+            />
+            <View style={styles.row}>
+              <View style={styles.modeRow}>
+                {MODES.map(mode => (
+                  <Pressable
+                    key={mode.id}
+                    style={[styles.modeChip, adjustment.mode === mode.id && styles.modeChipActive]}
+                    onPress={() => updateAdjustment(adjustment.id, 'mode', mode.id)}
+                  >
+                    <Text style={[styles.modeChipText, adjustment.mode === mode.id && styles.modeChipTextActive]}>{mode.label}</Text>
+                  </Pressable>
+                ))}
+              </View>
+              <TextInput
+                style={[styles.input, { flex: 1 }]}
+                value={adjustment.value}
+                onChangeText={val => updateAdjustment(adjustment.id, 'value', val)}
+                placeholder={adjustment.mode === 'percent' ? 'Rate' : 'Amount'}
+                placeholderTextColor={Colors.textMuted}
+                keyboardType="numeric"
+              />
+            </View>
+            <Text style={[styles.amount, amount < 0 && { color: Colors.danger }]}>
+              {amount < 0 ? `- ${formatCurrency(-amount)}` : `+ ${formatCurrency(amount)}`}
+            </Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: 20,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.primary,
+    marginBottom: 12,
+    textTransform: 'uppercase' as const,
+    letterSpacing: 1,
+  },
+  addRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 14,
+    marginBottom: 12,
+  },
+  addBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  addText: {
+    fontSize: 13,
+    fontFamily: 'Inter_500Medium',
+    color: Colors.darkGreen,
+  },
+  card: {
+    backgroundColor: Colors.cardBackground,
+    borderRadius: 14,
+    padding: 14,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    gap: 10,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  cardKind: {
+    fontSize: 12,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.gold,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  input: {
+    backgroundColor: Colors.cardBackground,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 14,
+    fontFamily: 'Inter_400Regular',
+    color: Colors.textPrimary,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  modeRow: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  modeChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1.5,
+    borderColor: Colors.border,
+  },
+  modeChipActive: {
+    backgroundColor: Colors.darkGreen,
+    borderColor: Colors.darkGreen,
+  },
+  modeChipText: {
+    fontSize: 12,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.textSecondary,
+  },
+  modeChipTextActive: {
+    color: Colors.white,
+  },
+  amount: {
+    fontSize: 12,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.darkGreen,
+    textAlign: 'right',
+  },
+});
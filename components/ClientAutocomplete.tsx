@@ -0,0 +1,133 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TextInput,
+  Pressable,
+  StyleProp,
+  TextStyle,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Client, getAllClients, searchClients, formatClientPhones } from '@/lib/storage';
+
+const MAX_SUGGESTIONS = 5;
+
+interface ClientAutocompleteProps {
+  value: string;
+  onChangeText: (text: string) => void;
+  onSelectClient: (client: Client) => void;
+  linked?: boolean;
+  placeholder?: string;
+  inputStyle?: StyleProp<TextStyle>;
+  colors: {
+    cardBackground: string;
+    textPrimary: string;
+    textMuted: string;
+    border: string;
+    accent: string;
+  };
+}
+
+export default function ClientAutocomplete({
+  value,
+  onChangeText,
+  onSelectClient,
+  linked,
+  placeholder,
+  inputStyle,
+  colors,
+}: ClientAutocompleteProps) {
+  const [clients, setClients] = useState<Client[]>([]);
+  const [focused, setFocused] = useState(false);
+
+  useEffect(() => {
+    getAllClients().then(setClients).catch(() => {});
+  }, []);
+
+  const suggestions = useMemo(() => {
+    if (!focused || linked || !value.trim()) return [];
+    return searchClients(clients, value).slice(0, MAX_SUGGESTIONS);
+  }, [clients, value, focused, linked]);
+
+  return (
+    <View>
+      <View>
+        <TextInput
+          style={[inputStyle, linked && { paddingRight: 38 }]}
+          value={value}
+          onChangeText={onChangeText}
+          onFocus={() => setFocused(true)}
+          onBlur={() => setTimeout(() => setFocused(false), 150)}
+          placeholder={placeholder}
+          placeholderTextColor={colors.textMuted}
+        />
+        {linked && (
+          <View style={styles.linkedBadge}>
+            <Ionicons name="person-circle" size={18} color={colors.accent} />
+          </View>
+        )}
+      </View>
+      {suggestions.length > 0 && (
+        <View style={[styles.suggestions, { backgroundColor: colors.cardBackground, borderColor: colors.border }]}>
+          {suggestions.map((client, index) => (
+            <Pressable
+              key={client.id}
+              style={({ pressed }) => [
+                styles.suggestion,
+                index > 0 && { borderTopWidth: 1, borderTopColor: colors.border },
+                pressed && { opacity: 0.7 },
+              ]}
+              onPress={() => {
+                onSelectClient(client);
+                setFocused(false);
+              }}
+            >
+              <Ionicons name="person-outline" size={16} color={colors.accent} />
+              <View style={{ flex: 1 }}>
+                <Text style={[styles.suggestionName, { color: colors.textPrimary }]} numberOfLines={1}>{client.name}</Text>
+                {client.phones.length > 0 && (
+                  <Text style={[styles.suggestionSub, { color: colors.textMuted }]} numberOfLines={1}>
+                    {formatClientPhones(client)}
+                  </Text>
+                )}
+              </View>
+            </Pressable>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  linkedBadge: {
+    position: 'absolute',
+    right: 12,
+    top: 0,
+    bottom: 0,
+    justifyContent: 'center',
+  },
+  suggestions: {
+    marginTop: 6,
+    borderRadius: 12,
+    borderWidth: 1,
+    overflow: 'hidden',
+  },
+  suggestion: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+  },
+  suggestionName: {
+    fontSize: 14,
+    fontFamily: 'Inter_500Medium',
+  },
+  suggestionSub: {
+    fontSize: 11,
+    fontFamily: 'Inter_400Regular',
+    marginTop: 1,
+  },
+});
@@ -0,0 +1,301 @@
+import React, { useState, useEffect } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TextInput,
+  Pressable,
+  Platform,
+  Modal,
+  ScrollView,
+  KeyboardAvoidingView,
+  Alert,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+import DatePicker from '@/components/DatePicker';
+import {
+  Invoice,
+  PaymentMethod,
+  PAYMENT_METHODS,
+  addCreditNote,
+  getNetTotal,
+  getNetPaid,
+  formatCurrency,
+} from '@/lib/storage';
+
+interface CreditNoteModalProps {
+  invoice: Invoice;
+  visible: boolean;
+  onClose: () => void;
+  onSaved: (invoice: Invoice) => void;
+}
+
+export default function CreditNoteModal({ invoice, visible, onClose, onSaved }: CreditNoteModalProps) {
+  const insets = useSafeAreaInsets();
+  const [date, setDate] = useState('');
+  const [amount, setAmount] = useState('');
+  const [refundAmount, setRefundAmount] = useState('');
+  const [method, setMethod] = useState<PaymentMethod>('Cash');
+  const [reference, setReference] = useState('');
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setDate(new Date().toISOString().split('T')[0]);
+    setAmount('');
+    setRefundAmount('');
+    setMethod('Cash');
+    setReference('');
+    setReason('');
+  }, [visible]);
+
+  const netTotal = getNetTotal(invoice);
+  const netPaid = getNetPaid(invoice);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const updated = await addCreditNote(invoice.id, {
+        date,
+        amount: amount.trim(),
+        refundAmount: refundAmount.trim(),
+        method,
+        reference: reference.trim(),
+        reason: reason.trim(),
+      });
+      if (!updated) return;
+      if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      onSaved(updated);
+    } catch (e) {
+      Alert.alert('Error', e instanceof Error ? e.message : 'Failed to save credit note');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.modalContainer}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <View style={[styles.modalHeader, { paddingTop: Platform.OS === 'web' ? 20 : insets.top + 10 }]}>
+          <Pressable onPress={onClose} hitSlop={12}>
+            <Ionicons name="close" size={24} color={Colors.textPrimary} />
+          </Pressable>
+          <Text style={styles.headerTitle}>New Credit Note</Text>
+          <View style={{ width: 24 }} />
+        </View>
+
+        <ScrollView
+          style={{ flex: 1 }}
+          contentContainerStyle={[styles.modalContent, { paddingBottom: insets.bottom + 100 }]}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          <Text style={styles.hint}>
+            Invoice #{invoice.invoiceNumber} · {formatCurrency(netTotal)} left to credit · {formatCurrency(netPaid)} paid
+          </Text>
+          <View style={styles.fieldWrap}>
+            <Text style={styles.label}>Date</Text>
+            <DatePicker
+              value={date}
+              onChange={setDate}
+              placeholder="Issued on"
+              colors={{
+                background: Colors.cream,
+                cardBackground: Colors.white,
+                textPrimary: Colors.primary,
+                textSecondary: Colors.textSecondary,
+                textMuted: Colors.textMuted,
+                border: Colors.border,
+                accent: Colors.gold,
+                accentDark: Colors.darkGreen,
+              }}
+            />
+          </View>
+          <View style={styles.fieldWrap}>
+            <Text style={styles.label}>Amount to Credit</Text>
+            <TextInput
+              style={[styles.input, styles.priceInput]}
+              value={amount}
+              onChangeText={setAmount}
+              placeholder={formatCurrency(netTotal)}
+              placeholderTextColor={Colors.textMuted}
+              keyboardType="numeric"
+            />
+          </View>
+          <View style={styles.fieldWrap}>
+            <Text style={styles.label}>Reason</Text>
+            <TextInput
+              style={styles.input}
+              value={reason}
+              onChangeText={setReason}
+              placeholder="e.g. Booking cancelled"
+              placeholderTextColor={Colors.textMuted}
+            />
+          </View>
+          <View style={styles.fieldWrap}>
+            <Text style={styles.label}>Refund to Client</Text>
+            <TextInput
+              style={styles.input}
+              value={refundAmount}
+              onChangeText={setRefundAmount}
+              placeholder="Leave empty if nothing is paid back"
+              placeholderTextColor={Colors.textMuted}
+              keyboardType="numeric"
+            />
+          </View>
+          {(parseFloat(refundAmount) || 0) > 0 && (
+            <>
+              <View style={styles.fieldWrap}>
+                <Text style={styles.label}>Refunded By</Text>
+                <View style={styles.chipRow}>
+                  {PAYMENT_METHODS.map(m => (
+                    <Pressable
+                      key={m}
+                      style={[styles.chip, method === m && styles.chipActive]}
+                      onPress={() => setMethod(m)}
+                    >
+                      <Text style={[styles.chipText, method === m && styles.chipTextActive]}>{m}</Text>
+                    </Pressable>
+                  ))}
+                </View>
+              </View>
+              <View style={styles.fieldWrap}>
+                <Text style={styles.label}>Reference</Text>
+                <TextInput
+                  style={styles.input}
+                  value={reference}
+                  onChangeText={setReference}
+                  placeholder="e.g. Transfer slip no."
+                  placeholderTextColor={Colors.textMuted}
+                />
+              </View>
+            </>
+          )}
+        </ScrollView>
+
+        <View style={[styles.modalFooter, { paddingBottom: insets.bottom + 10 }]}>
+          <Pressable
+            style={({ pressed }) => [styles.saveButton, pressed && { opacity: 0.9 }, saving && { opacity: 0.6 }]}
+            onPress={handleSave}
+            disabled={saving}
+          >
+            <MaterialCommunityIcons name="file-undo-outline" size={20} color={Colors.white} />
+            <Text style={styles.saveButtonText}>Issue Credit Note</Text>
+          </Pressable>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.textPrimary,
+  },
+  modalContent: {
+    padding: 20,
+  },
+  hint: {
+    fontSize: 12,
+    fontFamily: 'Inter_400Regular',
+    color: Colors.textMuted,
+    marginBottom: 16,
+  },
+  fieldWrap: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 13,
+    fontFamily: 'Inter_500Medium',
+    color: Colors.textSecondary,
+    marginBottom: 6,
+  },
+  input: {
+    backgroundColor: Colors.cardBackground,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 14,
+    fontFamily: 'Inter_400Regular',
+    color: Colors.textPrimary,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  priceInput: {
+    borderColor: Colors.gold,
+    borderWidth: 1.5,
+    fontFamily: 'Inter_700Bold',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1.5,
+    borderColor: Colors.border,
+  },
+  chipActive: {
+    backgroundColor: Colors.darkGreen,
+    borderColor: Colors.darkGreen,
+  },
+  chipText: {
+    fontSize: 12,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.textSecondary,
+  },
+  chipTextActive: {
+    color: Colors.white,
+  },
+  modalFooter: {
+    paddingHorizontal: 20,
+    paddingTop: 12,
+    backgroundColor: Colors.background,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+  saveButton: {
+    backgroundColor: Colors.darkGreen,
+    borderRadius: 14,
+    paddingVertical: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.white,
+  },
+});
@@ -0,0 +1,218 @@
+import React from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  Pressable,
+  ActivityIndicator,
+} from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import Colors from '@/constants/colors';
+import {
+  HistoryEntry,
+  FieldChange,
+  Invoice,
+  InvoiceStatus,
+  INVOICE_STATUS_LABELS,
+  getVersionBefore,
+  getTotal,
+  formatCurrency,
+  formatDate,
+} from '@/lib/storage';
+
+interface HistoryTimelineProps {
+  entries: HistoryEntry[];
+  busyKey: string | null;
+  onView: (entry: HistoryEntry, before: boolean) => void;
+  onExport: (entry: HistoryEntry, before: boolean) => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  invoiceNumber: 'Invoice number',
+  invoiceDate: 'Invoice date',
+  dueDate: 'Due date',
+  status: 'Status',
+  customerNames: 'Customer',
+  clientId: 'Client link',
+  eventDate: 'Event date',
+  eventLocation: 'Location',
+  phoneNumber: 'Phone',
+  items: 'Items',
+  priceMode: 'Pricing',
+  fullPrice: 'Price',
+  adjustments: 'Adjustments',
+  payments: 'Payments',
+  creditNotes: 'Credit notes',
+};
+
+const DATE_FIELDS = ['invoiceDate', 'dueDate', 'eventDate'];
+
+function formatValue(field: string, value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (Array.isArray(value)) return `${value.length}`;
+  if (field === 'status') return INVOICE_STATUS_LABELS[value as InvoiceStatus] || String(value);
+  if (field === 'fullPrice') return formatCurrency(parseFloat(String(value)) || 0);
+  if (DATE_FIELDS.includes(field)) return formatDate(String(value));
+  return String(value);
+}
+
+function describeChange(change: FieldChange): string {
+  const label = FIELD_LABELS[change.field] || change.field;
+  if (Array.isArray(change.from) || Array.isArray(change.to)) {
+    const from = Array.isArray(change.from) ? change.from.length : 0;
+    const to = Array.isArray(change.to) ? change.to.length : 0;
+    return from === to ? `${label} edited` : `${label}: ${from} → ${to}`;
+  }
+  return `${label}: ${formatValue(change.field, change.from)} → ${formatValue(change.field, change.to)}`;
+}
+
+function formatTimestamp(iso: string): string {
+  const time = new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return `${formatDate(iso)} · ${time}`;
+}
+
+export default function HistoryTimeline({ entries, busyKey, onView, onExport }: HistoryTimelineProps) {
+  if (entries.length === 0) return null;
+  const oldest = entries[entries.length - 1];
+
+  const renderActions = (entry: HistoryEntry, before: boolean) => {
+    const key = `${entry.id}${before ? ':before' : ''}`;
+    return (
+      <View style={styles.actions}>
+        <Pressable onPress={() => onView(entry, before)} hitSlop={8} style={styles.actionBtn}>
+          <Feather name="eye" size={13} color={Colors.darkGreen} />
+          <Text style={styles.actionText}>View</Text>
+        </Pressable>
+        <Pressable onPress={() => onExport(entry, before)} hitSlop={8} style={styles.actionBtn} disabled={busyKey !== null}>
+          {busyKey === key ? (
+            <ActivityIndicator size="small" color={Colors.darkGreen} />
+          ) : (
+            <Feather name="share" size={13} color={Colors.darkGreen} />
+          )}
+          <Text style={styles.actionText}>PDF</Text>
+        </Pressable>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>History</Text>
+      {entries.map((entry, index) => {
+        const before = getVersionBefore(entry) as Invoice;
+        const after = entry.snapshot as Invoice;
+        const totalBefore = entry.action === 'updated' ? getTotal(before) : null;
+        const totalAfter = getTotal(after);
+        const isLast = index === entries.length - 1 && entry.action === 'created';
+        return (
+          <View key={entry.id} style={styles.row}>
+            <View style={styles.rail}>
+              <View style={[styles.dot, index === 0 && styles.dotCurrent]} />
+              {!isLast && <View style={styles.line} />}
+            </View>
+            <View style={styles.body}>
+              <Text style={styles.title}>
+                {entry.action === 'created' ? 'Created' : 'Edited'}{index === 0 ? ' · current' : ''}
+              </Text>
+              <Text style={styles.meta}>{formatTimestamp(entry.createdAt)}</Text>
+              {totalBefore !== null && totalBefore !== totalAfter && (
+                <Text style={styles.change}>Total: {formatCurrency(totalBefore)} → {formatCurrency(totalAfter)}</Text>
+              )}
+              {entry.changes.map(change => (
+                <Text key={change.field} style={styles.change}>{describeChange(change)}</Text>
+              ))}
+              {renderActions(entry, false)}
+            </View>
+          </View>
+        );
+      })}
+      {oldest.action === 'updated' && (
+        <View style={styles.row}>
+          <View style={styles.rail}>
+            <View style={styles.dot} />
+          </View>
+          <View style={styles.body}>
+            <Text style={styles.title}>Earlier version</Text>
+            <Text style={styles.meta}>Before {formatTimestamp(oldest.createdAt)}</Text>
+            {renderActions(oldest, true)}
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginTop: 20,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.primary,
+    marginBottom: 12,
+    textTransform: 'uppercase' as const,
+    letterSpacing: 1,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  rail: {
+    width: 12,
+    alignItems: 'center',
+  },
+  dot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginTop: 4,
+    backgroundColor: Colors.lightGray,
+  },
+  dotCurrent: {
+    backgroundColor: Colors.gold,
+  },
+  line: {
+    flex: 1,
+    width: 2,
+    marginTop: 4,
+    backgroundColor: Colors.border,
+  },
+  body: {
+    flex: 1,
+    paddingBottom: 18,
+  },
+  title: {
+    fontSize: 14,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.textPrimary,
+  },
+  meta: {
+    fontSize: 12,
+    fontFamily: 'Inter_400Regular',
+    color: Colors.textMuted,
+    marginTop: 2,
+    marginBottom: 4,
+  },
+  change: {
+    fontSize: 12,
+    fontFamily: 'Inter_400Regular',
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 8,
+  },
+  actionBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  actionText: {
+    fontSize: 12,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.darkGreen,
+  },
+});
@@ -0,0 +1,169 @@
+import React from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TextInput,
+  Pressable,
+  Platform,
+} from 'react-native';
+import { Ionicons, Feather } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+import {
+  InvoiceItem,
+  createItem,
+  hasItemPrice,
+  getLineTotal,
+  formatCurrency,
+} from '@/lib/storage';
+
+interface LineItemsEditorProps {
+  items: InvoiceItem[];
+  onChange: (items: InvoiceItem[]) => void;
+}
+
+export default function LineItemsEditor({ items, onChange }: LineItemsEditorProps) {
+  const addItem = () => {
+    if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onChange([...items, createItem()]);
+  };
+
+  const removeItem = (id: string) => {
+    if (items.length <= 1) return;
+    if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onChange(items.filter(item => item.id !== id));
+  };
+
+  const updateItem = (id: string, field: keyof InvoiceItem, value: string) => {
+    onChange(items.map(item => item.id === id ? { ...item, [field]: value } : item));
+  };
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.sectionHeader}>
+        <Text style={styles.sectionTitle}>Items / Services</Text>
+        <Pressable onPress={addItem} style={styles.addBtn}>
+          <Ionicons name="add-circle" size={20} color={Colors.darkGreen} />
+          <Text style={styles.addText}>Add Item</Text>
+        </Pressable>
+      </View>
+      {items.map((item, index) => (
+        <View key={item.id} style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Text style={styles.cardIndex}>Item {index + 1}</Text>
+            {items.length > 1 && (
+              <Pressable onPress={() => removeItem(item.id)} hitSlop={8}>
+                <Feather name="x-circle" size={18} color={Colors.danger} />
+              </Pressable>
+            )}
+          </View>
+          <TextInput
+            style={styles.input}
+            value={item.description}
+            onChangeText={val => updateItem(item.id, 'description', val)}
+            placeholder="Description"
+            placeholderTextColor={Colors.textMuted}
+          />
+          <View style={styles.row}>
+            <View style={{ flex: 1 }}>
+              <TextInput
+                style={[styles.input, styles.centeredInput]}
+                value={item.quantity}
+                onChangeText={val => updateItem(item.id, 'quantity', val)}
+                placeholder="QTY"
+                placeholderTextColor={Colors.textMuted}
+              />
+            </View>
+            <View style={{ flex: 2 }}>
+              <TextInput
+                style={styles.input}
+                value={item.unitPrice}
+                onChangeText={val => updateItem(item.id, 'unitPrice', val)}
+                placeholder="Unit price (optional)"
+                placeholderTextColor={Colors.textMuted}
+                keyboardType="numeric"
+              />
+            </View>
+          </View>
+          {hasItemPrice(item) && (
+            <Text style={styles.lineTotal}>Line total: {formatCurrency(getLineTotal(item))}</Text>
+          )}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: 20,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.primary,
+    marginBottom: 12,
+    textTransform: 'uppercase' as const,
+    letterSpacing: 1,
+  },
+  addBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginBottom: 12,
+  },
+  addText: {
+    fontSize: 13,
+    fontFamily: 'Inter_500Medium',
+    color: Colors.darkGreen,
+  },
+  card: {
+    backgroundColor: Colors.cardBackground,
+    borderRadius: 14,
+    padding: 14,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    gap: 10,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  cardIndex: {
+    fontSize: 12,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.gold,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  input: {
+    backgroundColor: Colors.cardBackground,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 14,
+    fontFamily: 'Inter_400Regular',
+    color: Colors.textPrimary,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  centeredInput: {
+    textAlign: 'center',
+  },
+  lineTotal: {
+    fontSize: 12,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.darkGreen,
+    textAlign: 'right',
+  },
+});
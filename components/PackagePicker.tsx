@@ -0,0 +1,117 @@
+import React, { useState, useCallback } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  ScrollView,
+  Pressable,
+} from 'react-native';
+import { router, useFocusEffect } from 'expo-router';
+import Colors from '@/constants/colors';
+import { InvoicePackage, getAllPackages, formatCurrency } from '@/lib/storage';
+
+interface PackagePickerProps {
+  selectedId: string | null;
+  onSelect: (pkg: InvoicePackage) => void;
+}
+
+export default function PackagePicker({ selectedId, onSelect }: PackagePickerProps) {
+  const [packages, setPackages] = useState<InvoicePackage[]>([]);
+
+  useFocusEffect(
+    useCallback(() => {
+      getAllPackages().then(setPackages).catch(() => {});
+    }, [])
+  );
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.sectionHeader}>
+        <Text style={styles.sectionTitle}>Package</Text>
+        <Pressable onPress={() => router.push('/packages')} hitSlop={8}>
+          <Text style={styles.manageText}>Manage</Text>
+        </Pressable>
+      </View>
+      {packages.length === 0 ? (
+        <Text style={styles.emptyText}>No packages yet. Add one to prefill items and price.</Text>
+      ) : (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+          {packages.map(pkg => {
+            const active = pkg.id === selectedId;
+            return (
+              <Pressable
+                key={pkg.id}
+                style={[styles.chip, active && styles.chipActive]}
+                onPress={() => onSelect(pkg)}
+              >
+                <Text style={[styles.chipTitle, active && styles.chipTextActive]}>{pkg.name}</Text>
+                <Text style={[styles.chipSub, active && styles.chipTextActive]}>
+                  {pkg.shootType}{pkg.price ? ` · ${formatCurrency(parseFloat(pkg.price) || 0)}` : ''}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: 20,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.primary,
+    marginBottom: 12,
+    textTransform: 'uppercase' as const,
+    letterSpacing: 1,
+  },
+  manageText: {
+    fontSize: 13,
+    fontFamily: 'Inter_500Medium',
+    color: Colors.darkGreen,
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 13,
+    fontFamily: 'Inter_400Regular',
+    color: Colors.textMuted,
+  },
+  chipRow: {
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 14,
+    borderWidth: 1.5,
+    borderColor: Colors.border,
+    backgroundColor: Colors.cardBackground,
+  },
+  chipActive: {
+    backgroundColor: Colors.darkGreen,
+    borderColor: Colors.darkGreen,
+  },
+  chipTitle: {
+    fontSize: 13,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.textPrimary,
+  },
+  chipSub: {
+    fontSize: 11,
+    fontFamily: 'Inter_400Regular',
+    color: Colors.textMuted,
+    marginTop: 1,
+  },
+  chipTextActive: {
+    color: Colors.white,
+  },
+});
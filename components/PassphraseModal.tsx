@@ -0,0 +1,172 @@
+import React, { useState, useEffect } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TextInput,
+  Pressable,
+  Modal,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { MIN_PASSPHRASE_LENGTH } from '@/lib/backup-crypto';
+
+interface PassphraseModalProps {
+  visible: boolean;
+  title: string;
+  hint: string;
+  confirm?: boolean;
+  busy?: boolean;
+  error?: string;
+  onSubmit: (passphrase: string) => void;
+  onCancel: () => void;
+  colors: {
+    background: string;
+    cardBackground: string;
+    textPrimary: string;
+    textMuted: string;
+    border: string;
+    accent: string;
+  };
+}
+
+export default function PassphraseModal({ visible, title, hint, confirm, busy, error, onSubmit, onCancel, colors }: PassphraseModalProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [repeat, setRepeat] = useState('');
+  const [localError, setLocalError] = useState('');
+
+  useEffect(() => {
+    if (!visible) {
+      setPassphrase('');
+      setRepeat('');
+      setLocalError('');
+    }
+  }, [visible]);
+
+  const handleSubmit = () => {
+    if (confirm && passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setLocalError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+      return;
+    }
+    if (confirm && passphrase !== repeat) {
+      setLocalError('The passphrases do not match.');
+      return;
+    }
+    if (!passphrase) return;
+    setLocalError('');
+    onSubmit(passphrase);
+  };
+
+  const message = localError || error;
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <Pressable style={styles.overlay} onPress={busy ? undefined : onCancel}>
+        <Pressable style={[styles.modal, { backgroundColor: colors.cardBackground }]} onPress={() => {}}>
+          <View style={styles.modalHeader}>
+            <Ionicons name="lock-closed" size={18} color={colors.accent} />
+            <Text style={[styles.modalTitle, { color: colors.textPrimary }]}>{title}</Text>
+            <Pressable onPress={onCancel} hitSlop={12} disabled={busy}>
+              <Ionicons name="close" size={22} color={colors.textMuted} />
+            </Pressable>
+          </View>
+          <Text style={[styles.hint, { color: colors.textMuted }]}>{hint}</Text>
+          <TextInput
+            style={[styles.input, { backgroundColor: colors.background, color: colors.textPrimary, borderColor: colors.border }]}
+            value={passphrase}
+            onChangeText={setPassphrase}
+            placeholder="Passphrase"
+            placeholderTextColor={colors.textMuted}
+            secureTextEntry
+            autoCapitalize="none"
+            autoCorrect={false}
+            editable={!busy}
+          />
+          {confirm && (
+            <TextInput
+              style={[styles.input, { backgroundColor: colors.background, color: colors.textPrimary, borderColor: colors.border }]}
+              value={repeat}
+              onChangeText={setRepeat}
+              placeholder="Repeat passphrase"
+              placeholderTextColor={colors.textMuted}
+              secureTextEntry
+              autoCapitalize="none"
+              autoCorrect={false}
+              editable={!busy}
+            />
+          )}
+          {!!message && <Text style={styles.error}>{message}</Text>}
+          <Pressable
+            style={[styles.submitBtn, { backgroundColor: colors.accent }, busy && { opacity: 0.7 }]}
+            onPress={handleSubmit}
+            disabled={busy}
+          >
+            {busy ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Text style={styles.submitText}>{confirm ? 'Encrypt' : 'Unlock'}</Text>
+            )}
+          </Pressable>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modal: {
+    width: '88%',
+    borderRadius: 20,
+    padding: 20,
+    gap: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 10 },
+    shadowOpacity: 0.25,
+    shadowRadius: 20,
+    elevation: 12,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  modalTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontFamily: 'Inter_600SemiBold',
+  },
+  hint: {
+    fontSize: 12,
+    fontFamily: 'Inter_400Regular',
+    lineHeight: 17,
+  },
+  input: {
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 14,
+    fontFamily: 'Inter_400Regular',
+    borderWidth: 1,
+  },
+  error: {
+    fontSize: 12,
+    fontFamily: 'Inter_500Medium',
+    color: '#E74C3C',
+  },
+  submitBtn: {
+    borderRadius: 12,
+    paddingVertical: 13,
+    alignItems: 'center',
+  },
+  submitText: {
+    fontSize: 15,
+    fontFamily: 'Inter_600SemiBold',
+    color: '#fff',
+  },
+});
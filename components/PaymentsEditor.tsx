@@ -0,0 +1,204 @@
+import React from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TextInput,
+  Pressable,
+  Platform,
+} from 'react-native';
+import { Ionicons, Feather } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+import DatePicker from '@/components/DatePicker';
+import { InvoicePayment, PAYMENT_METHODS, createPayment } from '@/lib/storage';
+
+interface PaymentsEditorProps {
+  payments: InvoicePayment[];
+  onChange: (payments: InvoicePayment[]) => void;
+}
+
+export default function PaymentsEditor({ payments, onChange }: PaymentsEditorProps) {
+  const addPayment = () => {
+    if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onChange([...payments, createPayment()]);
+  };
+
+  const removePayment = (id: string) => {
+    if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onChange(payments.filter(p => p.id !== id));
+  };
+
+  const updatePayment = <K extends keyof InvoicePayment>(id: string, field: K, value: InvoicePayment[K]) => {
+    onChange(payments.map(p => p.id === id ? { ...p, [field]: value } : p));
+  };
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.sectionHeader}>
+        <Text style={styles.sectionTitle}>Payments</Text>
+        <Pressable onPress={addPayment} style={styles.addBtn}>
+          <Ionicons name="add-circle" size={20} color={Colors.darkGreen} />
+          <Text style={styles.addText}>Add Payment</Text>
+        </Pressable>
+      </View>
+      {payments.length === 0 && (
+        <Text style={styles.emptyText}>No payments recorded yet</Text>
+      )}
+      {payments.map((payment, index) => (
+        <View key={payment.id} style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Text style={styles.cardIndex}>Installment {index + 1}</Text>
+            <Pressable onPress={() => removePayment(payment.id)} hitSlop={8}>
+              <Feather name="x-circle" size={18} color={Colors.danger} />
+            </Pressable>
+          </View>
+          <View style={styles.row}>
+            <View style={styles.halfField}>
+              <TextInput
+                style={styles.input}
+                value={payment.amount}
+                onChangeText={val => updatePayment(payment.id, 'amount', val)}
+                placeholder="Amount"
+                placeholderTextColor={Colors.textMuted}
+                keyboardType="numeric"
+              />
+            </View>
+            <View style={styles.halfField}>
+              <DatePicker
+                value={payment.date}
+                onChange={val => updatePayment(payment.id, 'date', val)}
+                placeholder="Paid on"
+                colors={{
+                  background: Colors.cream,
+                  cardBackground: Colors.white,
+                  textPrimary: Colors.primary,
+                  textSecondary: Colors.textSecondary,
+                  textMuted: Colors.textMuted,
+                  border: Colors.border,
+                  accent: Colors.gold,
+                  accentDark: Colors.darkGreen,
+                }}
+              />
+            </View>
+          </View>
+          <View style={styles.methodRow}>
+            {PAYMENT_METHODS.map(method => (
+              <Pressable
+                key={method}
+                style={[styles.methodChip, payment.method === method && styles.methodChipActive]}
+                onPress={() => updatePayment(payment.id, 'method', method)}
+              >
+                <Text style={[styles.methodChipText, payment.method === method && styles.methodChipTextActive]}>
+                  {method}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+          <TextInput
+            style={styles.input}
+            value={payment.reference}
+            onChangeText={val => updatePayment(payment.id, 'reference', val)}
+            placeholder="Reference (e.g. Booking, slip no.)"
+            placeholderTextColor={Colors.textMuted}
+          />
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: 20,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.primary,
+    marginBottom: 12,
+    textTransform: 'uppercase' as const,
+    letterSpacing: 1,
+  },
+  addBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginBottom: 12,
+  },
+  addText: {
+    fontSize: 13,
+    fontFamily: 'Inter_500Medium',
+    color: Colors.darkGreen,
+  },
+  emptyText: {
+    fontSize: 13,
+    fontFamily: 'Inter_400Regular',
+    color: Colors.textMuted,
+  },
+  card: {
+    backgroundColor: Colors.cardBackground,
+    borderRadius: 14,
+    padding: 14,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    gap: 10,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  cardIndex: {
+    fontSize: 12,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.gold,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  halfField: {
+    flex: 1,
+  },
+  input: {
+    backgroundColor: Colors.cardBackground,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 14,
+    fontFamily: 'Inter_400Regular',
+    color: Colors.textPrimary,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  methodRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  methodChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1.5,
+    borderColor: Colors.border,
+  },
+  methodChipActive: {
+    backgroundColor: Colors.darkGreen,
+    borderColor: Colors.darkGreen,
+  },
+  methodChipText: {
+    fontSize: 12,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.textSecondary,
+  },
+  methodChipTextActive: {
+    color: Colors.white,
+  },
+});
@@ -0,0 +1,150 @@
+import React from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TextInput,
+  Pressable,
+  Platform,
+} from 'react-native';
+import * as Haptics from 'expo-haptics';
+import Colors from '@/constants/colors';
+import { InvoiceItem, PriceMode, getItemsSubtotal, formatCurrency } from '@/lib/storage';
+
+interface PricingEditorProps {
+  items: InvoiceItem[];
+  priceMode: PriceMode;
+  onChangePriceMode: (mode: PriceMode) => void;
+  fullPrice: string;
+  onChangeFullPrice: (value: string) => void;
+}
+
+const PRICE_MODES: { id: PriceMode; label: string }[] = [
+  { id: 'itemized', label: 'From Items' },
+  { id: 'manual', label: 'Package Price' },
+];
+
+export default function PricingEditor({ items, priceMode, onChangePriceMode, fullPrice, onChangeFullPrice }: PricingEditorProps) {
+  const subtotal = getItemsSubtotal(items);
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Pricing</Text>
+      <View style={styles.modeRow}>
+        {PRICE_MODES.map(mode => (
+          <Pressable
+            key={mode.id}
+            style={[styles.modeChip, priceMode === mode.id && styles.modeChipActive]}
+            onPress={() => {
+              onChangePriceMode(mode.id);
+              if (Platform.OS !== 'web') Haptics.selectionAsync();
+            }}
+          >
+            <Text style={[styles.modeChipText, priceMode === mode.id && styles.modeChipTextActive]}>{mode.label}</Text>
+          </Pressable>
+        ))}
+      </View>
+      {priceMode === 'itemized' ? (
+        <View style={styles.subtotalCard}>
+          <Text style={styles.label}>Subtotal</Text>
+          <Text style={styles.subtotalValue}>{formatCurrency(subtotal)}</Text>
+        </View>
+      ) : (
+        <View>
+          <Text style={styles.label}>Full Price</Text>
+          <TextInput
+            style={[styles.input, styles.priceInput]}
+            value={fullPrice}
+            onChangeText={onChangeFullPrice}
+            placeholder="Enter full package price"
+            placeholderTextColor={Colors.textMuted}
+            keyboardType="numeric"
+          />
+          {subtotal > 0 && (
+            <Text style={styles.hint}>Items add up to {formatCurrency(subtotal)}</Text>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: 20,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.primary,
+    marginBottom: 12,
+    textTransform: 'uppercase' as const,
+    letterSpacing: 1,
+  },
+  label: {
+    fontSize: 12,
+    fontFamily: 'Inter_500Medium',
+    color: Colors.textSecondary,
+    marginBottom: 6,
+  },
+  input: {
+    backgroundColor: Colors.cardBackground,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 14,
+    fontFamily: 'Inter_400Regular',
+    color: Colors.textPrimary,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  priceInput: {
+    borderColor: Colors.gold,
+    borderWidth: 1.5,
+    fontSize: 18,
+    fontFamily: 'Inter_700Bold',
+    paddingVertical: 14,
+  },
+  modeRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  modeChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1.5,
+    borderColor: Colors.border,
+  },
+  modeChipActive: {
+    backgroundColor: Colors.darkGreen,
+    borderColor: Colors.darkGreen,
+  },
+  modeChipText: {
+    fontSize: 12,
+    fontFamily: 'Inter_600SemiBold',
+    color: Colors.textSecondary,
+  },
+  modeChipTextActive: {
+    color: Colors.white,
+  },
+  subtotalCard: {
+    backgroundColor: Colors.cardBackground,
+    borderRadius: 12,
+    padding: 14,
+    borderWidth: 1.5,
+    borderColor: Colors.gold,
+  },
+  subtotalValue: {
+    fontSize: 18,
+    fontFamily: 'Inter_700Bold',
+    color: Colors.textPrimary,
+  },
+  hint: {
+    fontSize: 12,
+    fontFamily: 'Inter_400Regular',
+    color: Colors.textMuted,
+    marginTop: 6,
+  },
+});
@@ -1,3 +1,5 @@
+import type { InvoiceStatus, QuoteStatus } from '@/lib/storage';
+
 const Colors = {
   primary: '#2C1810',
   primaryLight: '#3D2419',
@@ -32,4 +34,21 @@ const Colors = {
   },
 };
 
+export const INVOICE_STATUS_COLORS: Record<InvoiceStatus, string> = {
+  draft: '#9E9890',
+  sent: '#2196F3',
+  partially_paid: '#E67E22',
+  paid: '#27AE60',
+  overdue: '#C0392B',
+  cancelled: '#6B6560',
+};
+
+export const QUOTE_STATUS_COLORS: Record<QuoteStatus, string> = {
+  draft: '#9E9890',
+  sent: '#2196F3',
+  accepted: '#27AE60',
+  declined: '#C0392B',
+  expired: '#6B6560',
+};
+
 export default Colors;
@@ -0,0 +1,44 @@
+import { decryptBackup, encryptBackup, isEncryptedBackup } from '../backup-crypto';
+
+// The real cost takes seconds per run; a small N keeps the tests fast while
+// the envelope still records the cost it was written with.
+jest.mock('@noble/hashes/scrypt', () => {
+  const actual = jest.requireActual('@noble/hashes/scrypt');
+  return {
+    ...actual,
+    scryptAsync: (password: string, salt: Uint8Array, opts: { N: number }) =>
+      actual.scryptAsync(password, salt, { ...opts, N: Math.min(opts.N, 2 ** 10) }),
+  };
+});
+
+const PLAINTEXT = JSON.stringify({ invoices: [{ id: 'inv-1', customerNames: 'Asha' }] });
+const PASSPHRASE = 'correct horse battery';
+
+function flipFirstByte(base64: string): string {
+  const bytes = Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+  bytes[0] ^= 0xff;
+  return btoa(String.fromCharCode(...bytes));
+}
+
+describe('backup encryption', () => {
+  it('decrypts what it encrypted', async () => {
+    const encrypted = await encryptBackup(PLAINTEXT, PASSPHRASE);
+    expect(isEncryptedBackup(encrypted)).toBe(true);
+    expect(encrypted).not.toContain('Asha');
+    expect(await decryptBackup(encrypted, PASSPHRASE)).toBe(PLAINTEXT);
+  });
+
+  it('tells a wrong passphrase apart from altered contents', async () => {
+    const encrypted = await encryptBackup(PLAINTEXT, PASSPHRASE);
+    await expect(decryptBackup(encrypted, 'wrong passphrase')).rejects.toThrow('The passphrase is incorrect.');
+    const envelope = JSON.parse(encrypted);
+    const altered = JSON.stringify({ ...envelope, ciphertext: flipFirstByte(envelope.ciphertext) });
+    await expect(decryptBackup(altered, PASSPHRASE)).rejects.toThrow('has been modified or is damaged');
+  });
+
+  it('rejects a file whose header was changed', async () => {
+    const envelope = JSON.parse(await encryptBackup(PLAINTEXT, PASSPHRASE));
+    const altered = JSON.stringify({ ...envelope, formatVersion: 0 });
+    await expect(decryptBackup(altered, PASSPHRASE)).rejects.toThrow('has been modified or is damaged');
+  });
+});
@@ -0,0 +1,66 @@
+import { buildCsvExport, CsvSource } from '../csv-export';
+import { Invoice, Expense } from '../storage';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+function invoice(id: string, invoiceDate: string, eventDate: string): Invoice {
+  return {
+    id,
+    invoiceNumber: id,
+    invoiceDate,
+    dueDate: '',
+    status: 'sent',
+    payments: [],
+    creditNotes: [],
+    clientId: '',
+    customerNames: 'Asha',
+    eventDate,
+    eventLocation: '',
+    phoneNumber: '',
+    items: [],
+    priceMode: 'manual',
+    fullPrice: '1000',
+    adjustments: [],
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+}
+
+function expense(id: string, date: string): Expense {
+  return { id, description: id, amount: '10', date, createdAt: '2026-01-01T00:00:00.000Z' };
+}
+
+const source: CsvSource = {
+  invoices: [
+    invoice('INV-1', '2026-02-01', '2026-03-15'),
+    invoice('INV-2', '2026-02-20', ''),
+    invoice('INV-3', '', ''),
+  ],
+  shoots: [],
+  upcoming: [],
+  expenses: [expense('Fuel', '2026-03-01'), expense('Undated', '')],
+};
+
+describe('buildCsvExport', () => {
+  it('exports every record, dated or not, when no range is set', () => {
+    const all = { from: '', to: '' };
+    expect(buildCsvExport('invoices', source, all).rowCount).toBe(3);
+    expect(buildCsvExport('expenses', source, all).rowCount).toBe(2);
+  });
+
+  it('leaves undated records out of a range', () => {
+    const march = { from: '2026-03-01', to: '2026-03-31' };
+    expect(buildCsvExport('expenses', source, march).rowCount).toBe(1);
+  });
+
+  it('files an invoice without an event date under its invoice date', () => {
+    const february = buildCsvExport('invoices', source, { from: '2026-02-01', to: '2026-02-28' });
+    expect(february.rowCount).toBe(1);
+    expect(february.csv).toContain('INV-2');
+    const march = buildCsvExport('invoices', source, { from: '2026-03-01', to: '' });
+    expect(march.rowCount).toBe(1);
+    expect(march.csv).toContain('INV-1');
+  });
+});
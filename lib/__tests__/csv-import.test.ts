@@ -0,0 +1,72 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { commitImport, guessMapping, previewImport, readCsvTable } from '../csv-import';
+import { CURRENT_SCHEMA_VERSION, getAllInvoices, saveInvoice } from '../storage';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('../storage-engine', () => {
+  const actual = jest.requireActual('../storage-engine');
+  return { ...actual, storageEngine: actual.asyncStorageEngine };
+});
+
+function invoicePreview(csv: string, usedInvoiceNumbers: string[] = []) {
+  const table = readCsvTable(csv);
+  return previewImport('invoices', table, guessMapping('invoices', table.headers), usedInvoiceNumbers);
+}
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  await AsyncStorage.setItem('ns_schema_version', String(CURRENT_SCHEMA_VERSION));
+});
+
+describe('invoice import preview', () => {
+  it('flags numbers that are already used or repeated in the file', () => {
+    const preview = invoicePreview(
+      [
+        'Invoice #,Customer,Event Date,Total',
+        'INV-0001,Asha,2026-03-10,1000',
+        'inv-0002,Ravi,2026-03-11,2000',
+        ' INV-0002 ,Leela,2026-03-12,3000',
+        ',Mira,2026-03-13,4000',
+      ].join('\n'),
+      ['INV-0001']
+    );
+    expect(preview.valid.map(r => r.customerNames)).toEqual(['Ravi', 'Mira']);
+    expect(preview.invalid).toEqual([
+      { rowNumber: 2, errors: ['Invoice number "INV-0001" is already used by another invoice'] },
+      { rowNumber: 4, errors: ['Invoice number "INV-0002" appears more than once in this file'] },
+    ]);
+  });
+});
+
+describe('commitImport', () => {
+  it('says how many rows were saved before a failure', async () => {
+    const preview = invoicePreview(
+      ['Invoice #,Customer,Event Date,Total', 'A-1,Asha,2026-03-10,1000', 'A-2,Ravi,2026-03-11,2000'].join('\n')
+    );
+    // Taken after the preview was built, as another save could do.
+    await saveInvoice({
+      invoiceNumber: 'A-2',
+      invoiceDate: '2026-03-01',
+      dueDate: '',
+      status: 'draft',
+      payments: [],
+      creditNotes: [],
+      clientId: '',
+      customerNames: 'Leela',
+      eventDate: '2026-03-01',
+      eventLocation: '',
+      phoneNumber: '',
+      items: [],
+      priceMode: 'manual',
+      fullPrice: '500',
+      adjustments: [],
+    });
+    await expect(commitImport(preview)).rejects.toThrow(
+      'The import stopped after 1 of 2 rows were saved. Invoice number A-2 is already used by another invoice.'
+    );
+    expect((await getAllInvoices()).map(inv => inv.invoiceNumber).sort()).toEqual(['A-1', 'A-2']);
+  });
+});
@@ -0,0 +1,76 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { asyncStorageEngine } from '../storage-engine';
+import { CURRENT_SCHEMA_VERSION, Invoice, getHistory, getInvoiceVersion, updateInvoice } from '../storage';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// Runs the storage layer on the AsyncStorage engine, which works against the
+// AsyncStorage mock.
+jest.mock('../storage-engine', () => {
+  const actual = jest.requireActual('../storage-engine');
+  return { ...actual, storageEngine: actual.asyncStorageEngine };
+});
+
+// Saved as "sent" before its due date passed: it is overdue now, though the
+// stored status still says otherwise.
+const staleInvoice: Invoice = {
+  id: 'inv-1',
+  invoiceNumber: '0001',
+  invoiceDate: '2020-01-01',
+  dueDate: '2020-01-15',
+  status: 'sent',
+  payments: [],
+  creditNotes: [],
+  clientId: '',
+  customerNames: 'Asha',
+  eventDate: '2020-01-10',
+  eventLocation: '',
+  phoneNumber: '',
+  items: [],
+  priceMode: 'manual',
+  fullPrice: '1000',
+  adjustments: [],
+  createdAt: '2020-01-01T00:00:00.000Z',
+  updatedAt: '2020-01-01T00:00:00.000Z',
+};
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  await AsyncStorage.setItem('ns_schema_version', String(CURRENT_SCHEMA_VERSION));
+  await AsyncStorage.setItem('ns_invoices', JSON.stringify([staleInvoice]));
+});
+
+describe('invoice history', () => {
+  it('does not log a status change that only comes from the due date passing', async () => {
+    const updated = await updateInvoice('inv-1', { customerNames: 'Asha Rao' });
+    expect(updated?.status).toBe('overdue');
+    const [entry] = await getHistory('inv-1');
+    expect(entry.changes).toEqual([{ field: 'customerNames', from: 'Asha', to: 'Asha Rao' }]);
+  });
+
+  it('only returns entries for the exact record id', async () => {
+    await AsyncStorage.setItem('ns_history', JSON.stringify([
+      { id: 'h1', collection: 'ns_invoices', recordId: 'inv-1', action: 'created', changes: [], snapshot: staleInvoice, createdAt: '2020-01-01T00:00:00.000Z' },
+      { id: 'h2', collection: 'ns_invoices', recordId: 'inv-10', action: 'created', changes: [], snapshot: staleInvoice, createdAt: '2020-01-02T00:00:00.000Z' },
+    ]));
+    expect((await getHistory('inv-1')).map(e => e.id)).toEqual(['h1']);
+  });
+
+  it('returns the earlier version with the entry that dates it', async () => {
+    await updateInvoice('inv-1', { customerNames: 'Asha Rao' });
+    const [entry] = await getHistory('inv-1');
+    const version = await getInvoiceVersion(entry.id, true);
+    expect(version?.invoice.customerNames).toBe('Asha');
+    expect(version?.entry.createdAt).toBe(entry.createdAt);
+  });
+});
+
+describe('findByField', () => {
+  it('rejects fields the collection is not looked up by', async () => {
+    await expect(asyncStorageEngine.findByField('ns_history', 'collection', 'ns_invoices')).rejects.toThrow(
+      'ns_history cannot be looked up by collection'
+    );
+  });
+});
@@ -0,0 +1,59 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CURRENT_SCHEMA_VERSION, Invoice, getAllInvoices, saveInvoice, updateInvoice } from '../storage';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('../storage-engine', () => {
+  const actual = jest.requireActual('../storage-engine');
+  return { ...actual, storageEngine: actual.asyncStorageEngine };
+});
+
+function draft(invoiceNumber: string): Omit<Invoice, 'id' | 'createdAt' | 'updatedAt'> {
+  return {
+    invoiceNumber,
+    invoiceDate: '2026-03-01',
+    dueDate: '',
+    status: 'draft',
+    payments: [],
+    creditNotes: [],
+    clientId: '',
+    customerNames: 'Asha',
+    eventDate: '2026-03-10',
+    eventLocation: '',
+    phoneNumber: '',
+    items: [],
+    priceMode: 'manual',
+    fullPrice: '1000',
+    adjustments: [],
+  };
+}
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  await AsyncStorage.setItem('ns_schema_version', String(CURRENT_SCHEMA_VERSION));
+});
+
+describe('invoice numbers', () => {
+  it('cannot be reused by a new invoice, ignoring case and spaces', async () => {
+    await saveInvoice(draft('INV-0001'));
+    await expect(saveInvoice(draft(' inv-0001 '))).rejects.toThrow(
+      'Invoice number inv-0001 is already used by another invoice.'
+    );
+    expect(await getAllInvoices()).toHaveLength(1);
+  });
+
+  it('cannot be taken by an edit, with the same error', async () => {
+    await saveInvoice(draft('INV-0001'));
+    const second = await saveInvoice(draft('INV-0002'));
+    await expect(updateInvoice(second.id, { invoiceNumber: 'INV-0001' })).rejects.toThrow(
+      'Invoice number INV-0001 is already used by another invoice.'
+    );
+    expect((await updateInvoice(second.id, { invoiceNumber: 'INV-0003' }))?.invoiceNumber).toBe('INV-0003');
+  });
+
+  it('must not be blank', async () => {
+    await expect(saveInvoice(draft('  '))).rejects.toThrow('Invoice number cannot be empty.');
+  });
+});
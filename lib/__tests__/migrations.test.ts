@@ -0,0 +1,213 @@
+import { STORAGE_MIGRATIONS, CURRENT_SCHEMA_VERSION, migrateRecords, CollectionKey } from '../storage';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const INVOICES_KEY: CollectionKey = 'ns_invoices';
+const SHOOTS_KEY: CollectionKey = 'ns_shoots';
+const UPCOMING_KEY: CollectionKey = 'ns_upcoming_shoots';
+const EXPENSES_KEY: CollectionKey = 'ns_expenses';
+const PACKAGES_KEY: CollectionKey = 'ns_packages';
+
+// Runs a single migration step, then runs it again over its own output to
+// check the step is idempotent — migrateStorage may repeat a step if the app
+// is killed before the schema version is written.
+function runStep(version: number, records: any[]): any[] {
+  const migration = STORAGE_MIGRATIONS.find(m => m.version === version);
+  if (!migration) throw new Error(`No migration for version ${version}`);
+  const once = migration.migrate(records);
+  expect(migration.migrate(once)).toEqual(once);
+  return once;
+}
+
+const legacyInvoice = {
+  id: 'inv-1',
+  invoiceNumber: 'INV-0001',
+  clientName: 'Asha',
+  invoiceDate: '2023-04-02',
+  eventDate: '2023-04-10',
+  items: [{ id: 'item-1', description: 'Bridal shoot', quantity: '1', amount: '25000' }],
+  createdAt: '2023-04-02T09:00:00.000Z',
+};
+
+describe('STORAGE_MIGRATIONS', () => {
+  it('are numbered in order without gaps', () => {
+    expect(STORAGE_MIGRATIONS.map(m => m.version)).toEqual(
+      STORAGE_MIGRATIONS.map((_, i) => i + 1)
+    );
+    expect(CURRENT_SCHEMA_VERSION).toBe(STORAGE_MIGRATIONS.length);
+  });
+
+  it('v1 fills the new shoot fields, defaulting the client to the model', () => {
+    const [shoot] = runStep(1, [{ id: 's1', modelName: 'Mira', date: '2023-05-01' }]);
+    expect(shoot).toEqual({
+      id: 's1',
+      date: '2023-05-01',
+      clientName: 'Mira',
+      shootTime: '',
+      salonName: '',
+      modelName: 'Mira',
+      advancePaid: '',
+    });
+  });
+
+  it('v2 fills the upcoming shoot fields and normalises completed', () => {
+    const [pending, done] = runStep(2, [
+      { id: 'u1', clientName: 'Ravi' },
+      { id: 'u2', clientName: 'Leela', completed: 1 },
+    ]);
+    expect(pending).toEqual({ id: 'u1', clientName: 'Ravi', salonName: '', modelName: '', completed: false });
+    expect(done.completed).toBe(true);
+  });
+
+  describe('v3', () => {
+    it('turns a legacy advance into a payment and drops advancePayment', () => {
+      const [invoice] = runStep(3, [{ ...legacyInvoice, advancePayment: '5000' }]);
+      expect(invoice).not.toHaveProperty('advancePayment');
+      expect(invoice.payments).toEqual([{
+        id: 'inv-1-advance',
+        amount: '5000',
+        date: '2023-04-02',
+        method: 'Cash',
+        reference: 'Advance',
+        receiptNumber: '',
+      }]);
+      expect(invoice.status).toBe('sent');
+      expect(invoice.dueDate).toBe('');
+    });
+
+    it('records no payment for a missing, zero or unparseable advance', () => {
+      const invoices = runStep(3, [
+        { ...legacyInvoice, id: 'a' },
+        { ...legacyInvoice, id: 'b', advancePayment: '' },
+        { ...legacyInvoice, id: 'c', advancePayment: '0' },
+        { ...legacyInvoice, id: 'd', advancePayment: 'n/a' },
+      ]);
+      expect(invoices.map(inv => inv.payments)).toEqual([[], [], [], []]);
+    });
+
+    it('keeps existing payments, status and due date', () => {
+      const payment = { id: 'p1', amount: '100', date: '2023-04-03', method: 'UPI', reference: '' };
+      const [invoice] = runStep(3, [{
+        ...legacyInvoice,
+        advancePayment: '5000',
+        payments: [payment],
+        status: 'draft',
+        dueDate: '2023-05-01',
+      }]);
+      expect(invoice.payments).toEqual([payment]);
+      expect(invoice.status).toBe('draft');
+      expect(invoice.dueDate).toBe('2023-05-01');
+    });
+  });
+
+  it('v4 backfills an expense date from createdAt', () => {
+    const [legacy, dated] = runStep(4, [
+      { id: 'e1', amount: '200', createdAt: '2023-06-07T18:30:00.000Z' },
+      { id: 'e2', amount: '300', date: '2023-06-01', createdAt: '2023-06-07T18:30:00.000Z' },
+    ]);
+    expect(legacy.date).toBe('2023-06-07');
+    expect(dated.date).toBe('2023-06-01');
+  });
+
+  it.each([
+    [5, INVOICES_KEY],
+    [6, SHOOTS_KEY],
+    [7, UPCOMING_KEY],
+  ])('v%i adds an empty clientId to %s', (version, key) => {
+    const migration = STORAGE_MIGRATIONS.find(m => m.version === version);
+    expect(migration?.key).toBe(key);
+    const [unlinked, linked] = runStep(version, [{ id: 'r1' }, { id: 'r2', clientId: 'c1' }]);
+    expect(unlinked.clientId).toBe('');
+    expect(linked.clientId).toBe('c1');
+  });
+
+  it('v8 defaults the price mode and item unit prices', () => {
+    const [legacy, itemized, empty] = runStep(8, [
+      legacyInvoice,
+      { ...legacyInvoice, id: 'inv-2', priceMode: 'itemized', items: [{ id: 'i', unitPrice: '500' }] },
+      { ...legacyInvoice, id: 'inv-3', items: undefined },
+    ]);
+    expect(legacy.priceMode).toBe('manual');
+    expect(legacy.items).toEqual([{ ...legacyInvoice.items[0], unitPrice: '' }]);
+    expect(itemized.priceMode).toBe('itemized');
+    expect(itemized.items[0].unitPrice).toBe('500');
+    expect(empty.items).toEqual([]);
+  });
+
+  it('v9 adds empty adjustments', () => {
+    const adjustment = { id: 'a1', kind: 'tax', label: 'GST', mode: 'percent', value: '18' };
+    const [legacy, adjusted] = runStep(9, [legacyInvoice, { ...legacyInvoice, adjustments: [adjustment] }]);
+    expect(legacy.adjustments).toEqual([]);
+    expect(adjusted.adjustments).toEqual([adjustment]);
+  });
+
+  it('v10 seeds a package only when there are none', () => {
+    const migration = STORAGE_MIGRATIONS.find(m => m.version === 10)!;
+    expect(migration.key).toBe(PACKAGES_KEY);
+    const seeded = migration.migrate([]);
+    expect(seeded).toHaveLength(1);
+    expect(seeded[0].id).toBe('default-wedding-package');
+    expect(migration.migrate(seeded)).toBe(seeded);
+    const existing = [{ id: 'pkg-1', name: 'Portrait' }];
+    expect(migration.migrate(existing)).toBe(existing);
+  });
+
+  it('v11 adds an empty receipt number to each payment', () => {
+    const [invoice, unpaid] = runStep(11, [
+      { ...legacyInvoice, payments: [{ id: 'p1', amount: '100' }, { id: 'p2', amount: '50', receiptNumber: 'R-7' }] },
+      legacyInvoice,
+    ]);
+    expect(invoice.payments.map((p: any) => p.receiptNumber)).toEqual(['', 'R-7']);
+    expect(unpaid.payments).toEqual([]);
+  });
+
+  it('v12 adds empty credit notes', () => {
+    const [invoice] = runStep(12, [legacyInvoice]);
+    expect(invoice.creditNotes).toEqual([]);
+  });
+});
+
+describe('migrateRecords', () => {
+  it('brings a version 0 invoice up to the current shape', () => {
+    const [invoice] = migrateRecords(INVOICES_KEY, [{ ...legacyInvoice, advancePayment: '5000' }], 0);
+    expect(invoice).toEqual({
+      ...legacyInvoice,
+      items: [{ ...legacyInvoice.items[0], unitPrice: '' }],
+      dueDate: '',
+      status: 'sent',
+      payments: [{
+        id: 'inv-1-advance',
+        amount: '5000',
+        date: '2023-04-02',
+        method: 'Cash',
+        reference: 'Advance',
+        receiptNumber: '',
+      }],
+      clientId: '',
+      priceMode: 'manual',
+      adjustments: [],
+      creditNotes: [],
+    });
+  });
+
+  it('changes nothing when run again from the current version', () => {
+    const migrated = migrateRecords(INVOICES_KEY, [{ ...legacyInvoice, advancePayment: '5000' }], 0);
+    expect(migrateRecords(INVOICES_KEY, migrated, CURRENT_SCHEMA_VERSION)).toBe(migrated);
+    expect(migrateRecords(INVOICES_KEY, migrated, 0)).toEqual(migrated);
+  });
+
+  it('only applies the steps after the stored version', () => {
+    const invoice = { ...legacyInvoice, advancePayment: '5000' };
+    const [migrated] = migrateRecords(INVOICES_KEY, [invoice], 3);
+    expect(migrated.advancePayment).toBe('5000');
+    expect(migrated.payments).toEqual([]);
+    expect(migrated.creditNotes).toEqual([]);
+  });
+
+  it('leaves collections without migrations alone', () => {
+    const expenses = [{ id: 'e1', date: '2023-06-01' }];
+    expect(migrateRecords(EXPENSES_KEY, expenses, 4)).toBe(expenses);
+  });
+});
@@ -0,0 +1,70 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  CURRENT_SCHEMA_VERSION,
+  Quote,
+  QuoteStatus,
+  convertQuoteToInvoice,
+  getAllInvoices,
+  getNextInvoiceNumber,
+  saveQuote,
+  searchQuotes,
+} from '../storage';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('../storage-engine', () => {
+  const actual = jest.requireActual('../storage-engine');
+  return { ...actual, storageEngine: actual.asyncStorageEngine };
+});
+
+function draft(status: QuoteStatus, validUntil = ''): Omit<Quote, 'id' | 'createdAt' | 'updatedAt'> {
+  return {
+    quoteNumber: 'Q-0001',
+    quoteDate: '2026-03-01',
+    validUntil,
+    status,
+    invoiceId: '',
+    clientId: '',
+    customerNames: 'Asha',
+    eventDate: '2026-03-10',
+    eventLocation: 'Kandy',
+    phoneNumber: '',
+    items: [],
+    priceMode: 'manual',
+    fullPrice: '1000',
+    adjustments: [],
+  };
+}
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  await AsyncStorage.setItem('ns_schema_version', String(CURRENT_SCHEMA_VERSION));
+});
+
+describe('searchQuotes', () => {
+  it('matches any field ignoring case and surrounding spaces', async () => {
+    const quote = await saveQuote(draft('sent'));
+    expect(searchQuotes([quote], ' q-0001 ')).toEqual([quote]);
+    expect(searchQuotes([quote], 'KANDY')).toEqual([quote]);
+    expect(searchQuotes([quote], 'Galle')).toEqual([]);
+    expect(searchQuotes([quote], '  ')).toEqual([quote]);
+  });
+});
+
+describe('convertQuoteToInvoice', () => {
+  it('refuses declined and expired quotes without using up an invoice number', async () => {
+    const declined = await saveQuote(draft('declined'));
+    const expired = await saveQuote(draft('sent', '2020-01-01'));
+    await expect(convertQuoteToInvoice(declined.id)).rejects.toThrow('Quote #Q-0001 was declined and cannot be converted.');
+    await expect(convertQuoteToInvoice(expired.id)).rejects.toThrow('Quote #Q-0001 expired on');
+    expect(await getAllInvoices()).toEqual([]);
+    const sent = await saveQuote(draft('sent'));
+    const result = await convertQuoteToInvoice(sent.id);
+    expect(result?.quote.status).toBe('accepted');
+    expect(result?.invoice.invoiceNumber).toBe('0001');
+    expect(await getNextInvoiceNumber()).toBe('0002');
+    await expect(convertQuoteToInvoice(sent.id)).rejects.toThrow('has already been converted');
+  });
+});
@@ -0,0 +1,27 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { asyncStorageEngine } from '../storage-engine';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const expense = { id: 'exp-1', date: '2026-05-03', description: 'Fuel', amount: '1200', createdAt: '2026-05-03T00:00:00.000Z' };
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+describe('update', () => {
+  it('replaces a stored record', async () => {
+    await asyncStorageEngine.insert('ns_expenses', expense);
+    expect(await asyncStorageEngine.update('ns_expenses', { ...expense, amount: '1500' })).toBe(true);
+    expect(await asyncStorageEngine.get('ns_expenses', 'exp-1')).toMatchObject({ amount: '1500' });
+  });
+
+  it('reports a missing record instead of adding it', async () => {
+    expect(await asyncStorageEngine.update('ns_expenses', expense)).toBe(false);
+    const inTransaction = await asyncStorageEngine.transaction(['ns_expenses'], tx => tx.update('ns_expenses', expense));
+    expect(inTransaction).toBe(false);
+    expect(await asyncStorageEngine.getAll('ns_expenses')).toEqual([]);
+  });
+});
@@ -0,0 +1,40 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CURRENT_SCHEMA_VERSION, completeUpcomingShoot, getAllShoots, saveUpcomingShoot } from '../storage';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('../storage-engine', () => {
+  const actual = jest.requireActual('../storage-engine');
+  return { ...actual, storageEngine: actual.asyncStorageEngine };
+});
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  await AsyncStorage.setItem('ns_schema_version', String(CURRENT_SCHEMA_VERSION));
+});
+
+describe('completeUpcomingShoot', () => {
+  it('logs the shoot once, even when tapped twice', async () => {
+    const booking = await saveUpcomingShoot({
+      clientId: '',
+      clientName: 'Leela',
+      shootDate: '2026-04-02',
+      shootTime: '',
+      shootLocation: '',
+      salonName: '',
+      modelName: '',
+      shootType: 'Wedding',
+      contactNumber: '',
+      packagePrice: '30000',
+      advancePaid: '',
+      notes: '',
+      completed: false,
+    });
+    const results = await Promise.all([completeUpcomingShoot(booking.id), completeUpcomingShoot(booking.id)]);
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect(await getAllShoots()).toHaveLength(1);
+    expect(await completeUpcomingShoot('missing')).toBeNull();
+  });
+});
@@ -0,0 +1,121 @@
+import * as Crypto from 'expo-crypto';
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import { bytesToUtf8 } from '@noble/ciphers/utils';
+
+export const ENCRYPTED_BACKUP_FORMAT = 'ns-photography-backup-encrypted';
+const ENCRYPTED_FORMAT_VERSION = 1;
+
+const DEFAULT_KDF = { N: 2 ** 15, r: 8, p: 1 };
+const MAX_KDF = { N: 2 ** 20, r: 16, p: 4 };
+const SALT_BYTES = 16;
+const NONCE_BYTES = 24;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+interface EncryptedBackupEnvelope {
+  format: typeof ENCRYPTED_BACKUP_FORMAT;
+  formatVersion: number;
+  kdf: { name: 'scrypt'; N: number; r: number; p: number; salt: string };
+  cipher: 'xchacha20-poly1305';
+  nonce: string;
+  keyCheck: string;
+  ciphertext: string;
+}
+
+const WRONG_PASSPHRASE = 'The passphrase is incorrect.';
+const TAMPERED = 'This backup file has been modified or is damaged and cannot be decrypted.';
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+// One scrypt run yields both the cipher key and a separate check value, so a
+// wrong passphrase can be told apart from a file whose contents were altered.
+async function deriveKeys(passphrase: string, salt: Uint8Array, kdf: { N: number; r: number; p: number }) {
+  const derived = await scryptAsync(passphrase.normalize('NFKC'), salt, { ...kdf, dkLen: 64 });
+  return {
+    key: derived.slice(0, 32),
+    keyCheck: bytesToHex(sha256(derived.slice(32))),
+  };
+}
+
+function envelopeHeader(envelope: Omit<EncryptedBackupEnvelope, 'ciphertext'>): Uint8Array {
+  const { format, formatVersion, kdf, cipher, nonce, keyCheck } = envelope;
+  return utf8ToBytes(JSON.stringify({ format, formatVersion, kdf, cipher, nonce, keyCheck }));
+}
+
+export function isEncryptedBackup(text: string): boolean {
+  try {
+    return JSON.parse(text)?.format === ENCRYPTED_BACKUP_FORMAT;
+  } catch {
+    return false;
+  }
+}
+
+export async function encryptBackup(plaintext: string, passphrase: string): Promise<string> {
+  const salt = Crypto.getRandomBytes(SALT_BYTES);
+  const nonce = Crypto.getRandomBytes(NONCE_BYTES);
+  const { key, keyCheck } = await deriveKeys(passphrase, salt, DEFAULT_KDF);
+  const header: Omit<EncryptedBackupEnvelope, 'ciphertext'> = {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    formatVersion: ENCRYPTED_FORMAT_VERSION,
+    kdf: { name: 'scrypt', ...DEFAULT_KDF, salt: toBase64(salt) },
+    cipher: 'xchacha20-poly1305',
+    nonce: toBase64(nonce),
+    keyCheck,
+  };
+  const ciphertext = xchacha20poly1305(key, nonce, envelopeHeader(header)).encrypt(utf8ToBytes(plaintext));
+  const envelope: EncryptedBackupEnvelope = { ...header, ciphertext: toBase64(ciphertext) };
+  return JSON.stringify(envelope);
+}
+
+export async function decryptBackup(text: string, passphrase: string): Promise<string> {
+  let envelope: EncryptedBackupEnvelope;
+  let salt: Uint8Array;
+  let nonce: Uint8Array;
+  let ciphertext: Uint8Array;
+  try {
+    envelope = JSON.parse(text);
+    salt = fromBase64(envelope.kdf.salt);
+    nonce = fromBase64(envelope.nonce);
+    ciphertext = fromBase64(envelope.ciphertext);
+  } catch {
+    throw new Error(TAMPERED);
+  }
+  if (envelope.formatVersion > ENCRYPTED_FORMAT_VERSION) {
+    throw new Error('This backup was made by a newer version of the app. Please update the app and try again.');
+  }
+  const { N, r, p } = envelope.kdf;
+  if (
+    envelope.kdf.name !== 'scrypt' || envelope.cipher !== 'xchacha20-poly1305' ||
+    nonce.length !== NONCE_BYTES || !(N <= MAX_KDF.N && r <= MAX_KDF.r && p <= MAX_KDF.p)
+  ) {
+    throw new Error(TAMPERED);
+  }
+  let derived: { key: Uint8Array; keyCheck: string };
+  try {
+    derived = await deriveKeys(passphrase, salt, { N, r, p });
+  } catch {
+    throw new Error(TAMPERED);
+  }
+  const { key, keyCheck } = derived;
+  if (keyCheck !== envelope.keyCheck) throw new Error(WRONG_PASSPHRASE);
+  try {
+    return bytesToUtf8(xchacha20poly1305(key, nonce, envelopeHeader(envelope)).decrypt(ciphertext));
+  } catch {
+    throw new Error(TAMPERED);
+  }
+}
@@ -0,0 +1,211 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import { COLLECTIONS, CollectionKey, StoredRecord, SCHEMA_VERSION_META_KEY } from './storage-engine';
+import {
+  COUNTER_KEY,
+  QUOTE_COUNTER_KEY,
+  RECEIPT_COUNTER_KEY,
+  CREDIT_NOTE_COUNTER_KEY,
+  CURRENT_SCHEMA_VERSION,
+  migrateRecords,
+  getEngine,
+  runTransaction,
+} from './storage';
+import { encryptBackup } from './backup-crypto';
+import { shareTextFile, pickTextFile } from './file-share';
+
+export const BACKUP_FORMAT = 'ns-photography-backup';
+export const BACKUP_FORMAT_VERSION = 1;
+
+const COLLECTION_KEYS = Object.keys(COLLECTIONS) as CollectionKey[];
+const COUNTER_KEYS = [COUNTER_KEY, QUOTE_COUNTER_KEY, RECEIPT_COUNTER_KEY, CREDIT_NOTE_COUNTER_KEY];
+
+// Yearly invoice numbering keeps one counter per year next to the main one.
+function isCounterKey(key: string): boolean {
+  return COUNTER_KEYS.includes(key) || key.startsWith(`${COUNTER_KEY}_`);
+}
+
+export const COLLECTION_LABELS: Record<CollectionKey, string> = {
+  ns_invoices: 'Invoices',
+  ns_shoots: 'Shoots',
+  ns_upcoming_shoots: 'Upcoming Shoots',
+  ns_expenses: 'Expenses',
+  ns_clients: 'Clients',
+  ns_packages: 'Packages',
+  ns_quotes: 'Quotes',
+  ns_trash: 'Trash',
+  ns_history: 'Change History',
+};
+
+export interface BackupData {
+  collections: Record<CollectionKey, StoredRecord[]>;
+  settings: Record<string, string>;
+}
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  schemaVersion: number;
+  createdAt: string;
+  checksum: string;
+  data: BackupData;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface BackupSummary {
+  createdAt: string;
+  counts: Record<CollectionKey, number>;
+  settingsCount: number;
+}
+
+// Scheduled notification ids only mean something on the device that
+// scheduled them, so they stay out of the archive.
+function isSettingsKey(key: string): boolean {
+  return key.startsWith('ns_') &&
+    !key.startsWith('ns_notif_') &&
+    key !== SCHEMA_VERSION_META_KEY &&
+    !(COLLECTION_KEYS as string[]).includes(key);
+}
+
+function checksumOf(data: BackupData): string {
+  return bytesToHex(sha256(utf8ToBytes(JSON.stringify(data))));
+}
+
+async function readSettings(): Promise<Record<string, string>> {
+  const keys = (await AsyncStorage.getAllKeys()).filter(isSettingsKey);
+  const settings: Record<string, string> = {};
+  for (const [key, value] of await AsyncStorage.multiGet(keys)) {
+    if (value !== null) settings[key] = value;
+  }
+  return settings;
+}
+
+export async function createBackup(): Promise<BackupArchive> {
+  const engine = await getEngine();
+  const collections = {} as Record<CollectionKey, StoredRecord[]>;
+  for (const key of COLLECTION_KEYS) {
+    collections[key] = await engine.getAll(key);
+  }
+  const data: BackupData = { collections, settings: await readSettings() };
+  return {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    createdAt: new Date().toISOString(),
+    checksum: checksumOf(data),
+    data,
+  };
+}
+
+export function parseBackup(text: string): BackupArchive {
+  let archive: any;
+  try {
+    archive = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not a valid backup archive.');
+  }
+  if (!archive || archive.format !== BACKUP_FORMAT || !archive.data) {
+    throw new Error('This file is not a valid backup archive.');
+  }
+  if (archive.formatVersion > BACKUP_FORMAT_VERSION || archive.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error('This backup was made by a newer version of the app. Please update the app and try again.');
+  }
+  const { collections, settings } = archive.data;
+  if (!collections || typeof collections !== 'object' || !settings || typeof settings !== 'object') {
+    throw new Error('This backup archive is incomplete.');
+  }
+  for (const key of COLLECTION_KEYS) {
+    const records = collections[key];
+    if (records === undefined) continue;
+    if (!Array.isArray(records) || records.some(r => !r || typeof r.id !== 'string')) {
+      throw new Error(`The ${COLLECTION_LABELS[key].toLowerCase()} in this backup are damaged.`);
+    }
+  }
+  if (Object.values(settings).some(v => typeof v !== 'string')) {
+    throw new Error('The settings in this backup are damaged.');
+  }
+  if (archive.checksum !== checksumOf(archive.data)) {
+    throw new Error('The backup checksum does not match. The file may be corrupted or was edited.');
+  }
+  for (const key of COLLECTION_KEYS) {
+    if (collections[key] === undefined) collections[key] = [];
+  }
+  return archive as BackupArchive;
+}
+
+export function summarizeBackup(archive: BackupArchive): BackupSummary {
+  const counts = {} as Record<CollectionKey, number>;
+  for (const key of COLLECTION_KEYS) {
+    counts[key] = archive.data.collections[key].length;
+  }
+  return {
+    createdAt: archive.createdAt,
+    counts,
+    settingsCount: Object.keys(archive.data.settings).length,
+  };
+}
+
+function updatedTime(record: StoredRecord): number {
+  return new Date(record.updatedAt || record.createdAt || 0).getTime() || 0;
+}
+
+// Merge keeps local records unless the backup holds a newer copy of the same
+// id, and only fills in settings that are missing on this device.
+export async function restoreBackup(archive: BackupArchive, mode: RestoreMode): Promise<void> {
+  await runTransaction(COLLECTION_KEYS, async tx => {
+    for (const key of COLLECTION_KEYS) {
+      const incoming = migrateRecords(key, archive.data.collections[key], archive.schemaVersion);
+      const existing: StoredRecord[] = await tx.getAll(key);
+      if (mode === 'replace') {
+        for (const record of existing) await tx.remove(key, record.id);
+        for (const record of incoming) await tx.insert(key, record);
+        continue;
+      }
+      const byId = new Map(existing.map(r => [r.id, r]));
+      for (const record of incoming) {
+        const current = byId.get(record.id);
+        if (!current) {
+          await tx.insert(key, record);
+        } else if (updatedTime(record) > updatedTime(current)) {
+          await tx.update(key, record);
+        }
+      }
+    }
+  });
+
+  const current = await readSettings();
+  const incoming = archive.data.settings;
+  if (mode === 'replace') {
+    await AsyncStorage.multiRemove(Object.keys(current).filter(k => !(k in incoming)));
+    await AsyncStorage.multiSet(Object.entries(incoming));
+    return;
+  }
+  const missing = Object.entries(incoming).filter(([key]) => !(key in current));
+  for (const key of Object.keys(incoming).filter(isCounterKey)) {
+    if (!(key in current)) continue;
+    const highest = Math.max(parseInt(incoming[key], 10) || 0, parseInt(current[key], 10) || 0);
+    missing.push([key, highest.toString()]);
+  }
+  await AsyncStorage.multiSet(missing);
+}
+
+export function getBackupFileName(archive: BackupArchive, encrypted: boolean = false): string {
+  return `NS_Backup_${archive.createdAt.split('T')[0]}${encrypted ? '_Encrypted' : ''}.json`;
+}
+
+export async function shareBackup(archive: BackupArchive, passphrase?: string): Promise<void> {
+  const json = JSON.stringify(archive);
+  await shareTextFile({
+    fileName: getBackupFileName(archive, !!passphrase),
+    content: passphrase ? await encryptBackup(json, passphrase) : json,
+    mimeType: 'application/json',
+    UTI: 'public.json',
+    dialogTitle: 'Save Backup',
+  });
+}
+
+export function pickBackupFile(): Promise<string | null> {
+  return pickTextFile('application/json', '.json');
+}
@@ -34,6 +34,7 @@ interface BrandingContextValue {
   branding: BrandingSettings;
   updateBranding: (updates: Partial<BrandingSettings>) => Promise<void>;
   resetBranding: () => Promise<void>;
+  reloadBranding: () => Promise<void>;
 }
 
 const BrandingContext = createContext<BrandingContextValue | null>(null);
@@ -41,18 +42,22 @@ const BrandingContext = createContext<BrandingContextValue | null>(null);
 export function BrandingProvider({ children }: { children: ReactNode }) {
   const [branding, setBranding] = useState<BrandingSettings>(DEFAULT_BRANDING);
 
-  useEffect(() => {
-    (async () => {
-      try {
-        const saved = await AsyncStorage.getItem(BRANDING_KEY);
-        if (saved) {
-          const parsed = JSON.parse(saved);
-          setBranding({ ...DEFAULT_BRANDING, ...parsed });
-        }
-      } catch {}
-    })();
+  const reloadBranding = React.useCallback(async () => {
+    try {
+      const saved = await AsyncStorage.getItem(BRANDING_KEY);
+      if (saved) {
+        const parsed = JSON.parse(saved);
+        setBranding({ ...DEFAULT_BRANDING, ...parsed });
+      } else {
+        setBranding(DEFAULT_BRANDING);
+      }
+    } catch {}
   }, []);
 
+  useEffect(() => {
+    reloadBranding();
+  }, [reloadBranding]);
+
   const updateBranding = React.useCallback(async (updates: Partial<BrandingSettings>) => {
     setBranding(prev => {
       const updated = { ...prev, ...updates };
@@ -70,7 +75,8 @@ export function BrandingProvider({ children }: { children: ReactNode }) {
     branding,
     updateBranding,
     resetBranding,
-  }), [branding, updateBranding, resetBranding]);
+    reloadBranding,
+  }), [branding, updateBranding, resetBranding, reloadBranding]);
 
   return (
     <BrandingContext.Provider value={value}>
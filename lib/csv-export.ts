@@ -0,0 +1,200 @@
+import {
+  Invoice,
+  ShootEntry,
+  UpcomingShoot,
+  Expense,
+  getTotal,
+  getSubtotal,
+  applyAdjustments,
+  ADJUSTMENT_KINDS,
+  ADJUSTMENT_KIND_LABELS,
+  getTotalCredited,
+  getNetPaid,
+  getInvoiceBalance,
+  hasItemPrice,
+  getLineTotal,
+  INVOICE_STATUS_LABELS,
+} from './storage';
+import { CsvValue, toCsv } from './csv';
+import { shareTextFile } from './file-share';
+
+export type CsvDataset = 'invoices' | 'invoice_items' | 'shoots' | 'upcoming' | 'expenses';
+
+export const CSV_DATASETS: { id: CsvDataset; label: string }[] = [
+  { id: 'invoices', label: 'Invoices' },
+  { id: 'invoice_items', label: 'Invoice Line Items' },
+  { id: 'shoots', label: 'Shoots' },
+  { id: 'upcoming', label: 'Upcoming Shoots' },
+  { id: 'expenses', label: 'Expenses' },
+];
+
+export interface CsvSource {
+  invoices: Invoice[];
+  shoots: ShootEntry[];
+  upcoming: UpcomingShoot[];
+  expenses: Expense[];
+}
+
+export interface CsvDateRange {
+  from: string;
+  to: string;
+}
+
+export interface CsvExport {
+  fileName: string;
+  csv: string;
+  rowCount: number;
+}
+
+// With no range set ("All dates") every record is exported, dated or not.
+function inRange(dateStr: string, range: CsvDateRange): boolean {
+  if (!range.from && !range.to) return true;
+  const d = (dateStr || '').split('T')[0];
+  if (!d) return false;
+  return (!range.from || d >= range.from) && (!range.to || d <= range.to);
+}
+
+function amount(value: number): string {
+  return value.toFixed(2);
+}
+
+function invoiceRows(invoices: Invoice[]): CsvValue[][] {
+  return invoices.map(inv => {
+    const subtotal = getSubtotal(inv);
+    const applied = applyAdjustments(subtotal, inv.adjustments);
+    const total = getTotal(inv);
+    return [
+      inv.invoiceNumber,
+      inv.invoiceDate,
+      inv.dueDate,
+      INVOICE_STATUS_LABELS[inv.status],
+      inv.customerNames,
+      inv.phoneNumber,
+      inv.eventDate,
+      inv.eventLocation,
+      amount(subtotal),
+      ...ADJUSTMENT_KINDS.map(kind => amount(applied.filter(a => a.adjustment.kind === kind).reduce((sum, a) => sum + a.amount, 0))),
+      amount(total),
+      amount(getTotalCredited(inv.creditNotes)),
+      amount(getNetPaid(inv)),
+      amount(getInvoiceBalance(inv)),
+    ];
+  });
+}
+
+function invoiceItemRows(invoices: Invoice[]): CsvValue[][] {
+  return invoices.flatMap(inv => inv.items.map(item => [
+    inv.invoiceNumber,
+    inv.customerNames,
+    inv.eventDate,
+    item.description,
+    item.quantity,
+    hasItemPrice(item) ? amount(parseFloat(item.unitPrice) || 0) : '',
+    hasItemPrice(item) ? amount(getLineTotal(item)) : '',
+  ]));
+}
+
+function shootRows(shoots: ShootEntry[]): CsvValue[][] {
+  return shoots.map(s => [
+    s.shootDate,
+    s.shootTime,
+    s.clientName,
+    s.shootType,
+    s.shootLocation,
+    s.salonName,
+    s.modelName,
+    s.phoneNumber,
+    amount(parseFloat(s.price) || 0),
+    amount(parseFloat(s.advancePaid) || 0),
+    s.notes,
+  ]);
+}
+
+function upcomingRows(shoots: UpcomingShoot[]): CsvValue[][] {
+  return shoots.map(s => [
+    s.shootDate,
+    s.shootTime,
+    s.clientName,
+    s.shootType,
+    s.shootLocation,
+    s.salonName,
+    s.modelName,
+    s.contactNumber,
+    amount(parseFloat(s.packagePrice) || 0),
+    amount(parseFloat(s.advancePaid) || 0),
+    s.completed ? 'Yes' : 'No',
+    s.notes,
+  ]);
+}
+
+function expenseRows(expenses: Expense[]): CsvValue[][] {
+  return expenses.map(e => [e.date, e.description, amount(parseFloat(e.amount) || 0)]);
+}
+
+// Invoices are filed by their event; one without an event date falls back to
+// the date it was issued.
+function invoiceDateOf(inv: Invoice): string {
+  return inv.eventDate || inv.invoiceDate || '';
+}
+
+function byDate<T>(records: T[], getDate: (r: T) => string): T[] {
+  return [...records].sort((a, b) => getDate(a).localeCompare(getDate(b)));
+}
+
+export function buildCsvExport(dataset: CsvDataset, source: CsvSource, range: CsvDateRange): CsvExport {
+  const suffix = [range.from, range.to].filter(Boolean).join('_to_') || 'All';
+  const invoices = byDate(source.invoices.filter(inv => inRange(invoiceDateOf(inv), range)), invoiceDateOf);
+
+  switch (dataset) {
+    case 'invoices': {
+      const rows = invoiceRows(invoices);
+      return {
+        fileName: `Invoices_${suffix}.csv`,
+        csv: toCsv(['Invoice #', 'Invoice Date', 'Due Date', 'Status', 'Customer', 'Phone', 'Event Date', 'Event Location', 'Subtotal', ...ADJUSTMENT_KINDS.map(kind => ADJUSTMENT_KIND_LABELS[kind]), 'Total', 'Credited', 'Paid', 'Balance'], rows),
+        rowCount: rows.length,
+      };
+    }
+    case 'invoice_items': {
+      const rows = invoiceItemRows(invoices);
+      return {
+        fileName: `Invoice_Items_${suffix}.csv`,
+        csv: toCsv(['Invoice #', 'Customer', 'Event Date', 'Description', 'Quantity', 'Unit Price', 'Line Total'], rows),
+        rowCount: rows.length,
+      };
+    }
+    case 'shoots': {
+      const rows = shootRows(byDate(source.shoots.filter(s => inRange(s.shootDate, range)), s => s.shootDate));
+      return {
+        fileName: `Shoots_${suffix}.csv`,
+        csv: toCsv(['Date', 'Time', 'Client', 'Type', 'Location', 'Salon', 'Model', 'Phone', 'Price', 'Advance Paid', 'Notes'], rows),
+        rowCount: rows.length,
+      };
+    }
+    case 'upcoming': {
+      const rows = upcomingRows(byDate(source.upcoming.filter(s => inRange(s.shootDate, range)), s => s.shootDate));
+      return {
+        fileName: `Upcoming_Shoots_${suffix}.csv`,
+        csv: toCsv(['Date', 'Time', 'Client', 'Type', 'Location', 'Salon', 'Model', 'Contact', 'Package Price', 'Advance Paid', 'Completed', 'Notes'], rows),
+        rowCount: rows.length,
+      };
+    }
+    case 'expenses': {
+      const rows = expenseRows(byDate(source.expenses.filter(e => inRange(e.date, range)), e => e.date));
+      return {
+        fileName: `Expenses_${suffix}.csv`,
+        csv: toCsv(['Date', 'Description', 'Amount'], rows),
+        rowCount: rows.length,
+      };
+    }
+  }
+}
+
+export function shareCsvExport(result: CsvExport): Promise<void> {
+  return shareTextFile({
+    fileName: result.fileName,
+    content: result.csv,
+    mimeType: 'text/csv',
+    UTI: 'public.comma-separated-values-text',
+    dialogTitle: result.fileName,
+  });
+}
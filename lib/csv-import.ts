@@ -0,0 +1,276 @@
+import {
+  Invoice,
+  ShootEntry,
+  Expense,
+  ShootType,
+  SHOOT_TYPES,
+  saveShoot,
+  saveInvoice,
+  saveExpense,
+  getNextInvoiceNumber,
+  createPayment,
+  resolveClientId,
+} from './storage';
+import { parseCsv } from './csv';
+import { pickTextFile } from './file-share';
+
+export type ImportTarget = 'shoots' | 'invoices' | 'expenses';
+
+export const IMPORT_TARGETS: { id: ImportTarget; label: string }[] = [
+  { id: 'shoots', label: 'Shoots' },
+  { id: 'invoices', label: 'Invoices' },
+  { id: 'expenses', label: 'Expenses' },
+];
+
+type FieldKind = 'text' | 'date' | 'amount' | 'shootType';
+
+export interface ImportField {
+  key: string;
+  label: string;
+  kind: FieldKind;
+  required?: boolean;
+  aliases?: string[];
+}
+
+export const IMPORT_FIELDS: Record<ImportTarget, ImportField[]> = {
+  shoots: [
+    { key: 'clientName', label: 'Client', kind: 'text', required: true, aliases: ['client name', 'customer', 'name'] },
+    { key: 'shootDate', label: 'Date', kind: 'date', required: true, aliases: ['shoot date'] },
+    { key: 'shootTime', label: 'Time', kind: 'text', aliases: ['shoot time'] },
+    { key: 'shootType', label: 'Type', kind: 'shootType', aliases: ['shoot type', 'category'] },
+    { key: 'shootLocation', label: 'Location', kind: 'text', aliases: ['venue', 'shoot location'] },
+    { key: 'salonName', label: 'Salon', kind: 'text' },
+    { key: 'modelName', label: 'Model', kind: 'text' },
+    { key: 'phoneNumber', label: 'Phone', kind: 'text', aliases: ['contact', 'mobile'] },
+    { key: 'price', label: 'Price', kind: 'amount', required: true, aliases: ['amount', 'fee', 'package price'] },
+    { key: 'advancePaid', label: 'Advance Paid', kind: 'amount', aliases: ['advance'] },
+    { key: 'notes', label: 'Notes', kind: 'text' },
+  ],
+  invoices: [
+    { key: 'invoiceNumber', label: 'Invoice #', kind: 'text', aliases: ['invoice number', 'invoice no', 'number'] },
+    { key: 'invoiceDate', label: 'Invoice Date', kind: 'date', aliases: ['date'] },
+    { key: 'dueDate', label: 'Due Date', kind: 'date' },
+    { key: 'customerNames', label: 'Customer', kind: 'text', required: true, aliases: ['customer names', 'client', 'name'] },
+    { key: 'phoneNumber', label: 'Phone', kind: 'text', aliases: ['contact', 'mobile'] },
+    { key: 'eventDate', label: 'Event Date', kind: 'date', required: true },
+    { key: 'eventLocation', label: 'Event Location', kind: 'text', aliases: ['location', 'venue'] },
+    { key: 'fullPrice', label: 'Total', kind: 'amount', required: true, aliases: ['full price', 'price', 'amount'] },
+    { key: 'paid', label: 'Paid', kind: 'amount', aliases: ['advance', 'amount paid'] },
+  ],
+  expenses: [
+    { key: 'date', label: 'Date', kind: 'date', required: true },
+    { key: 'description', label: 'Description', kind: 'text', required: true, aliases: ['item', 'details'] },
+    { key: 'amount', label: 'Amount', kind: 'amount', required: true, aliases: ['cost', 'price'] },
+  ],
+};
+
+export type ColumnMapping = Record<string, number | null>;
+
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportRowError {
+  rowNumber: number;
+  errors: string[];
+}
+
+export interface ImportPreview {
+  target: ImportTarget;
+  valid: Record<string, string>[];
+  invalid: ImportRowError[];
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+function normalizeHeader(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9#]+/g, ' ').trim();
+}
+
+export function readCsvTable(text: string): CsvTable {
+  const [headers = [], ...rows] = parseCsv(text);
+  return { headers: headers.map(h => h.trim()), rows };
+}
+
+export function pickCsvFile(): Promise<string | null> {
+  return pickTextFile('text/csv', '.csv');
+}
+
+export function guessMapping(target: ImportTarget, headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+  for (const field of IMPORT_FIELDS[target]) {
+    const names = [field.label, field.key, ...(field.aliases || [])].map(normalizeHeader);
+    const index = normalized.findIndex((h, i) => !used.has(i) && names.includes(h));
+    mapping[field.key] = index === -1 ? null : index;
+    if (index !== -1) used.add(index);
+  }
+  return mapping;
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// Day-first is assumed for numeric dates (14/02/2024), matching how dates are
+// written on our invoices; month names (14.Feb.2024, 14 February 2024) are
+// accepted in either order.
+export function parseImportDate(value: string): string | null {
+  const v = value.trim();
+  if (!v) return null;
+  let m = v.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (m) return toIsoDate(+m[1], +m[2], +m[3]);
+  m = v.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (m) return toIsoDate(m[3].length === 2 ? 2000 + +m[3] : +m[3], +m[2], +m[1]);
+  m = v.match(/^(\d{1,2})[\s./-]+([a-z]{3,})[\s.,/-]+(\d{4})$/i);
+  if (m && MONTHS.includes(m[2].slice(0, 3).toLowerCase())) {
+    return toIsoDate(+m[3], MONTHS.indexOf(m[2].slice(0, 3).toLowerCase()) + 1, +m[1]);
+  }
+  m = v.match(/^([a-z]{3,})[\s./-]+(\d{1,2}),?[\s./-]+(\d{4})$/i);
+  if (m && MONTHS.includes(m[1].slice(0, 3).toLowerCase())) {
+    return toIsoDate(+m[3], MONTHS.indexOf(m[1].slice(0, 3).toLowerCase()) + 1, +m[2]);
+  }
+  return null;
+}
+
+export function parseImportAmount(value: string): string | null {
+  const cleaned = value.replace(/lkr|rs\.?/gi, '').replace(/[,\s]/g, '');
+  if (!cleaned) return null;
+  if (!/^-?\d+(\.\d+)?$/.test(cleaned)) return null;
+  return String(parseFloat(cleaned));
+}
+
+function parseShootType(value: string): ShootType | null {
+  const v = value.trim().toLowerCase().replace(/[\s_]+/g, '-');
+  return SHOOT_TYPES.find(t => t.toLowerCase() === v || t.toLowerCase().replace('-', '') === v) || null;
+}
+
+// `usedInvoiceNumbers` are the numbers already on saved invoices. Invoice rows
+// that reuse one of them, or a number from an earlier row in the file, are
+// reported as invalid, compared trimmed and ignoring case like saveInvoice does.
+export function previewImport(
+  target: ImportTarget,
+  table: CsvTable,
+  mapping: ColumnMapping,
+  usedInvoiceNumbers: string[] = []
+): ImportPreview {
+  const fields = IMPORT_FIELDS[target];
+  const valid: Record<string, string>[] = [];
+  const invalid: ImportRowError[] = [];
+  const used = new Set(usedInvoiceNumbers.map(n => n.trim().toLowerCase()));
+  const seenInFile = new Set<string>();
+
+  table.rows.forEach((row, index) => {
+    const record: Record<string, string> = {};
+    const errors: string[] = [];
+    for (const field of fields) {
+      const column = mapping[field.key];
+      const raw = column === null || column === undefined ? '' : (row[column] || '').trim();
+      if (!raw) {
+        if (field.required) errors.push(`${field.label} is missing`);
+        record[field.key] = '';
+        continue;
+      }
+      if (field.kind === 'date') {
+        const date = parseImportDate(raw);
+        if (!date) errors.push(`${field.label} "${raw}" is not a date`);
+        record[field.key] = date || '';
+      } else if (field.kind === 'amount') {
+        const amount = parseImportAmount(raw);
+        if (amount === null) errors.push(`${field.label} "${raw}" is not an amount`);
+        record[field.key] = amount || '';
+      } else if (field.kind === 'shootType') {
+        const type = parseShootType(raw);
+        if (!type) errors.push(`Type "${raw}" must be one of ${SHOOT_TYPES.join(', ')}`);
+        record[field.key] = type || '';
+      } else {
+        record[field.key] = raw;
+      }
+    }
+    if (target === 'invoices' && record.invoiceNumber) {
+      const number = record.invoiceNumber.toLowerCase();
+      if (used.has(number)) {
+        errors.push(`Invoice number "${record.invoiceNumber}" is already used by another invoice`);
+      } else if (seenInFile.has(number)) {
+        errors.push(`Invoice number "${record.invoiceNumber}" appears more than once in this file`);
+      }
+      seenInFile.add(number);
+    }
+    if (errors.length > 0) {
+      invalid.push({ rowNumber: index + 2, errors });
+    } else {
+      valid.push(record);
+    }
+  });
+
+  return { target, valid, invalid };
+}
+
+async function toShoot(r: Record<string, string>): Promise<Omit<ShootEntry, 'id' | 'createdAt' | 'updatedAt'>> {
+  return {
+    clientId: await resolveClientId(r.clientName, [r.phoneNumber]),
+    clientName: r.clientName,
+    shootDate: r.shootDate,
+    shootTime: r.shootTime,
+    shootLocation: r.shootLocation,
+    salonName: r.salonName,
+    modelName: r.modelName,
+    shootType: (r.shootType || 'Casual') as ShootType,
+    price: r.price,
+    advancePaid: r.advancePaid,
+    phoneNumber: r.phoneNumber,
+    notes: r.notes,
+  };
+}
+
+async function toInvoice(r: Record<string, string>): Promise<Omit<Invoice, 'id' | 'createdAt' | 'updatedAt'>> {
+  const invoiceDate = r.invoiceDate || r.eventDate;
+  return {
+    invoiceNumber: r.invoiceNumber || await getNextInvoiceNumber(),
+    invoiceDate,
+    dueDate: r.dueDate,
+    status: 'sent',
+    clientId: await resolveClientId(r.customerNames, [r.phoneNumber]),
+    customerNames: r.customerNames,
+    eventDate: r.eventDate,
+    eventLocation: r.eventLocation,
+    phoneNumber: r.phoneNumber,
+    items: [],
+    priceMode: 'manual',
+    fullPrice: r.fullPrice,
+    adjustments: [],
+    payments: parseFloat(r.paid) > 0 ? [{ ...createPayment(r.paid), date: invoiceDate, reference: 'Imported' }] : [],
+    creditNotes: [],
+  };
+}
+
+function toExpense(r: Record<string, string>): Omit<Expense, 'id' | 'createdAt'> {
+  return { date: r.date, description: r.description, amount: r.amount };
+}
+
+// Rows are saved one at a time, so a failure leaves the earlier rows in place.
+// The error says how many were saved, so the user knows which rows to remove
+// from the file before importing it again.
+export async function commitImport(preview: ImportPreview): Promise<number> {
+  let saved = 0;
+  for (const record of preview.valid) {
+    try {
+      if (preview.target === 'shoots') {
+        await saveShoot(await toShoot(record));
+      } else if (preview.target === 'invoices') {
+        await saveInvoice(await toInvoice(record));
+      } else {
+        await saveExpense(toExpense(record));
+      }
+    } catch (e) {
+      const reason = e instanceof Error ? e.message : String(e);
+      throw new Error(`The import stopped after ${saved} of ${preview.valid.length} rows were saved. ${reason}`);
+    }
+    saved++;
+  }
+  return saved;
+}
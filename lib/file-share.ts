@@ -0,0 +1,51 @@
+import { Platform } from 'react-native';
+import * as Sharing from 'expo-sharing';
+import { File, Paths } from 'expo-file-system';
+
+interface ShareTextFileOptions {
+  fileName: string;
+  content: string;
+  mimeType: string;
+  UTI: string;
+  dialogTitle: string;
+}
+
+export async function shareTextFile({ fileName, content, mimeType, UTI, dialogTitle }: ShareTextFileOptions): Promise<void> {
+  if (Platform.OS === 'web') {
+    const link = document.createElement('a');
+    link.href = `data:${mimeType};charset=utf-8,${encodeURIComponent(content)}`;
+    link.download = fileName;
+    link.click();
+    return;
+  }
+  const file = new File(Paths.cache, fileName);
+  if (file.exists) file.delete();
+  file.create();
+  file.write(content);
+  await Sharing.shareAsync(file.uri, { mimeType, dialogTitle, UTI });
+}
+
+function pickWebFile(accept: string): Promise<string | null> {
+  return new Promise(resolve => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = accept;
+    input.onchange = () => {
+      const picked = input.files?.[0];
+      if (!picked) return resolve(null);
+      picked.text().then(resolve, () => resolve(null));
+    };
+    input.click();
+  });
+}
+
+export async function pickTextFile(mimeType: string, extension: string): Promise<string | null> {
+  if (Platform.OS === 'web') return pickWebFile(`${mimeType},${extension}`);
+  try {
+    const picked = await File.pickFileAsync(undefined, mimeType);
+    const file = Array.isArray(picked) ? picked[0] : picked;
+    return file ? file.text() : null;
+  } catch {
+    return null;
+  }
+}
@@ -10,8 +10,9 @@ interface MonthlyStats {
 interface InvoiceStats {
   totalInvoices: number;
   totalRevenue: number;
-  totalAdvance: number;
+  totalPaid: number;
   totalPending: number;
+  totalCredited?: number;
 }
 
 const TYPE_COLORS: Record<string, string> = {
@@ -27,7 +28,7 @@ export function generateMonthlyReportHTML(
   year: number,
   month: number,
   branding: BrandingSettings = DEFAULT_BRANDING,
-  invoiceStats: InvoiceStats = { totalInvoices: 0, totalRevenue: 0, totalAdvance: 0, totalPending: 0 },
+  invoiceStats: InvoiceStats = { totalInvoices: 0, totalRevenue: 0, totalPaid: 0, totalPending: 0 },
   totalExpenses: number = 0
 ): string {
   const typeBreakdown: Record<string, { count: number; income: number }> = {};
@@ -111,11 +112,11 @@ export function generateMonthlyReportHTML(
         <div style="flex:1;background:#fff;border-radius:12px;padding:20px;border:1px solid #E8E4DF;">
           <div style="font-size:11px;color:#999;letter-spacing:1px;text-transform:uppercase;">Invoice Income</div>
           <div style="font-size:24px;font-weight:700;margin-top:6px;color:#2C1810;">LKR ${formatCurrency(invoiceStats.totalRevenue)}</div>
-          <div style="font-size:11px;color:#999;margin-top:4px;">${invoiceStats.totalInvoices} invoice${invoiceStats.totalInvoices > 1 ? 's' : ''}</div>
+          <div style="font-size:11px;color:#999;margin-top:4px;">${invoiceStats.totalInvoices} invoice${invoiceStats.totalInvoices > 1 ? 's' : ''}${invoiceStats.totalCredited ? ` · LKR ${formatCurrency(invoiceStats.totalCredited)} credited` : ''}</div>
         </div>
         <div style="flex:1;background:#fff;border-radius:12px;padding:20px;border:1px solid #E8E4DF;">
-          <div style="font-size:11px;color:#999;letter-spacing:1px;text-transform:uppercase;">Advance Received</div>
-          <div style="font-size:24px;font-weight:700;margin-top:6px;color:#27AE60;">LKR ${formatCurrency(invoiceStats.totalAdvance)}</div>
+          <div style="font-size:11px;color:#999;letter-spacing:1px;text-transform:uppercase;">Payments Received</div>
+          <div style="font-size:24px;font-weight:700;margin-top:6px;color:#27AE60;">LKR ${formatCurrency(invoiceStats.totalPaid)}</div>
         </div>
         <div style="flex:1;background:#fff;border-radius:12px;padding:20px;border:1px solid #E8E4DF;">
           <div style="font-size:11px;color:#999;letter-spacing:1px;text-transform:uppercase;">Pending Balance</div>
@@ -166,6 +167,12 @@ export function generateMonthlyReportHTML(
           <span style="font-size:13px;font-weight:600;">LKR ${formatCurrency(invoiceStats.totalRevenue)}</span>
         </div>
         ` : ''}
+        ${invoiceStats.totalCredited ? `
+        <div style="display:flex;justify-content:space-between;margin-bottom:6px;">
+          <span style="font-size:12px;color:rgba(255,255,255,0.7);">Credit Notes (already deducted)</span>
+          <span style="font-size:13px;font-weight:600;">LKR ${formatCurrency(invoiceStats.totalCredited)}</span>
+        </div>
+        ` : ''}
         ${totalExpenses > 0 ? `
         <div style="display:flex;justify-content:space-between;margin-bottom:6px;">
           <span style="font-size:12px;color:rgba(255,255,255,0.7);">Expenses</span>
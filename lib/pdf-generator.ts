@@ -1,4 +1,21 @@
-import { Invoice, getTotal, calculateBalance, formatCurrency, formatDate } from './storage';
+import {
+  Invoice,
+  Quote,
+  BillingDocument,
+  InvoicePayment,
+  CreditNote,
+  getTotal,
+  getSubtotal,
+  applyAdjustments,
+  formatAdjustmentLabel,
+  getInvoiceBalance,
+  getBalanceAfterPayment,
+  sortPayments,
+  hasItemPrice,
+  getLineTotal,
+  formatCurrency,
+  formatDate,
+} from './storage';
 import { BrandingSettings, DEFAULT_BRANDING } from './branding-context';
 import { InvoiceStyleId } from './theme-context';
 
@@ -20,37 +37,117 @@ export function generateInvoiceHTML(
   themeColors: InvoiceThemeColors = DEFAULT_COLORS,
   style: InvoiceStyleId = 'elegant'
 ): string {
-  const total = getTotal(invoice);
-  const advance = parseFloat(invoice.advancePayment) || 0;
-  const balance = calculateBalance(total, invoice.advancePayment);
-  const c = themeColors;
+  const heading: DocumentHeading = {
+    title: 'INVOICE',
+    numberLabel: 'Invoice',
+    number: invoice.invoiceNumber,
+    date: invoice.invoiceDate,
+    validUntil: '',
+  };
+  const paymentRows: PaymentRow[] = invoice.payments.length > 0
+    ? sortPayments(invoice.payments).map(p => ({
+        label: `${formatDate(p.date)} &middot; ${p.method}${p.reference ? ` (${p.reference})` : ''}`,
+        amount: parseFloat(p.amount) || 0,
+      }))
+    : [{ label: 'Paid', amount: 0 }];
+  invoice.creditNotes.forEach(cn => {
+    const refund = parseFloat(cn.refundAmount) || 0;
+    paymentRows.push({ label: `Credit Note #${cn.creditNoteNumber}${cn.reason ? ` &middot; ${cn.reason}` : ''}`, amount: parseFloat(cn.amount) || 0 });
+    if (refund > 0) {
+      paymentRows.push({ label: `Refund &middot; ${cn.method}${cn.reference ? ` (${cn.reference})` : ''}`, amount: -refund });
+    }
+  });
+  const balance = getInvoiceBalance(invoice);
+  return generateDocumentHTML(invoice, heading, paymentRows, balance, branding, themeColors, style);
+}
+
+export function generateQuoteHTML(
+  quote: Quote,
+  branding: BrandingSettings = DEFAULT_BRANDING,
+  themeColors: InvoiceThemeColors = DEFAULT_COLORS,
+  style: InvoiceStyleId = 'elegant'
+): string {
+  const heading: DocumentHeading = {
+    title: 'QUOTATION',
+    numberLabel: 'Quote',
+    number: quote.quoteNumber,
+    date: quote.quoteDate,
+    validUntil: quote.validUntil,
+  };
+  return generateDocumentHTML(quote, heading, [], null, branding, themeColors, style);
+}
 
-  const itemRows = invoice.items.map(item => {
+// A null balance leaves out the payment and balance rows, for documents
+// that ask for money rather than record it.
+function generateDocumentHTML(
+  doc: BillingDocument,
+  heading: DocumentHeading,
+  paymentRows: PaymentRow[],
+  balance: number | null,
+  branding: BrandingSettings,
+  c: InvoiceThemeColors,
+  style: InvoiceStyleId
+): string {
+  const subtotal = getSubtotal(doc);
+  const adjustments = applyAdjustments(subtotal, doc.adjustments);
+  const total = getTotal(doc);
+
+  const itemRows = doc.items.map(item => {
     const qty = item.quantity || '---';
-    return { description: item.description, qty };
+    const amount = hasItemPrice(item) ? formatCurrency(getLineTotal(item)) : '';
+    return { description: item.description, qty, amount };
   });
 
+  const breakdown: BreakdownRow[] = adjustments.length > 0
+    ? [
+        { label: 'Subtotal', amount: subtotal },
+        ...adjustments.map(a => ({ label: formatAdjustmentLabel(a.adjustment), amount: a.amount })),
+      ]
+    : [];
+
   switch (style) {
-    case 'modern': return generateModern(invoice, branding, c, total, advance, balance, itemRows);
-    case 'minimal': return generateMinimal(invoice, branding, c, total, advance, balance, itemRows);
-    case 'bold': return generateBold(invoice, branding, c, total, advance, balance, itemRows);
-    case 'classic': return generateClassic(invoice, branding, c, total, advance, balance, itemRows);
+    case 'modern': return generateModern(doc, heading, branding, c, total, paymentRows, balance, itemRows, breakdown);
+    case 'minimal': return generateMinimal(doc, heading, branding, c, total, paymentRows, balance, itemRows, breakdown);
+    case 'bold': return generateBold(doc, heading, branding, c, total, paymentRows, balance, itemRows, breakdown);
+    case 'classic': return generateClassic(doc, heading, branding, c, total, paymentRows, balance, itemRows, breakdown);
     case 'elegant':
-    default: return generateElegant(invoice, branding, c, total, advance, balance, itemRows);
+    default: return generateElegant(doc, heading, branding, c, total, paymentRows, balance, itemRows, breakdown);
   }
 }
 
-interface ItemRow { description: string; qty: string; }
+interface DocumentHeading { title: string; numberLabel: string; number: string; date: string; validUntil: string; }
+interface ItemRow { description: string; qty: string; amount: string; }
+interface PaymentRow { label: string; amount: number; }
+interface BreakdownRow { label: string; amount: number; }
+
+function hasPrices(items: ItemRow[]) {
+  return items.some(item => item.amount);
+}
+
+function priceHeader(items: ItemRow[], th: string) {
+  return hasPrices(items) ? th : '';
+}
 
 function tableRows(items: ItemRow[], borderColor: string) {
+  const showPrices = hasPrices(items);
   return items.map(item => `
     <tr>
       <td style="padding: 10px 0; font-size: 14px; color: #333; border-bottom: 1px solid ${borderColor};">${item.description}</td>
       <td style="padding: 10px 0; font-size: 14px; color: #333; text-align: center; border-bottom: 1px solid ${borderColor};">${item.qty}</td>
+      ${showPrices ? `<td style="padding: 10px 0; font-size: 14px; color: #333; text-align: right; border-bottom: 1px solid ${borderColor};">${item.amount}</td>` : ''}
     </tr>
   `).join('');
 }
 
+// Payment rows are deductions from the total; a negative row (a refund) adds back.
+function deduction(amount: number) {
+  return amount < 0 ? `+ ${formatCurrency(-amount)}` : `- ${formatCurrency(amount)}`;
+}
+
+function signedAmount(amount: number) {
+  return amount < 0 ? `- ${formatCurrency(-amount)}` : formatCurrency(amount);
+}
+
 function wrapHTML(title: string, css: string, body: string) {
   return `<!DOCTYPE html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><style>
 @import url('https://fonts.googleapis.com/css2?family=Playfair+Display:wght@700;900&family=Inter:wght@300;400;500;600;700&family=Poppins:wght@300;400;500;600;700&family=Cormorant+Garamond:wght@400;500;600;700&display=swap');
@@ -59,7 +156,7 @@ ${css}
 </style></head><body>${body}</body></html>`;
 }
 
-function generateElegant(inv: Invoice, b: BrandingSettings, c: InvoiceThemeColors, total: number, advance: number, balance: number, items: ItemRow[]) {
+function generateElegant(inv: BillingDocument, h: DocumentHeading, b: BrandingSettings, c: InvoiceThemeColors, total: number, payments: PaymentRow[], balance: number | null, items: ItemRow[], breakdown: BreakdownRow[]) {
   return wrapHTML('Elegant', `
     body { font-family: 'Inter', sans-serif; background: #fff; color: #333; }
     .page { width: 100%; max-width: 800px; margin: 0 auto; background: #fff; min-height: 1120px; position: relative; }
@@ -110,14 +207,15 @@ function generateElegant(inv: Invoice, b: BrandingSettings, c: InvoiceThemeColor
     <div class="stripe-section"><div class="stripe-brown"></div><div class="stripe-gold"></div></div>
     <div class="header">
       <img class="logo-img" src="${b.logoUri}" alt="Logo" />
-      <div class="inv-title">INVOICE</div>
+      <div class="inv-title">${h.title}</div>
       <div class="biz-box"><div class="biz-name">${b.businessName}</div><div class="biz-sub">${b.businessSub}</div></div>
       <div class="left-dots"><div class="left-dot" style="background:${c.gold};"></div><div class="left-dot" style="background:${c.primary};"></div></div>
       <div class="right-dots"><div class="dot-row"><div class="dot" style="background:#9E9890;"></div><div class="dot" style="background:${c.darkGreen};"></div><div class="dot" style="background:${c.gold};"></div></div><div class="dot-row"><div class="dot" style="background:${c.primary};"></div><div class="dot" style="background:${c.darkGreen};"></div><div class="dot" style="background:${c.primary};"></div></div></div>
     </div>
     <div class="details">
-      <div class="detail-row"><div><span class="d-label">Invoice No &nbsp;&nbsp;: &nbsp;</span><span class="d-value">${inv.invoiceNumber}</span></div></div>
-      <div class="detail-row"><div><span class="d-label">Invoice Date : &nbsp;</span><span class="d-value">${formatDate(inv.invoiceDate)}</span></div></div>
+      <div class="detail-row"><div><span class="d-label">${h.numberLabel} No &nbsp;&nbsp;: &nbsp;</span><span class="d-value">${h.number}</span></div></div>
+      <div class="detail-row"><div><span class="d-label">${h.numberLabel} Date : &nbsp;</span><span class="d-value">${formatDate(h.date)}</span></div></div>
+      ${h.validUntil ? `<div class="detail-row"><div><span class="d-label">Valid Until : &nbsp;</span><span class="d-value">${formatDate(h.validUntil)}</span></div></div>` : ''}
       <div style="display:flex;justify-content:space-between;align-items:flex-start;margin-top:12px;">
         <div><div class="cust-name">${inv.customerNames}</div><div class="event-date">${formatDate(inv.eventDate)}</div><div class="event-loc">${inv.eventLocation}</div></div>
         <div class="phone">${inv.phoneNumber}</div>
@@ -125,21 +223,23 @@ function generateElegant(inv: Invoice, b: BrandingSettings, c: InvoiceThemeColor
     </div>
     <div class="table-section">
       <div class="watermark"><img src="${b.logoUri}" alt="" /></div>
-      <table><thead><tr style="border-bottom:2px solid ${c.darkGreen};"><th style="padding:10px 0;font-size:14px;font-weight:600;color:${c.primary};text-align:left;">Description</th><th style="padding:10px 0;font-size:14px;font-weight:600;color:${c.primary};text-align:center;width:60px;">QTY</th></tr></thead><tbody>${tableRows(items, '#f0ece6')}</tbody></table>
+      <table><thead><tr style="border-bottom:2px solid ${c.darkGreen};"><th style="padding:10px 0;font-size:14px;font-weight:600;color:${c.primary};text-align:left;">Description</th><th style="padding:10px 0;font-size:14px;font-weight:600;color:${c.primary};text-align:center;width:60px;">QTY</th>${priceHeader(items, `<th style="padding:10px 0;font-size:14px;font-weight:600;color:${c.primary};text-align:right;width:110px;">AMOUNT</th>`)}</tr></thead><tbody>${tableRows(items, '#f0ece6')}</tbody></table>
     </div>
     <div class="totals"><div style="border-top:2px solid #e8e4de;padding-top:12px;">
+      ${breakdown.map(r => `<div class="adv-row"><span class="adv-label">${r.label}</span><span class="adv-amount">${signedAmount(r.amount)}</span></div>`).join('')}
       <div class="total-row"><span class="total-label">Total</span><span class="total-amount">${formatCurrency(total)}</span></div>
+      ${balance === null ? '' : `
       <div class="adv-divider"></div>
-      <div class="adv-row"><span class="adv-label">Advance</span><span class="adv-amount">- ${formatCurrency(advance)}</span></div>
+      ${payments.map(p => `<div class="adv-row"><span class="adv-label">${p.label}</span><span class="adv-amount">${deduction(p.amount)}</span></div>`).join('')}
       <div class="adv-divider"></div>
-      <div class="bal-row"><span class="bal-label">Balance</span><span class="bal-amount">${formatCurrency(balance)}</span></div>
+      <div class="bal-row"><span class="bal-label">Balance</span><span class="bal-amount">${formatCurrency(balance)}</span></div>`}
     </div></div>
     <div class="footer"><div class="bank"><span class="bank-title">Bank Details :</span><br><div style="padding-left:45px;margin-top:4px;">${b.bankAccount}<br>${b.bankHolder}<br>${b.bankName}<br>${b.bankBranch}</div></div></div>
     <div class="contact-bar"><span class="contact-label">CONTACT US ;</span><span class="contact-info">${b.contactPhone}</span><span class="contact-info">${b.contactEmail}</span></div>
   </div>`);
 }
 
-function generateModern(inv: Invoice, b: BrandingSettings, c: InvoiceThemeColors, total: number, advance: number, balance: number, items: ItemRow[]) {
+function generateModern(inv: BillingDocument, h: DocumentHeading, b: BrandingSettings, c: InvoiceThemeColors, total: number, payments: PaymentRow[], balance: number | null, items: ItemRow[], breakdown: BreakdownRow[]) {
   return wrapHTML('Modern', `
     body { font-family: 'Poppins', sans-serif; background: #fff; color: #222; }
     .page { width: 100%; max-width: 800px; margin: 0 auto; background: #fff; min-height: 1120px; }
@@ -177,19 +277,21 @@ function generateModern(inv: Invoice, b: BrandingSettings, c: InvoiceThemeColors
         <img class="logo-img" src="${b.logoUri}" alt="Logo" />
         <div><div class="biz-name">${b.businessName}</div><div class="biz-sub">${b.businessSub}</div></div>
       </div>
-      <div class="inv-badge"><div class="inv-title">INVOICE</div><div class="inv-num">#${inv.invoiceNumber} | ${formatDate(inv.invoiceDate)}</div></div>
+      <div class="inv-badge"><div class="inv-title">${h.title}</div><div class="inv-num">#${h.number} | ${formatDate(h.date)}</div>${h.validUntil ? `<div class="inv-num">Valid until ${formatDate(h.validUntil)}</div>` : ''}</div>
     </div>
     <div class="info-grid">
       <div class="info-card"><div class="info-label">Bill To</div><div class="info-value-lg">${inv.customerNames}</div><div class="info-value" style="margin-top:6px;">${inv.phoneNumber}</div></div>
       <div class="info-card"><div class="info-label">Event Details</div><div class="info-value">${formatDate(inv.eventDate)}</div><div class="info-value" style="margin-top:4px;">${inv.eventLocation}</div></div>
     </div>
     <div class="table-section">
-      <table><thead><tr><th style="text-align:left;border-radius:8px 0 0 8px;">Description</th><th style="text-align:center;width:80px;border-radius:0 8px 8px 0;">Qty</th></tr></thead><tbody>${tableRows(items, '#f0f0f0')}</tbody></table>
+      <table><thead><tr><th style="text-align:left;border-radius:8px 0 0 8px;">Description</th><th style="text-align:center;width:80px;${hasPrices(items) ? '' : 'border-radius:0 8px 8px 0;'}">Qty</th>${priceHeader(items, '<th style="text-align:right;width:110px;border-radius:0 8px 8px 0;">Amount</th>')}</tr></thead><tbody>${tableRows(items, '#f0f0f0')}</tbody></table>
     </div>
     <div class="totals"><div class="total-card">
+      ${breakdown.map(r => `<div class="total-row"><span>${r.label}</span><span>${signedAmount(r.amount)}</span></div>`).join('')}
       <div class="total-row"><span>Total</span><span>${formatCurrency(total)}</span></div>
-      <div class="total-row"><span>Advance Paid</span><span>- ${formatCurrency(advance)}</span></div>
-      <div class="total-main"><span>Balance Due</span><span>${formatCurrency(balance)}</span></div>
+      ${balance === null ? '' : `
+      ${payments.map(p => `<div class="total-row"><span>${p.label}</span><span>${deduction(p.amount)}</span></div>`).join('')}
+      <div class="total-main"><span>Balance Due</span><span>${formatCurrency(balance)}</span></div>`}
     </div></div>
     <div class="footer" style="padding-top:20px;">
       <div class="bank-info"><div class="bank-title">Bank Details</div>${b.bankAccount}<br>${b.bankHolder}<br>${b.bankName} - ${b.bankBranch}</div>
@@ -198,7 +300,7 @@ function generateModern(inv: Invoice, b: BrandingSettings, c: InvoiceThemeColors
   </div>`);
 }
 
-function generateMinimal(inv: Invoice, b: BrandingSettings, c: InvoiceThemeColors, total: number, advance: number, balance: number, items: ItemRow[]) {
+function generateMinimal(inv: BillingDocument, h: DocumentHeading, b: BrandingSettings, c: InvoiceThemeColors, total: number, payments: PaymentRow[], balance: number | null, items: ItemRow[], breakdown: BreakdownRow[]) {
   return wrapHTML('Minimal', `
     body { font-family: 'Inter', sans-serif; background: #fff; color: #333; }
     .page { width: 100%; max-width: 800px; margin: 0 auto; background: #fff; min-height: 1120px; padding: 60px 50px; }
@@ -224,18 +326,21 @@ function generateMinimal(inv: Invoice, b: BrandingSettings, c: InvoiceThemeColor
   <div class="page">
     <div class="header">
       <div class="biz-block"><img class="logo-img" src="${b.logoUri}" alt="" /><div><div class="biz-name">${b.businessName}</div><div class="biz-sub">${b.businessSub}</div></div></div>
-      <div><div class="inv-title">INVOICE</div><div class="inv-num">#${inv.invoiceNumber} &middot; ${formatDate(inv.invoiceDate)}</div></div>
+      <div><div class="inv-title">${h.title}</div><div class="inv-num">#${h.number} &middot; ${formatDate(h.date)}</div>${h.validUntil ? `<div class="inv-num">Valid until ${formatDate(h.validUntil)}</div>` : ''}</div>
     </div>
     <div class="sep"></div>
     <div class="info-row">
       <div class="info-col"><div class="info-label">Bill To</div><div class="info-value">${inv.customerNames}<br>${inv.phoneNumber}</div></div>
       <div class="info-col"><div class="info-label">Event</div><div class="info-value">${formatDate(inv.eventDate)}<br>${inv.eventLocation}</div></div>
     </div>
-    <table><thead><tr><th style="text-align:left;">Description</th><th style="text-align:center;width:60px;">Qty</th></tr></thead><tbody>${tableRows(items, '#f5f5f5')}</tbody></table>
+    <table><thead><tr><th style="text-align:left;">Description</th><th style="text-align:center;width:60px;">Qty</th>${priceHeader(items, '<th style="text-align:right;width:110px;">Amount</th>')}</tr></thead><tbody>${tableRows(items, '#f5f5f5')}</tbody></table>
     <div class="totals">
+      ${breakdown.map(r => `<div class="total-line"><span>${r.label}</span><span>${signedAmount(r.amount)}</span></div>`).join('')}
+      ${balance === null ? `
+      <div class="total-main"><span>Total</span><span>${formatCurrency(total)}</span></div>` : `
       <div class="total-line"><span>Total</span><span>${formatCurrency(total)}</span></div>
-      <div class="total-line"><span>Advance</span><span>- ${formatCurrency(advance)}</span></div>
-      <div class="total-main"><span>Balance</span><span>${formatCurrency(balance)}</span></div>
+      ${payments.map(p => `<div class="total-line"><span>${p.label}</span><span>${deduction(p.amount)}</span></div>`).join('')}
+      <div class="total-main"><span>Balance</span><span>${formatCurrency(balance)}</span></div>`}
     </div>
     <div class="footer">
       <div><strong style="color:#888;">Bank Details</strong><br>${b.bankAccount}<br>${b.bankHolder}<br>${b.bankName} - ${b.bankBranch}</div>
@@ -244,7 +349,7 @@ function generateMinimal(inv: Invoice, b: BrandingSettings, c: InvoiceThemeColor
   </div>`);
 }
 
-function generateBold(inv: Invoice, b: BrandingSettings, c: InvoiceThemeColors, total: number, advance: number, balance: number, items: ItemRow[]) {
+function generateBold(inv: BillingDocument, h: DocumentHeading, b: BrandingSettings, c: InvoiceThemeColors, total: number, payments: PaymentRow[], balance: number | null, items: ItemRow[], breakdown: BreakdownRow[]) {
   return wrapHTML('Bold', `
     body { font-family: 'Poppins', sans-serif; background: #fff; color: #222; }
     .page { width: 100%; max-width: 800px; margin: 0 auto; background: #fff; min-height: 1120px; overflow: hidden; }
@@ -276,24 +381,27 @@ function generateBold(inv: Invoice, b: BrandingSettings, c: InvoiceThemeColors,
   <div class="page">
     <div class="hero">
       <div class="hero-left"><img class="logo-img" src="${b.logoUri}" alt="" /><div><div class="biz-name">${b.businessName}</div><div class="biz-sub">${b.businessSub}</div></div></div>
-      <div class="inv-title">INVOICE</div>
+      <div class="inv-title">${h.title}</div>
     </div>
     <div class="gold-strip"></div>
     <div class="info-section">
       <div class="info-block"><div class="info-label">Bill To</div><div class="info-highlight">${inv.customerNames}</div><div class="info-value">${inv.phoneNumber}</div></div>
-      <div class="info-block" style="text-align:right;"><div class="info-label">Invoice</div><div class="info-value">#${inv.invoiceNumber}<br>${formatDate(inv.invoiceDate)}</div></div>
+      <div class="info-block" style="text-align:right;"><div class="info-label">${h.numberLabel}</div><div class="info-value">#${h.number}<br>${formatDate(h.date)}${h.validUntil ? `<br>Valid until ${formatDate(h.validUntil)}` : ''}</div></div>
     </div>
     <div class="meta-row">
       <div class="meta-chip">${formatDate(inv.eventDate)}</div>
       <div class="meta-chip">${inv.eventLocation}</div>
     </div>
     <div class="table-section">
-      <table><thead><tr><th style="text-align:left;">Description</th><th style="text-align:center;width:80px;">Qty</th></tr></thead><tbody>${tableRows(items, '#f0ece6')}</tbody></table>
+      <table><thead><tr><th style="text-align:left;">Description</th><th style="text-align:center;width:80px;">Qty</th>${priceHeader(items, '<th style="text-align:right;width:110px;">Amount</th>')}</tr></thead><tbody>${tableRows(items, '#f0ece6')}</tbody></table>
     </div>
     <div class="totals">
+      ${breakdown.map(r => `<div class="t-row"><span>${r.label}</span><span>${signedAmount(r.amount)}</span></div>`).join('')}
+      ${balance === null ? `
+      <div class="t-main"><span>Total</span><span>${formatCurrency(total)}</span></div>` : `
       <div class="t-row"><span>Total</span><span>${formatCurrency(total)}</span></div>
-      <div class="t-row"><span>Advance Paid</span><span>- ${formatCurrency(advance)}</span></div>
-      <div class="t-main"><span>Balance Due</span><span>${formatCurrency(balance)}</span></div>
+      ${payments.map(p => `<div class="t-row"><span>${p.label}</span><span>${deduction(p.amount)}</span></div>`).join('')}
+      <div class="t-main"><span>Balance Due</span><span>${formatCurrency(balance)}</span></div>`}
     </div>
     <div class="footer">
       <div><strong>Bank Details</strong><br>${b.bankAccount}<br>${b.bankHolder}<br>${b.bankName} - ${b.bankBranch}</div>
@@ -303,7 +411,7 @@ function generateBold(inv: Invoice, b: BrandingSettings, c: InvoiceThemeColors,
   </div>`);
 }
 
-function generateClassic(inv: Invoice, b: BrandingSettings, c: InvoiceThemeColors, total: number, advance: number, balance: number, items: ItemRow[]) {
+function generateClassic(inv: BillingDocument, h: DocumentHeading, b: BrandingSettings, c: InvoiceThemeColors, total: number, payments: PaymentRow[], balance: number | null, items: ItemRow[], breakdown: BreakdownRow[]) {
   return wrapHTML('Classic', `
     body { font-family: 'Cormorant Garamond', 'Georgia', serif; background: #fff; color: #333; }
     .page { width: 100%; max-width: 800px; margin: 0 auto; background: #fff; min-height: 1120px; border: 2px solid ${c.primary}; position: relative; }
@@ -340,7 +448,7 @@ function generateClassic(inv: Invoice, b: BrandingSettings, c: InvoiceThemeColor
       <img class="logo-img" src="${b.logoUri}" alt="" />
       <div class="biz-name">${b.businessName}</div>
       <div class="biz-sub">${b.businessSub}</div>
-      <div class="inv-title">Invoice</div>
+      <div class="inv-title">${h.title}</div>
     </div>
     <div class="orn-line">&bull; &bull; &bull;</div>
     <div class="details">
@@ -350,20 +458,25 @@ function generateClassic(inv: Invoice, b: BrandingSettings, c: InvoiceThemeColor
         <div class="d-value" style="margin-top:4px;">${inv.phoneNumber}</div>
       </div>
       <div class="detail-col" style="text-align:right;">
-        <div class="d-label">Invoice No</div><div class="d-value">#${inv.invoiceNumber}</div>
-        <div class="d-label">Date</div><div class="d-value">${formatDate(inv.invoiceDate)}</div>
+        <div class="d-label">${h.numberLabel} No</div><div class="d-value">#${h.number}</div>
+        <div class="d-label">Date</div><div class="d-value">${formatDate(h.date)}</div>
+        ${h.validUntil ? `<div class="d-label">Valid Until</div><div class="d-value">${formatDate(h.validUntil)}</div>` : ''}
         <div class="d-label">Event</div><div class="d-value">${formatDate(inv.eventDate)}<br><em style="color:#888;">${inv.eventLocation}</em></div>
       </div>
     </div>
     <div class="table-section">
-      <table><thead><tr><th style="text-align:left;">Description</th><th style="text-align:center;width:60px;">Qty</th></tr></thead><tbody>${tableRows(items, '#f0ece6')}</tbody></table>
+      <table><thead><tr><th style="text-align:left;">Description</th><th style="text-align:center;width:60px;">Qty</th>${priceHeader(items, '<th style="text-align:right;width:110px;">Amount</th>')}</tr></thead><tbody>${tableRows(items, '#f0ece6')}</tbody></table>
     </div>
     <div class="totals">
+      ${breakdown.map(r => `<div class="t-row"><span>${r.label}</span><span>${signedAmount(r.amount)}</span></div>`).join('')}
+      ${balance === null ? `
+      <div class="t-sep"></div>
+      <div class="t-main"><span>Total</span><span>${formatCurrency(total)}</span></div>` : `
       <div class="t-row"><span>Total</span><span>${formatCurrency(total)}</span></div>
       <div class="t-sep"></div>
-      <div class="t-row"><span>Advance</span><span>- ${formatCurrency(advance)}</span></div>
+      ${payments.map(p => `<div class="t-row"><span>${p.label}</span><span>${deduction(p.amount)}</span></div>`).join('')}
       <div class="t-sep"></div>
-      <div class="t-main"><span>Balance</span><span>${formatCurrency(balance)}</span></div>
+      <div class="t-main"><span>Balance</span><span>${formatCurrency(balance)}</span></div>`}
     </div>
     <div class="footer">
       <div><strong>Bank Details</strong><br>${b.bankAccount}<br>${b.bankHolder}<br>${b.bankName} - ${b.bankBranch}</div>
@@ -372,3 +485,162 @@ function generateClassic(inv: Invoice, b: BrandingSettings, c: InvoiceThemeColor
     <div class="bottom-orn">&bull; &bull; &bull;</div>
   </div>`);
 }
+
+export function generateReceiptHTML(
+  invoice: Invoice,
+  payment: InvoicePayment,
+  branding: BrandingSettings = DEFAULT_BRANDING,
+  themeColors: InvoiceThemeColors = DEFAULT_COLORS,
+  style: InvoiceStyleId = 'elegant'
+): string {
+  return generateSlipHTML({
+    title: 'RECEIPT',
+    number: payment.receiptNumber,
+    date: payment.date,
+    amountLabel: 'Amount Received',
+    amount: parseFloat(payment.amount) || 0,
+    rows: [
+      { label: 'Received From', value: `${invoice.customerNames}${invoice.phoneNumber ? `<br>${invoice.phoneNumber}` : ''}` },
+      { label: 'Payment Date', value: formatDate(payment.date) },
+      { label: 'Method', value: `${payment.method}${payment.reference ? ` (${payment.reference})` : ''}` },
+      { label: 'For Invoice', value: invoiceReference(invoice) },
+      { label: 'Invoice Total', value: formatCurrency(getTotal(invoice)) },
+    ],
+    balance: getBalanceAfterPayment(invoice, payment.id),
+  }, branding, themeColors, style);
+}
+
+export function generateCreditNoteHTML(
+  invoice: Invoice,
+  creditNote: CreditNote,
+  branding: BrandingSettings = DEFAULT_BRANDING,
+  themeColors: InvoiceThemeColors = DEFAULT_COLORS,
+  style: InvoiceStyleId = 'elegant'
+): string {
+  const rows: SlipRow[] = [
+    { label: 'Issued To', value: `${invoice.customerNames}${invoice.phoneNumber ? `<br>${invoice.phoneNumber}` : ''}` },
+    { label: 'Date', value: formatDate(creditNote.date) },
+    { label: 'Against Invoice', value: invoiceReference(invoice) },
+  ];
+  if (creditNote.reason) rows.push({ label: 'Reason', value: creditNote.reason });
+  rows.push({ label: 'Invoice Total', value: formatCurrency(getTotal(invoice)) });
+  const refund = parseFloat(creditNote.refundAmount) || 0;
+  if (refund > 0) {
+    rows.push({
+      label: 'Refunded',
+      value: `${formatCurrency(refund)}<br>${creditNote.method}${creditNote.reference ? ` (${creditNote.reference})` : ''}`,
+    });
+  }
+  return generateSlipHTML({
+    title: 'CREDIT NOTE',
+    number: creditNote.creditNoteNumber,
+    date: creditNote.date,
+    amountLabel: 'Amount Credited',
+    amount: parseFloat(creditNote.amount) || 0,
+    rows,
+    balance: getInvoiceBalance(invoice),
+  }, branding, themeColors, style);
+}
+
+interface SlipRow { label: string; value: string; }
+interface Slip {
+  title: string;
+  number: string;
+  date: string;
+  amountLabel: string;
+  amount: number;
+  rows: SlipRow[];
+  balance: number;
+}
+
+function invoiceReference(invoice: Invoice) {
+  return `#${invoice.invoiceNumber}${invoice.eventDate ? ` &middot; ${formatDate(invoice.eventDate)}` : ''}${invoice.eventLocation ? `<br>${invoice.eventLocation}` : ''}`;
+}
+
+function generateSlipHTML(slip: Slip, b: BrandingSettings, c: InvoiceThemeColors, style: InvoiceStyleId): string {
+  return wrapHTML(slip.title, `
+    body { font-family: ${RECEIPT_FONTS[style]}; background: #fff; color: #333; }
+    .page { width: 100%; max-width: 800px; margin: 0 auto; background: #fff; padding-bottom: 40px; }
+    .hero { display: flex; justify-content: space-between; align-items: center; padding: 40px; }
+    .biz { display: flex; align-items: center; gap: 14px; }
+    .logo-img { width: 56px; height: 56px; border-radius: 50%; object-fit: cover; }
+    .biz-name { font-size: 15px; font-weight: 600; letter-spacing: 2px; text-transform: uppercase; color: ${c.primary}; }
+    .biz-sub { font-size: 10px; letter-spacing: 3px; text-transform: uppercase; color: ${c.gold}; }
+    .rc-title { color: ${c.primary}; }
+    .rc-num { font-size: 13px; color: #888; margin-top: 4px; text-align: right; }
+    .amount-box { margin: 10px 40px 30px; padding: 28px; border-radius: 10px; background: ${c.primary}08; border: 1px solid ${c.gold}; text-align: center; }
+    .amount-label { font-size: 11px; letter-spacing: 3px; text-transform: uppercase; color: #888; }
+    .amount { font-size: 40px; font-weight: 700; color: ${c.darkGreen}; margin-top: 8px; }
+    .rows { padding: 0 40px; }
+    .row { display: flex; justify-content: space-between; padding: 12px 0; border-bottom: 1px solid #f0ece6; font-size: 14px; }
+    .row-label { color: #888; }
+    .row-value { color: #333; font-weight: 500; text-align: right; }
+    .balance-row { display: flex; justify-content: space-between; padding: 18px 0 0; font-size: 18px; font-weight: 700; color: ${c.darkGreen}; }
+    .footer { margin: 50px 40px 0; padding-top: 20px; border-top: 1px solid #eee; display: flex; justify-content: space-between; font-size: 11px; color: #999; line-height: 1.8; }
+    ${receiptStyleCss(style, c)}
+  `, `
+  <div class="page">
+    <div class="hero">
+      <div class="biz"><img class="logo-img" src="${b.logoUri}" alt="" /><div><div class="biz-name">${b.businessName}</div><div class="biz-sub">${b.businessSub}</div></div></div>
+      <div><div class="rc-title">${slip.title}</div><div class="rc-num">#${slip.number} &middot; ${formatDate(slip.date)}</div></div>
+    </div>
+    <div class="accent"></div>
+    <div class="amount-box">
+      <div class="amount-label">${slip.amountLabel}</div>
+      <div class="amount">${formatCurrency(slip.amount)}</div>
+    </div>
+    <div class="rows">
+      ${slip.rows.map(r => `<div class="row"><span class="row-label">${r.label}</span><span class="row-value">${r.value}</span></div>`).join('')}
+      <div class="balance-row"><span>Remaining Balance</span><span>${formatCurrency(Math.max(0, slip.balance))}</span></div>
+    </div>
+    <div class="footer">
+      <div><strong style="color:#888;">Bank Details</strong><br>${b.bankAccount}<br>${b.bankHolder}<br>${b.bankName} - ${b.bankBranch}</div>
+      <div style="text-align:right;"><strong style="color:#888;">Contact</strong><br>${b.contactPhone}<br>${b.contactEmail}</div>
+    </div>
+  </div>`);
+}
+
+const RECEIPT_FONTS: Record<InvoiceStyleId, string> = {
+  elegant: "'Inter', sans-serif",
+  modern: "'Poppins', sans-serif",
+  minimal: "'Inter', sans-serif",
+  bold: "'Poppins', sans-serif",
+  classic: "'Cormorant Garamond', serif",
+};
+
+// Receipts and credit notes share one layout; each style only restyles the
+// heading and accents so the slip matches the invoice it belongs to.
+function receiptStyleCss(style: InvoiceStyleId, c: InvoiceThemeColors) {
+  switch (style) {
+    case 'modern': return `
+      .page { border-top: 8px solid ${c.primary}; }
+      .rc-title { font-size: 24px; font-weight: 700; letter-spacing: 2px; background: ${c.primary}; color: #fff; padding: 10px 22px; border-radius: 8px; text-align: center; }
+      .amount-box { border: none; background: #f7f7f7; }
+    `;
+    case 'minimal': return `
+      .rc-title { font-size: 36px; font-weight: 300; letter-spacing: 8px; text-align: right; }
+      .accent { height: 1px; background: ${c.gold}; margin: 0 40px 20px; }
+      .amount-box { border: none; border-radius: 0; background: none; border-bottom: 1px solid #eee; }
+      .amount { font-weight: 300; }
+    `;
+    case 'bold': return `
+      .hero { background: ${c.primary}; }
+      .biz-name { color: #fff; }
+      .rc-title { font-size: 44px; font-weight: 700; letter-spacing: 6px; color: ${c.gold}; }
+      .rc-num { color: rgba(255,255,255,0.7); }
+      .accent { height: 8px; background: ${c.gold}; margin-bottom: 30px; }
+    `;
+    case 'classic': return `
+      .hero { flex-direction: column; gap: 16px; text-align: center; border-bottom: 3px double ${c.gold}; margin: 0 40px 30px; padding: 40px 0 24px; }
+      .biz { flex-direction: column; gap: 8px; }
+      .rc-title { font-size: 18px; font-weight: 600; letter-spacing: 10px; color: ${c.darkGreen}; }
+      .rc-num { text-align: center; }
+      .amount-box { border-radius: 0; background: none; border: 1px solid ${c.gold}; }
+    `;
+    case 'elegant':
+    default: return `
+      .rc-title { font-family: 'Playfair Display', serif; font-size: 48px; font-weight: 900; font-style: italic; letter-spacing: 4px; }
+      .accent { height: 4px; width: 120px; background: ${c.gold}; margin: 0 40px 24px; border-radius: 2px; }
+    `;
+  }
+}
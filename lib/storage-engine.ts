@@ -0,0 +1,393 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform } from 'react-native';
+import * as SQLite from 'expo-sqlite';
+
+export type CollectionKey =
+  | 'ns_invoices'
+  | 'ns_shoots'
+  | 'ns_upcoming_shoots'
+  | 'ns_expenses'
+  | 'ns_clients'
+  | 'ns_packages'
+  | 'ns_quotes'
+  | 'ns_trash'
+  | 'ns_history';
+
+interface CollectionConfig {
+  table: string;
+  dateField: string;
+  clientField: string | null;
+  // Fields findByField can look records up by; SQLite indexes each of them.
+  lookupFields?: string[];
+}
+
+export const COLLECTIONS: Record<CollectionKey, CollectionConfig> = {
+  ns_invoices: { table: 'invoices', dateField: 'eventDate', clientField: 'customerNames' },
+  ns_shoots: { table: 'shoots', dateField: 'shootDate', clientField: 'clientName' },
+  ns_upcoming_shoots: { table: 'upcoming_shoots', dateField: 'shootDate', clientField: 'clientName' },
+  ns_expenses: { table: 'expenses', dateField: 'date', clientField: null },
+  ns_clients: { table: 'clients', dateField: 'createdAt', clientField: 'name' },
+  ns_packages: { table: 'packages', dateField: 'createdAt', clientField: null },
+  ns_quotes: { table: 'quotes', dateField: 'eventDate', clientField: 'customerNames' },
+  ns_trash: { table: 'trash', dateField: 'deletedAt', clientField: null },
+  ns_history: { table: 'history', dateField: 'createdAt', clientField: null, lookupFields: ['recordId'] },
+};
+
+const COLLECTION_KEYS = Object.keys(COLLECTIONS) as CollectionKey[];
+
+export interface StoredRecord {
+  id: string;
+  [field: string]: any;
+}
+
+export interface StorageTransaction {
+  getAll(collection: CollectionKey): Promise<any[]>;
+  get(collection: CollectionKey, id: string): Promise<any | null>;
+  insert(collection: CollectionKey, record: StoredRecord): Promise<void>;
+  // Replaces a stored record; false, with nothing written, when its id is not
+  // stored. Both engines behave the same way, so neither adds the record.
+  update(collection: CollectionKey, record: StoredRecord): Promise<boolean>;
+  remove(collection: CollectionKey, id: string): Promise<boolean>;
+}
+
+export interface StorageEngine extends StorageTransaction {
+  name: 'asyncstorage' | 'sqlite';
+  init(): Promise<void>;
+  findByDateRange(collection: CollectionKey, from: string, to: string): Promise<any[]>;
+  findByClient(collection: CollectionKey, client: string): Promise<any[]>;
+  // Exact match on one of the collection's lookupFields.
+  findByField(collection: CollectionKey, field: string, value: string): Promise<any[]>;
+  replaceAll(collection: CollectionKey, records: StoredRecord[]): Promise<void>;
+  transaction<T>(collections: CollectionKey[], work: (tx: StorageTransaction) => Promise<T>): Promise<T>;
+  getMeta(key: string): Promise<string | null>;
+  setMeta(key: string, value: string): Promise<void>;
+}
+
+function dateKey(value: unknown): string {
+  return typeof value === 'string' ? value.split('T')[0] : '';
+}
+
+function inDateRange(record: StoredRecord, field: string, from: string, to: string): boolean {
+  const d = dateKey(record[field]);
+  return !!d && d >= from && d <= to;
+}
+
+function matchesClient(record: StoredRecord, field: string | null, client: string): boolean {
+  if (!field) return false;
+  return String(record[field] || '').toLowerCase().includes(client.toLowerCase().trim());
+}
+
+function lookupField(collection: CollectionKey, field: string): string {
+  if (!COLLECTIONS[collection].lookupFields?.includes(field)) {
+    throw new Error(`${collection} cannot be looked up by ${field}`);
+  }
+  return field;
+}
+
+async function readArray(collection: CollectionKey): Promise<StoredRecord[]> {
+  const data = await AsyncStorage.getItem(collection);
+  return data ? JSON.parse(data) : [];
+}
+
+async function writeArray(collection: CollectionKey, records: StoredRecord[]): Promise<void> {
+  await AsyncStorage.setItem(collection, JSON.stringify(records));
+}
+
+export const asyncStorageEngine: StorageEngine = {
+  name: 'asyncstorage',
+
+  async init() {},
+
+  getAll: readArray,
+
+  async get(collection, id) {
+    const records = await readArray(collection);
+    return records.find(r => r.id === id) || null;
+  },
+
+  async findByDateRange(collection, from, to) {
+    const { dateField } = COLLECTIONS[collection];
+    return (await readArray(collection)).filter(r => inDateRange(r, dateField, from, to));
+  },
+
+  async findByClient(collection, client) {
+    const { clientField } = COLLECTIONS[collection];
+    return (await readArray(collection)).filter(r => matchesClient(r, clientField, client));
+  },
+
+  async findByField(collection, field, value) {
+    lookupField(collection, field);
+    return (await readArray(collection)).filter(r => r[field] === value);
+  },
+
+  async insert(collection, record) {
+    const records = await readArray(collection);
+    records.push(record);
+    await writeArray(collection, records);
+  },
+
+  async update(collection, record) {
+    const records = await readArray(collection);
+    const index = records.findIndex(r => r.id === record.id);
+    if (index === -1) return false;
+    records[index] = record;
+    await writeArray(collection, records);
+    return true;
+  },
+
+  async remove(collection, id) {
+    const records = await readArray(collection);
+    const filtered = records.filter(r => r.id !== id);
+    if (filtered.length === records.length) return false;
+    await writeArray(collection, filtered);
+    return true;
+  },
+
+  replaceAll: writeArray,
+
+  async transaction<T>(collections: CollectionKey[], work: (tx: StorageTransaction) => Promise<T>): Promise<T> {
+    const staged = new Map<CollectionKey, StoredRecord[]>();
+    for (const collection of collections) {
+      staged.set(collection, await readArray(collection));
+    }
+    const records = (collection: CollectionKey) => {
+      const list = staged.get(collection);
+      if (!list) throw new Error(`${collection} is not part of this transaction`);
+      return list;
+    };
+    const tx: StorageTransaction = {
+      async getAll(collection) {
+        return [...records(collection)];
+      },
+      async get(collection, id) {
+        return records(collection).find(r => r.id === id) || null;
+      },
+      async insert(collection, record) {
+        records(collection).push(record);
+      },
+      async update(collection, record) {
+        const list = records(collection);
+        const index = list.findIndex(r => r.id === record.id);
+        if (index === -1) return false;
+        list[index] = record;
+        return true;
+      },
+      async remove(collection, id) {
+        const list = records(collection);
+        const index = list.findIndex(r => r.id === id);
+        if (index === -1) return false;
+        list.splice(index, 1);
+        return true;
+      },
+    };
+    const result = await work(tx);
+    await AsyncStorage.multiSet([...staged].map(([collection, list]) => [collection, JSON.stringify(list)]));
+    return result;
+  },
+
+  getMeta: key => AsyncStorage.getItem(key),
+
+  setMeta: (key, value) => AsyncStorage.setItem(key, value),
+};
+
+export const SCHEMA_VERSION_META_KEY = 'ns_schema_version';
+
+const DATABASE_NAME = 'ns_photography.db';
+const IMPORTED_META_KEY = 'asyncstorage_imported';
+
+let database: SQLite.SQLiteDatabase | null = null;
+
+function db(): SQLite.SQLiteDatabase {
+  if (!database) throw new Error('SQLite storage used before init()');
+  return database;
+}
+
+// There is a single connection, so a BEGIN while another transaction is open
+// fails and a ROLLBACK would undo the other caller's writes as well. Every
+// write on it therefore waits its turn in this queue.
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function serialized<T>(task: () => Promise<T>): Promise<T> {
+  const run = writeQueue.then(task);
+  writeQueue = run.catch(() => {});
+  return run;
+}
+
+function inTransaction(task: () => Promise<void>): Promise<void> {
+  return serialized(() => db().withTransactionAsync(task));
+}
+
+function rowValues(collection: CollectionKey, record: StoredRecord) {
+  const { dateField, clientField } = COLLECTIONS[collection];
+  return [
+    record.id,
+    dateKey(record[dateField]),
+    clientField ? String(record[clientField] || '').toLowerCase() : '',
+    record.createdAt || '',
+    JSON.stringify(record),
+  ];
+}
+
+async function upsertRow(collection: CollectionKey, record: StoredRecord): Promise<void> {
+  const { table } = COLLECTIONS[collection];
+  await db().runAsync(
+    `INSERT OR REPLACE INTO ${table} (id, date, client, created_at, data) VALUES (?, ?, ?, ?, ?)`,
+    rowValues(collection, record)
+  );
+}
+
+async function updateRow(collection: CollectionKey, record: StoredRecord): Promise<boolean> {
+  const { table } = COLLECTIONS[collection];
+  const [id, ...fields] = rowValues(collection, record);
+  const result = await db().runAsync(
+    `UPDATE ${table} SET date = ?, client = ?, created_at = ?, data = ? WHERE id = ?`,
+    [...fields, id]
+  );
+  return result.changes > 0;
+}
+
+function parseRows(rows: { data: string }[]): any[] {
+  return rows.map(row => JSON.parse(row.data));
+}
+
+async function selectAll(collection: CollectionKey): Promise<any[]> {
+  const { table } = COLLECTIONS[collection];
+  return parseRows(await db().getAllAsync<{ data: string }>(`SELECT data FROM ${table}`));
+}
+
+async function selectOne(collection: CollectionKey, id: string): Promise<any | null> {
+  const { table } = COLLECTIONS[collection];
+  const row = await db().getFirstAsync<{ data: string }>(`SELECT data FROM ${table} WHERE id = ?`, [id]);
+  return row ? JSON.parse(row.data) : null;
+}
+
+async function deleteRow(collection: CollectionKey, id: string): Promise<boolean> {
+  const { table } = COLLECTIONS[collection];
+  const result = await db().runAsync(`DELETE FROM ${table} WHERE id = ?`, [id]);
+  return result.changes > 0;
+}
+
+async function writeMeta(key: string, value: string): Promise<void> {
+  await db().runAsync('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)', [key, value]);
+}
+
+// Handed to transaction work, which already holds the queue: going through
+// sqliteEngine there would wait on itself.
+const sqliteTransaction: StorageTransaction = {
+  getAll: selectAll,
+  get: selectOne,
+  insert: upsertRow,
+  update: updateRow,
+  remove: deleteRow,
+};
+
+async function importFromAsyncStorage(): Promise<void> {
+  const imported = await sqliteEngine.getMeta(IMPORTED_META_KEY);
+  if (imported) return;
+  await inTransaction(async () => {
+    for (const collection of COLLECTION_KEYS) {
+      for (const record of await readArray(collection)) {
+        await upsertRow(collection, record);
+      }
+    }
+    const version = await AsyncStorage.getItem(SCHEMA_VERSION_META_KEY);
+    if (version) await writeMeta(SCHEMA_VERSION_META_KEY, version);
+    await writeMeta(IMPORTED_META_KEY, new Date().toISOString());
+  });
+}
+
+export const sqliteEngine: StorageEngine = {
+  name: 'sqlite',
+
+  async init() {
+    if (database) return;
+    database = await SQLite.openDatabaseAsync(DATABASE_NAME);
+    const tables = COLLECTION_KEYS.map(key => {
+      const { table, lookupFields = [] } = COLLECTIONS[key];
+      const lookups = lookupFields.map(field =>
+        `CREATE INDEX IF NOT EXISTS idx_${table}_${field} ON ${table} (json_extract(data, '$.${field}'));`
+      ).join('\n');
+      return `
+        CREATE TABLE IF NOT EXISTS ${table} (
+          id TEXT PRIMARY KEY NOT NULL,
+          date TEXT NOT NULL DEFAULT '',
+          client TEXT NOT NULL DEFAULT '',
+          created_at TEXT NOT NULL DEFAULT '',
+          data TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_${table}_date ON ${table} (date);
+        CREATE INDEX IF NOT EXISTS idx_${table}_client ON ${table} (client);
+        ${lookups}`;
+    }).join('\n');
+    await database.execAsync(`
+      PRAGMA journal_mode = WAL;
+      CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY NOT NULL, value TEXT NOT NULL);
+      ${tables}
+    `);
+    await importFromAsyncStorage();
+  },
+
+  getAll: selectAll,
+
+  get: selectOne,
+
+  async findByDateRange(collection, from, to) {
+    const { table } = COLLECTIONS[collection];
+    return parseRows(await db().getAllAsync<{ data: string }>(
+      `SELECT data FROM ${table} WHERE date != '' AND date BETWEEN ? AND ? ORDER BY date`,
+      [from, to]
+    ));
+  },
+
+  async findByClient(collection, client) {
+    const { table, clientField } = COLLECTIONS[collection];
+    if (!clientField) return [];
+    return parseRows(await db().getAllAsync<{ data: string }>(
+      `SELECT data FROM ${table} WHERE client LIKE ? ORDER BY date`,
+      [`%${client.toLowerCase().trim()}%`]
+    ));
+  },
+
+  // The path is written into the SQL, not bound, so the expression matches
+  // the index created in init().
+  async findByField(collection, field, value) {
+    const { table } = COLLECTIONS[collection];
+    return parseRows(await db().getAllAsync<{ data: string }>(
+      `SELECT data FROM ${table} WHERE json_extract(data, '$.${lookupField(collection, field)}') = ? ORDER BY created_at`,
+      [value]
+    ));
+  },
+
+  insert: (collection, record) => serialized(() => upsertRow(collection, record)),
+
+  update: (collection, record) => serialized(() => updateRow(collection, record)),
+
+  remove: (collection, id) => serialized(() => deleteRow(collection, id)),
+
+  async replaceAll(collection, records) {
+    const { table } = COLLECTIONS[collection];
+    await inTransaction(async () => {
+      await db().runAsync(`DELETE FROM ${table}`);
+      for (const record of records) {
+        await upsertRow(collection, record);
+      }
+    });
+  },
+
+  async transaction<T>(_collections: CollectionKey[], work: (tx: StorageTransaction) => Promise<T>): Promise<T> {
+    let result: T | undefined;
+    await inTransaction(async () => {
+      result = await work(sqliteTransaction);
+    });
+    return result as T;
+  },
+
+  async getMeta(key) {
+    const row = await db().getFirstAsync<{ value: string }>('SELECT value FROM meta WHERE key = ?', [key]);
+    return row ? row.value : null;
+  },
+
+  setMeta: (key, value) => serialized(() => writeMeta(key, value)),
+};
+
+export const storageEngine: StorageEngine = Platform.OS === 'web' ? asyncStorageEngine : sqliteEngine;
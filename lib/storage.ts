@@ -1,22 +1,151 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  StorageEngine,
+  StorageTransaction,
+  CollectionKey,
+  StoredRecord,
+  storageEngine,
+  SCHEMA_VERSION_META_KEY,
+} from './storage-engine';
+
+export type { CollectionKey, StorageTransaction } from './storage-engine';
 
 export interface InvoiceItem {
   id: string;
   description: string;
   quantity: string;
+  unitPrice: string;
 }
 
-export interface Invoice {
+export type PriceMode = 'itemized' | 'manual';
+
+export type AdjustmentKind = 'discount' | 'surcharge' | 'tax';
+
+export const ADJUSTMENT_KINDS: AdjustmentKind[] = ['discount', 'surcharge', 'tax'];
+
+export const ADJUSTMENT_KIND_LABELS: Record<AdjustmentKind, string> = {
+  discount: 'Discount',
+  surcharge: 'Service Charge',
+  tax: 'Tax',
+};
+
+export type AdjustmentMode = 'percent' | 'fixed';
+
+export interface InvoiceAdjustment {
   id: string;
-  invoiceNumber: string;
-  invoiceDate: string;
+  kind: AdjustmentKind;
+  label: string;
+  mode: AdjustmentMode;
+  value: string;
+}
+
+export interface AppliedAdjustment {
+  adjustment: InvoiceAdjustment;
+  amount: number;
+}
+
+export type PaymentMethod = 'Cash' | 'Bank Transfer' | 'Card';
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['Cash', 'Bank Transfer', 'Card'];
+
+export interface InvoicePayment {
+  id: string;
+  amount: string;
+  date: string;
+  method: PaymentMethod;
+  reference: string;
+  receiptNumber: string;
+}
+
+// Part of an invoice written off after the fact, e.g. for a cancelled or
+// postponed booking. The refund is the share of it paid back to the client.
+export interface CreditNote {
+  id: string;
+  creditNoteNumber: string;
+  date: string;
+  reason: string;
+  amount: string;
+  refundAmount: string;
+  method: PaymentMethod;
+  reference: string;
+}
+
+export type InvoiceStatus = 'draft' | 'sent' | 'partially_paid' | 'paid' | 'overdue' | 'cancelled';
+
+export const INVOICE_STATUSES: InvoiceStatus[] = ['draft', 'sent', 'partially_paid', 'paid', 'overdue', 'cancelled'];
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  partially_paid: 'Partially Paid',
+  paid: 'Paid',
+  overdue: 'Overdue',
+  cancelled: 'Cancelled',
+};
+
+// The customer, event and pricing fields shared by invoices and quotations,
+// so both can use the same editor and PDF templates.
+export interface BillingDocument {
+  clientId: string;
   customerNames: string;
   eventDate: string;
   eventLocation: string;
   phoneNumber: string;
   items: InvoiceItem[];
+  priceMode: PriceMode;
   fullPrice: string;
-  advancePayment: string;
+  adjustments: InvoiceAdjustment[];
+}
+
+export interface Invoice extends BillingDocument {
+  id: string;
+  invoiceNumber: string;
+  invoiceDate: string;
+  dueDate: string;
+  status: InvoiceStatus;
+  payments: InvoicePayment[];
+  creditNotes: CreditNote[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Pattern tokens: {PREFIX}, {YYYY}, {YY}, {MM} and {SEQ}, the counter padded
+// to `padding` digits. The default reproduces the original bare 0001 numbers.
+export interface InvoiceNumbering {
+  prefix: string;
+  pattern: string;
+  padding: number;
+  resetYearly: boolean;
+}
+
+export const DEFAULT_INVOICE_NUMBERING: InvoiceNumbering = {
+  prefix: '',
+  pattern: '{SEQ}',
+  padding: 4,
+  resetYearly: false,
+};
+
+export const INVOICE_NUMBER_TOKENS = ['{PREFIX}', '{YYYY}', '{YY}', '{MM}', '{SEQ}'];
+
+export type QuoteStatus = 'draft' | 'sent' | 'accepted' | 'declined' | 'expired';
+
+export const QUOTE_STATUSES: QuoteStatus[] = ['draft', 'sent', 'accepted', 'declined', 'expired'];
+
+export const QUOTE_STATUS_LABELS: Record<QuoteStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  accepted: 'Accepted',
+  declined: 'Declined',
+  expired: 'Expired',
+};
+
+export interface Quote extends BillingDocument {
+  id: string;
+  quoteNumber: string;
+  quoteDate: string;
+  validUntil: string;
+  status: QuoteStatus;
+  invoiceId: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -27,6 +156,7 @@ export const SHOOT_TYPES: ShootType[] = ['Bridal', 'Wedding', 'Birthday', 'Pre-s
 
 export interface ShootEntry {
   id: string;
+  clientId: string;
   clientName: string;
   shootDate: string;
   shootTime: string;
@@ -43,16 +173,17 @@ export interface ShootEntry {
 }
 
 export const DEFAULT_ITEMS: Omit<InvoiceItem, 'id'>[] = [
-  { description: 'Wedding Day Photoshoot', quantity: '1' },
-  { description: 'Function Coverage', quantity: '1' },
-  { description: '16x24 Framed Enlargement', quantity: '2' },
-  { description: 'Thank card', quantity: '100' },
-  { description: '12x30 Magazine Album', quantity: '1' },
-  { description: 'Pen Drive', quantity: '---' },
+  { description: 'Wedding Day Photoshoot', quantity: '1', unitPrice: '' },
+  { description: 'Function Coverage', quantity: '1', unitPrice: '' },
+  { description: '16x24 Framed Enlargement', quantity: '2', unitPrice: '' },
+  { description: 'Thank card', quantity: '100', unitPrice: '' },
+  { description: '12x30 Magazine Album', quantity: '1', unitPrice: '' },
+  { description: 'Pen Drive', quantity: '---', unitPrice: '' },
 ];
 
 export interface UpcomingShoot {
   id: string;
+  clientId: string;
   clientName: string;
   shootDate: string;
   shootTime: string;
@@ -69,6 +200,40 @@ export interface UpcomingShoot {
   updatedAt: string;
 }
 
+export interface Client {
+  id: string;
+  name: string;
+  phones: string[];
+  email: string;
+  address: string;
+  notes: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ClientHistoryEntry =
+  | { kind: 'invoice'; date: string; record: Invoice }
+  | { kind: 'shoot'; date: string; record: ShootEntry }
+  | { kind: 'upcoming'; date: string; record: UpcomingShoot };
+
+export interface ClientHistory {
+  client: Client;
+  entries: ClientHistoryEntry[];
+  lifetimeRevenue: number;
+  totalPaid: number;
+  owed: number;
+}
+
+export interface InvoicePackage {
+  id: string;
+  name: string;
+  shootType: ShootType;
+  items: InvoiceItem[];
+  price: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface Expense {
   id: string;
   description: string;
@@ -77,11 +242,51 @@ export interface Expense {
   createdAt: string;
 }
 
-const INVOICES_KEY = 'ns_invoices';
-const COUNTER_KEY = 'ns_invoice_counter';
-const SHOOTS_KEY = 'ns_shoots';
-const UPCOMING_KEY = 'ns_upcoming_shoots';
-const EXPENSES_KEY = 'ns_expenses';
+// A deleted record, kept as it was so it can be put back unchanged until it
+// is purged after the retention period.
+export interface TrashEntry {
+  id: string;
+  collection: CollectionKey;
+  record: StoredRecord;
+  deletedAt: string;
+}
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+// One saved version of an invoice or shoot. `snapshot` is the whole record
+// after the change; the version before it is the snapshot with each change's
+// `from` value put back.
+export interface HistoryEntry {
+  id: string;
+  collection: CollectionKey;
+  recordId: string;
+  action: 'created' | 'updated';
+  changes: FieldChange[];
+  snapshot: StoredRecord;
+  createdAt: string;
+}
+
+const INVOICES_KEY: CollectionKey = 'ns_invoices';
+export const COUNTER_KEY = 'ns_invoice_counter';
+const SHOOTS_KEY: CollectionKey = 'ns_shoots';
+const UPCOMING_KEY: CollectionKey = 'ns_upcoming_shoots';
+const EXPENSES_KEY: CollectionKey = 'ns_expenses';
+const CLIENTS_KEY: CollectionKey = 'ns_clients';
+const PACKAGES_KEY: CollectionKey = 'ns_packages';
+const QUOTES_KEY: CollectionKey = 'ns_quotes';
+const TRASH_KEY: CollectionKey = 'ns_trash';
+const HISTORY_KEY: CollectionKey = 'ns_history';
+const TRASH_RETENTION_KEY = 'ns_trash_retention_days';
+export const QUOTE_COUNTER_KEY = 'ns_quote_counter';
+export const RECEIPT_COUNTER_KEY = 'ns_receipt_counter';
+export const CREDIT_NOTE_COUNTER_KEY = 'ns_credit_note_counter';
+const INVOICE_NUMBERING_KEY = 'ns_invoice_numbering';
 
 function generateId(): string {
   return Date.now().toString() + Math.random().toString(36).substr(2, 9);
@@ -91,117 +296,419 @@ export function generateItemId(): string {
   return Date.now().toString() + Math.random().toString(36).substr(2, 9);
 }
 
-export function createDefaultItems(): InvoiceItem[] {
-  return DEFAULT_ITEMS.map(item => ({
-    ...item,
+// The wedding package that used to prefill every invoice becomes the first
+// catalog entry. Its fixed id keeps restores from adding a second copy.
+function createSeedPackage(): InvoicePackage {
+  const now = new Date().toISOString();
+  return {
+    id: 'default-wedding-package',
+    name: 'Gold Wedding',
+    shootType: 'Wedding',
+    items: DEFAULT_ITEMS.map((item, index) => ({ ...item, id: `default-item-${index}` })),
+    price: '',
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export function createItem(): InvoiceItem {
+  return { id: generateItemId(), description: '', quantity: '1', unitPrice: '' };
+}
+
+export function createAdjustment(kind: AdjustmentKind): InvoiceAdjustment {
+  return {
+    id: generateItemId(),
+    kind,
+    label: kind === 'tax' ? 'VAT' : ADJUSTMENT_KIND_LABELS[kind],
+    mode: 'percent',
+    value: '',
+  };
+}
+
+export function createPayment(amount: string = ''): InvoicePayment {
+  return {
     id: generateItemId(),
+    amount,
+    date: new Date().toISOString().split('T')[0],
+    method: 'Cash',
+    reference: '',
+    receiptNumber: '',
+  };
+}
+
+function legacyAdvanceToPayments(invoiceId: string, invoiceDate: string, advancePayment?: string): InvoicePayment[] {
+  if (!advancePayment || !(parseFloat(advancePayment) > 0)) return [];
+  return [{
+    id: `${invoiceId}-advance`,
+    amount: advancePayment,
+    date: invoiceDate,
+    method: 'Cash',
+    reference: 'Advance',
+    receiptNumber: '',
+  }];
+}
+
+interface StorageMigration {
+  version: number;
+  key: CollectionKey;
+  migrate: (records: any[]) => any[];
+}
+
+export const STORAGE_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    key: SHOOTS_KEY,
+    migrate: records => records.map(s => ({
+      ...s,
+      clientName: s.clientName || s.modelName || '',
+      shootTime: s.shootTime || '',
+      salonName: s.salonName || '',
+      modelName: s.modelName || '',
+      advancePaid: s.advancePaid || '',
+    })),
+  },
+  {
+    version: 2,
+    key: UPCOMING_KEY,
+    migrate: records => records.map(s => ({
+      ...s,
+      salonName: s.salonName || '',
+      modelName: s.modelName || '',
+      completed: !!s.completed,
+    })),
+  },
+  {
+    version: 3,
+    key: INVOICES_KEY,
+    migrate: records => records.map(({ advancePayment, ...inv }) => ({
+      ...inv,
+      dueDate: inv.dueDate || '',
+      status: inv.status || 'sent',
+      payments: inv.payments || legacyAdvanceToPayments(inv.id, inv.invoiceDate, advancePayment),
+    })),
+  },
+  {
+    version: 4,
+    key: EXPENSES_KEY,
+    migrate: records => records.map(e => ({
+      ...e,
+      date: e.date || (e.createdAt || '').split('T')[0],
+    })),
+  },
+  {
+    version: 5,
+    key: INVOICES_KEY,
+    migrate: records => records.map(inv => ({ ...inv, clientId: inv.clientId || '' })),
+  },
+  {
+    version: 6,
+    key: SHOOTS_KEY,
+    migrate: records => records.map(s => ({ ...s, clientId: s.clientId || '' })),
+  },
+  {
+    version: 7,
+    key: UPCOMING_KEY,
+    migrate: records => records.map(s => ({ ...s, clientId: s.clientId || '' })),
+  },
+  {
+    version: 8,
+    key: INVOICES_KEY,
+    migrate: records => records.map(inv => ({
+      ...inv,
+      priceMode: inv.priceMode || 'manual',
+      items: (inv.items || []).map((item: any) => ({ ...item, unitPrice: item.unitPrice || '' })),
+    })),
+  },
+  {
+    version: 9,
+    key: INVOICES_KEY,
+    migrate: records => records.map(inv => ({ ...inv, adjustments: inv.adjustments || [] })),
+  },
+  {
+    version: 10,
+    key: PACKAGES_KEY,
+    migrate: records => records.length > 0 ? records : [createSeedPackage()],
+  },
+  {
+    version: 11,
+    key: INVOICES_KEY,
+    migrate: records => records.map(inv => ({
+      ...inv,
+      payments: (inv.payments || []).map((p: any) => ({ ...p, receiptNumber: p.receiptNumber || '' })),
+    })),
+  },
+  {
+    version: 12,
+    key: INVOICES_KEY,
+    migrate: records => records.map(inv => ({ ...inv, creditNotes: inv.creditNotes || [] })),
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = STORAGE_MIGRATIONS[STORAGE_MIGRATIONS.length - 1].version;
+
+export function migrateRecords(key: CollectionKey, records: any[], fromVersion: number): any[] {
+  return STORAGE_MIGRATIONS
+    .filter(m => m.key === key && m.version > fromVersion)
+    .reduce((acc, m) => m.migrate(acc), records);
+}
+
+export async function getSchemaVersion(): Promise<number> {
+  const stored = await storageEngine.getMeta(SCHEMA_VERSION_META_KEY);
+  return stored ? parseInt(stored, 10) || 0 : 0;
+}
+
+async function migrateStorage(): Promise<void> {
+  await storageEngine.init();
+  let version = await getSchemaVersion();
+  for (const migration of STORAGE_MIGRATIONS) {
+    if (migration.version <= version) continue;
+    const records = await storageEngine.getAll(migration.key);
+    const migrated = migration.migrate(records);
+    if (records.length > 0 || migrated.length > 0) {
+      await storageEngine.replaceAll(migration.key, migrated);
+    }
+    version = migration.version;
+    await storageEngine.setMeta(SCHEMA_VERSION_META_KEY, version.toString());
+  }
+}
+
+let migrationRun: Promise<void> | null = null;
+
+export function runMigrations(): Promise<void> {
+  if (!migrationRun) {
+    migrationRun = migrateStorage().catch(e => {
+      migrationRun = null;
+      throw e;
+    });
+  }
+  return migrationRun;
+}
+
+// For reads, once migrations have run. Reads take no locks; anything that
+// writes goes through runTransaction instead.
+export async function getEngine(): Promise<StorageEngine> {
+  await runMigrations();
+  return storageEngine;
+}
+
+const writeLocks = new Map<string, Promise<void>>();
+
+// Each write waits for the previous write on every key it touches, so two
+// read-modify-write cycles on the same collection can never interleave. This
+// is what keeps AsyncStorage consistent; the SQLite engine goes further and
+// runs one transaction at a time, as they all share its connection.
+function withWriteLock<T>(keys: string[], task: () => Promise<T>): Promise<T> {
+  const unique = [...new Set(keys)];
+  const run = Promise.all(unique.map(key => writeLocks.get(key))).then(task);
+  const done = run.then(() => {}, () => {});
+  unique.forEach(key => writeLocks.set(key, done));
+  done.then(() => unique.forEach(key => {
+    if (writeLocks.get(key) === done) writeLocks.delete(key);
   }));
+  return run;
+}
+
+export async function runTransaction<T>(
+  collections: CollectionKey[],
+  work: (tx: StorageTransaction) => Promise<T>
+): Promise<T> {
+  const engine = await getEngine();
+  return withWriteLock(collections, () => engine.transaction(collections, work));
+}
+
+function getNextNumber(counterKey: string): Promise<string> {
+  return withWriteLock([counterKey], async () => {
+    const counter = await AsyncStorage.getItem(counterKey);
+    const next = counter ? parseInt(counter, 10) + 1 : 1;
+    await AsyncStorage.setItem(counterKey, next.toString());
+    return next.toString().padStart(4, '0');
+  });
 }
 
+export async function getInvoiceNumbering(): Promise<InvoiceNumbering> {
+  try {
+    const saved = await AsyncStorage.getItem(INVOICE_NUMBERING_KEY);
+    if (saved) return { ...DEFAULT_INVOICE_NUMBERING, ...JSON.parse(saved) };
+  } catch {}
+  return DEFAULT_INVOICE_NUMBERING;
+}
+
+export async function saveInvoiceNumbering(numbering: InvoiceNumbering): Promise<void> {
+  if (!numbering.pattern.includes('{SEQ}')) throw new Error('The pattern must include {SEQ}.');
+  if (numbering.padding < 1 || numbering.padding > 8) throw new Error('Sequence digits must be between 1 and 8.');
+  await AsyncStorage.setItem(INVOICE_NUMBERING_KEY, JSON.stringify(numbering));
+}
+
+export function formatInvoiceNumber(numbering: InvoiceNumbering, sequence: number, date: Date = new Date()): string {
+  const year = date.getFullYear().toString();
+  return numbering.pattern
+    .replace(/\{PREFIX\}/g, numbering.prefix)
+    .replace(/\{YYYY\}/g, year)
+    .replace(/\{YY\}/g, year.slice(2))
+    .replace(/\{MM\}/g, (date.getMonth() + 1).toString().padStart(2, '0'))
+    .replace(/\{SEQ\}/g, sequence.toString().padStart(numbering.padding, '0'));
+}
+
+// A yearly reset keeps one counter per year, so going back to a year that
+// already has invoices carries on from where it stopped.
+export function getInvoiceCounterKey(numbering: InvoiceNumbering, date: Date = new Date()): string {
+  return numbering.resetYearly ? `${COUNTER_KEY}_${date.getFullYear()}` : COUNTER_KEY;
+}
+
+export async function isInvoiceNumberTaken(invoiceNumber: string, excludeId?: string): Promise<boolean> {
+  const engine = await getEngine();
+  const invoices: Invoice[] = await engine.getAll(INVOICES_KEY);
+  const wanted = invoiceNumber.trim().toLowerCase();
+  return invoices.some(inv => inv.id !== excludeId && inv.invoiceNumber.trim().toLowerCase() === wanted);
+}
+
+// Skips numbers already on an invoice, which can happen after restoring a
+// backup or changing the pattern.
 export async function getNextInvoiceNumber(): Promise<string> {
-  const counter = await AsyncStorage.getItem(COUNTER_KEY);
-  const next = counter ? parseInt(counter, 10) + 1 : 1;
-  await AsyncStorage.setItem(COUNTER_KEY, next.toString());
-  return next.toString().padStart(4, '0');
+  const engine = await getEngine();
+  return takeInvoiceNumber(() => engine.getAll(INVOICES_KEY));
+}
+
+// Inside a transaction holding the invoices, `loadInvoices` reads them
+// through it, so the check sees the transaction's own writes.
+async function takeInvoiceNumber(loadInvoices: () => Promise<Invoice[]>): Promise<string> {
+  const numbering = await getInvoiceNumbering();
+  const now = new Date();
+  const counterKey = getInvoiceCounterKey(numbering, now);
+  return withWriteLock([counterKey], async () => {
+    const invoices = await loadInvoices();
+    const taken = new Set(invoices.map(inv => inv.invoiceNumber.trim().toLowerCase()));
+    const counter = await AsyncStorage.getItem(counterKey);
+    let next = counter ? parseInt(counter, 10) + 1 : 1;
+    while (taken.has(formatInvoiceNumber(numbering, next, now).toLowerCase())) next += 1;
+    await AsyncStorage.setItem(counterKey, next.toString());
+    return formatInvoiceNumber(numbering, next, now);
+  });
+}
+
+export function getNextQuoteNumber(): Promise<string> {
+  return getNextNumber(QUOTE_COUNTER_KEY);
+}
+
+export function getNextReceiptNumber(): Promise<string> {
+  return getNextNumber(RECEIPT_COUNTER_KEY);
+}
+
+export function getNextCreditNoteNumber(): Promise<string> {
+  return getNextNumber(CREDIT_NOTE_COUNTER_KEY);
+}
+
+function withResolvedStatus(invoice: Invoice): Invoice {
+  return { ...invoice, status: resolveInvoiceStatus(invoice) };
 }
 
 export async function getAllInvoices(): Promise<Invoice[]> {
-  const data = await AsyncStorage.getItem(INVOICES_KEY);
-  if (!data) return [];
-  const invoices: Invoice[] = JSON.parse(data);
+  const engine = await getEngine();
+  const invoices: Invoice[] = (await engine.getAll(INVOICES_KEY)).map(withResolvedStatus);
   return invoices.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
 }
 
 export async function getInvoice(id: string): Promise<Invoice | null> {
-  const invoices = await getAllInvoices();
-  return invoices.find(inv => inv.id === id) || null;
+  const engine = await getEngine();
+  const invoice: Invoice | null = await engine.get(INVOICES_KEY, id);
+  return invoice ? withResolvedStatus(invoice) : null;
+}
+
+// Numbers are compared trimmed and ignoring case. Called inside the write
+// transaction, so no other save can take the number between check and write.
+async function assertInvoiceNumberFree(tx: StorageTransaction, invoiceNumber: string, excludeId?: string): Promise<void> {
+  const wanted = invoiceNumber.trim().toLowerCase();
+  if (!wanted) throw new Error('Invoice number cannot be empty.');
+  const invoices: Invoice[] = await tx.getAll(INVOICES_KEY);
+  if (invoices.some(inv => inv.id !== excludeId && inv.invoiceNumber.trim().toLowerCase() === wanted)) {
+    throw new Error(`Invoice number ${invoiceNumber.trim()} is already used by another invoice.`);
+  }
 }
 
 export async function saveInvoice(invoice: Omit<Invoice, 'id' | 'createdAt' | 'updatedAt'>): Promise<Invoice> {
-  const invoices = await getAllInvoices();
   const newInvoice: Invoice = {
     ...invoice,
     id: generateId(),
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
   };
-  invoices.push(newInvoice);
-  await AsyncStorage.setItem(INVOICES_KEY, JSON.stringify(invoices));
+  newInvoice.status = resolveInvoiceStatus(newInvoice);
+  await runTransaction([INVOICES_KEY, HISTORY_KEY], async tx => {
+    await assertInvoiceNumberFree(tx, newInvoice.invoiceNumber);
+    await tx.insert(INVOICES_KEY, newInvoice);
+    await recordHistory(tx, INVOICES_KEY, null, newInvoice);
+  });
   return newInvoice;
 }
 
 export async function updateInvoice(id: string, updates: Partial<Invoice>): Promise<Invoice | null> {
-  const invoices = await getAllInvoices();
-  const index = invoices.findIndex(inv => inv.id === id);
-  if (index === -1) return null;
-  invoices[index] = {
-    ...invoices[index],
-    ...updates,
-    updatedAt: new Date().toISOString(),
-  };
-  await AsyncStorage.setItem(INVOICES_KEY, JSON.stringify(invoices));
-  return invoices[index];
+  return runTransaction([INVOICES_KEY, HISTORY_KEY], async tx => {
+    const existing: Invoice | null = await tx.get(INVOICES_KEY, id);
+    if (!existing) return null;
+    if (updates.invoiceNumber !== undefined && updates.invoiceNumber !== existing.invoiceNumber) {
+      await assertInvoiceNumberFree(tx, updates.invoiceNumber, id);
+    }
+    const updated: Invoice = {
+      ...existing,
+      ...updates,
+      updatedAt: new Date().toISOString(),
+    };
+    updated.status = resolveInvoiceStatus(updated);
+    await tx.update(INVOICES_KEY, updated);
+    // The stored status can be stale (an invoice goes overdue with no write),
+    // so the diff starts from the status the user was shown; otherwise every
+    // edit would log a status change the user never made.
+    await recordHistory(tx, INVOICES_KEY, withResolvedStatus(existing), updated);
+    return updated;
+  });
 }
 
 export async function deleteInvoice(id: string): Promise<boolean> {
-  const invoices = await getAllInvoices();
-  const filtered = invoices.filter(inv => inv.id !== id);
-  if (filtered.length === invoices.length) return false;
-  await AsyncStorage.setItem(INVOICES_KEY, JSON.stringify(filtered));
-  return true;
+  return moveToTrash(INVOICES_KEY, id);
 }
 
 export async function getAllShoots(): Promise<ShootEntry[]> {
-  const data = await AsyncStorage.getItem(SHOOTS_KEY);
-  if (!data) return [];
-  const shoots: ShootEntry[] = JSON.parse(data).map((s: any) => ({
-    ...s,
-    clientName: s.clientName || s.modelName || '',
-    shootTime: s.shootTime || '',
-    salonName: s.salonName || '',
-    modelName: s.modelName || '',
-    advancePaid: s.advancePaid || '',
-  }));
+  const engine = await getEngine();
+  const shoots: ShootEntry[] = await engine.getAll(SHOOTS_KEY);
   return shoots.sort((a, b) => new Date(b.shootDate).getTime() - new Date(a.shootDate).getTime());
 }
 
 export async function getShoot(id: string): Promise<ShootEntry | null> {
-  const shoots = await getAllShoots();
-  return shoots.find(s => s.id === id) || null;
+  const engine = await getEngine();
+  return engine.get(SHOOTS_KEY, id);
 }
 
 export async function saveShoot(shoot: Omit<ShootEntry, 'id' | 'createdAt' | 'updatedAt'>): Promise<ShootEntry> {
-  const shoots = await getAllShoots();
   const newShoot: ShootEntry = {
     ...shoot,
     id: generateId(),
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
   };
-  shoots.push(newShoot);
-  await AsyncStorage.setItem(SHOOTS_KEY, JSON.stringify(shoots));
+  await runTransaction([SHOOTS_KEY, HISTORY_KEY], async tx => {
+    await tx.insert(SHOOTS_KEY, newShoot);
+    await recordHistory(tx, SHOOTS_KEY, null, newShoot);
+  });
   return newShoot;
 }
 
 export async function updateShoot(id: string, updates: Partial<ShootEntry>): Promise<ShootEntry | null> {
-  const shoots = await getAllShoots();
-  const index = shoots.findIndex(s => s.id === id);
-  if (index === -1) return null;
-  shoots[index] = {
-    ...shoots[index],
-    ...updates,
-    updatedAt: new Date().toISOString(),
-  };
-  await AsyncStorage.setItem(SHOOTS_KEY, JSON.stringify(shoots));
-  return shoots[index];
+  return runTransaction([SHOOTS_KEY, HISTORY_KEY], async tx => {
+    const existing: ShootEntry | null = await tx.get(SHOOTS_KEY, id);
+    if (!existing) return null;
+    const updated: ShootEntry = {
+      ...existing,
+      ...updates,
+      updatedAt: new Date().toISOString(),
+    };
+    await tx.update(SHOOTS_KEY, updated);
+    await recordHistory(tx, SHOOTS_KEY, existing, updated);
+    return updated;
+  });
 }
 
 export async function deleteShoot(id: string): Promise<boolean> {
-  const shoots = await getAllShoots();
-  const filtered = shoots.filter(s => s.id !== id);
-  if (filtered.length === shoots.length) return false;
-  await AsyncStorage.setItem(SHOOTS_KEY, JSON.stringify(filtered));
-  return true;
+  return moveToTrash(SHOOTS_KEY, id);
 }
 
 export function getShootsByMonth(shoots: ShootEntry[], year: number, month: number): ShootEntry[] {
@@ -242,13 +749,125 @@ export function searchInvoices(invoices: Invoice[], query: string): Invoice[] {
   );
 }
 
-export function getTotal(invoice: Invoice): number {
+// Quantities such as "---" count as one unit when a price is given.
+export function getItemQuantity(item: InvoiceItem): number {
+  const qty = parseFloat(item.quantity);
+  return isNaN(qty) ? 1 : qty;
+}
+
+export function hasItemPrice(item: InvoiceItem): boolean {
+  return item.unitPrice.trim() !== '';
+}
+
+export function hasItemPrices(items: InvoiceItem[]): boolean {
+  return items.some(hasItemPrice);
+}
+
+export function getLineTotal(item: InvoiceItem): number {
+  return hasItemPrice(item) ? (parseFloat(item.unitPrice) || 0) * getItemQuantity(item) : 0;
+}
+
+export function getItemsSubtotal(items: InvoiceItem[]): number {
+  return items.reduce((sum, item) => sum + getLineTotal(item), 0);
+}
+
+export function getSubtotal(invoice: Pick<BillingDocument, 'priceMode' | 'items' | 'fullPrice'>): number {
+  if (invoice.priceMode === 'itemized') return getItemsSubtotal(invoice.items);
   return parseFloat(invoice.fullPrice) || 0;
 }
 
-export function calculateBalance(total: number, advance: string): number {
-  const adv = parseFloat(advance) || 0;
-  return total - adv;
+// Discounts come off the subtotal first, service charges are added to the
+// discounted amount, and taxes are charged last on everything before them.
+// Percentages in one stage share the same base, so list order doesn't matter.
+export function applyAdjustments(subtotal: number, adjustments: InvoiceAdjustment[]): AppliedAdjustment[] {
+  const applied: AppliedAdjustment[] = [];
+  let base = subtotal;
+  for (const kind of ADJUSTMENT_KINDS) {
+    let stageTotal = 0;
+    for (const adjustment of adjustments.filter(a => a.kind === kind)) {
+      const value = parseFloat(adjustment.value) || 0;
+      const magnitude = adjustment.mode === 'percent' ? base * value / 100 : value;
+      const amount = Math.round((kind === 'discount' ? -magnitude : magnitude) * 100) / 100;
+      applied.push({ adjustment, amount });
+      stageTotal += amount;
+    }
+    base += stageTotal;
+  }
+  return applied;
+}
+
+export function formatAdjustmentLabel(adjustment: InvoiceAdjustment): string {
+  const label = adjustment.label.trim() || ADJUSTMENT_KIND_LABELS[adjustment.kind];
+  return adjustment.mode === 'percent' ? `${label} (${parseFloat(adjustment.value) || 0}%)` : label;
+}
+
+export function getTotal(invoice: Pick<BillingDocument, 'priceMode' | 'items' | 'fullPrice' | 'adjustments'>): number {
+  const subtotal = getSubtotal(invoice);
+  return applyAdjustments(subtotal, invoice.adjustments || []).reduce((sum, a) => sum + a.amount, subtotal);
+}
+
+export function getTotalPaid(payments: InvoicePayment[]): number {
+  return payments.reduce((sum, p) => sum + (parseFloat(p.amount) || 0), 0);
+}
+
+export function sortPayments(payments: InvoicePayment[]): InvoicePayment[] {
+  return [...payments].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+}
+
+export function calculateBalance(total: number, payments: InvoicePayment[]): number {
+  return total - getTotalPaid(payments);
+}
+
+export function getTotalCredited(creditNotes: CreditNote[]): number {
+  return creditNotes.reduce((sum, c) => sum + (parseFloat(c.amount) || 0), 0);
+}
+
+export function getTotalRefunded(creditNotes: CreditNote[]): number {
+  return creditNotes.reduce((sum, c) => sum + (parseFloat(c.refundAmount) || 0), 0);
+}
+
+// What the client owes once credit notes are taken off the invoice total.
+export function getNetTotal(invoice: Pick<Invoice, 'priceMode' | 'items' | 'fullPrice' | 'adjustments' | 'creditNotes'>): number {
+  return getTotal(invoice) - getTotalCredited(invoice.creditNotes || []);
+}
+
+// Payments received less anything refunded through credit notes.
+export function getNetPaid(invoice: Pick<Invoice, 'payments' | 'creditNotes'>): number {
+  return getTotalPaid(invoice.payments) - getTotalRefunded(invoice.creditNotes || []);
+}
+
+export function getInvoiceBalance(invoice: Invoice): number {
+  return getNetTotal(invoice) - getNetPaid(invoice);
+}
+
+// What was still owed once this payment, and every payment recorded before
+// it, had been received.
+export function getBalanceAfterPayment(invoice: Invoice, paymentId: string): number {
+  const sorted = sortPayments(invoice.payments);
+  const index = sorted.findIndex(p => p.id === paymentId);
+  const paid = getTotalPaid(sorted.slice(0, index + 1)) - getTotalRefunded(invoice.creditNotes || []);
+  return getNetTotal(invoice) - paid;
+}
+
+// Draft and cancelled are set by hand; every other status follows from the
+// payments recorded and the due date (falling back to the event date).
+// Credit notes lower what is owed, so a fully credited invoice counts as paid.
+export function resolveInvoiceStatus(invoice: Invoice): InvoiceStatus {
+  if (invoice.status === 'cancelled') return 'cancelled';
+  const total = getNetTotal(invoice);
+  const paid = getNetPaid(invoice);
+  const credited = getTotalCredited(invoice.creditNotes || []);
+  if (invoice.status === 'draft' && paid === 0 && credited === 0) return 'draft';
+  if ((total > 0 || credited > 0) && paid >= total) return 'paid';
+  const due = invoice.dueDate || invoice.eventDate;
+  if (due && getDaysUntil(due) < 0) return 'overdue';
+  if (paid > 0) return 'partially_paid';
+  return 'sent';
+}
+
+export function filterInvoicesByStatus(invoices: Invoice[], status: InvoiceStatus | 'all'): Invoice[] {
+  if (status === 'all') return invoices;
+  return invoices.filter(inv => inv.status === status);
 }
 
 export function formatCurrency(amount: number): string {
@@ -272,48 +891,70 @@ export function getMonthName(month: number): string {
 }
 
 export async function getAllUpcomingShoots(): Promise<UpcomingShoot[]> {
-  const data = await AsyncStorage.getItem(UPCOMING_KEY);
-  if (!data) return [];
-  const shoots: UpcomingShoot[] = JSON.parse(data).map((s: any) => ({
-    ...s,
-    salonName: s.salonName || '',
-    modelName: s.modelName || '',
-  }));
+  const engine = await getEngine();
+  const shoots: UpcomingShoot[] = await engine.getAll(UPCOMING_KEY);
   return shoots.sort((a, b) => new Date(a.shootDate).getTime() - new Date(b.shootDate).getTime());
 }
 
 export async function saveUpcomingShoot(shoot: Omit<UpcomingShoot, 'id' | 'createdAt' | 'updatedAt'>): Promise<UpcomingShoot> {
-  const shoots = await getAllUpcomingShoots();
   const newShoot: UpcomingShoot = {
     ...shoot,
     id: generateId(),
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
   };
-  shoots.push(newShoot);
-  await AsyncStorage.setItem(UPCOMING_KEY, JSON.stringify(shoots));
+  await runTransaction([UPCOMING_KEY], tx => tx.insert(UPCOMING_KEY, newShoot));
   return newShoot;
 }
 
 export async function updateUpcomingShoot(id: string, updates: Partial<UpcomingShoot>): Promise<UpcomingShoot | null> {
-  const shoots = await getAllUpcomingShoots();
-  const index = shoots.findIndex(s => s.id === id);
-  if (index === -1) return null;
-  shoots[index] = {
-    ...shoots[index],
-    ...updates,
-    updatedAt: new Date().toISOString(),
-  };
-  await AsyncStorage.setItem(UPCOMING_KEY, JSON.stringify(shoots));
-  return shoots[index];
+  return runTransaction([UPCOMING_KEY], async tx => {
+    const existing: UpcomingShoot | null = await tx.get(UPCOMING_KEY, id);
+    if (!existing) return null;
+    const updated: UpcomingShoot = {
+      ...existing,
+      ...updates,
+      updatedAt: new Date().toISOString(),
+    };
+    await tx.update(UPCOMING_KEY, updated);
+    return updated;
+  });
+}
+
+// Null when the booking is missing or already completed: the check runs inside
+// the transaction, so a double tap logs the shoot only once.
+export async function completeUpcomingShoot(id: string): Promise<{ upcoming: UpcomingShoot; shoot: ShootEntry } | null> {
+  return runTransaction([UPCOMING_KEY, SHOOTS_KEY, HISTORY_KEY], async tx => {
+    const existing: UpcomingShoot | null = await tx.get(UPCOMING_KEY, id);
+    if (!existing || existing.completed) return null;
+    const now = new Date().toISOString();
+    const upcoming: UpcomingShoot = { ...existing, completed: true, updatedAt: now };
+    const shoot: ShootEntry = {
+      id: generateId(),
+      clientId: existing.clientId || '',
+      clientName: existing.clientName,
+      shootDate: existing.shootDate,
+      shootTime: existing.shootTime || '',
+      shootLocation: existing.shootLocation,
+      salonName: existing.salonName || '',
+      modelName: existing.modelName || '',
+      shootType: existing.shootType,
+      price: existing.packagePrice || '0',
+      advancePaid: existing.advancePaid || '',
+      phoneNumber: existing.contactNumber || '',
+      notes: existing.notes || '',
+      createdAt: now,
+      updatedAt: now,
+    };
+    await tx.update(UPCOMING_KEY, upcoming);
+    await tx.insert(SHOOTS_KEY, shoot);
+    await recordHistory(tx, SHOOTS_KEY, null, shoot);
+    return { upcoming, shoot };
+  });
 }
 
 export async function deleteUpcomingShoot(id: string): Promise<boolean> {
-  const shoots = await getAllUpcomingShoots();
-  const filtered = shoots.filter(s => s.id !== id);
-  if (filtered.length === shoots.length) return false;
-  await AsyncStorage.setItem(UPCOMING_KEY, JSON.stringify(filtered));
-  return true;
+  return moveToTrash(UPCOMING_KEY, id);
 }
 
 export function getUpcomingShootsFromToday(shoots: UpcomingShoot[]): UpcomingShoot[] {
@@ -345,30 +986,23 @@ export function getDaysUntilLabel(dateStr: string): string {
 }
 
 export async function getAllExpenses(): Promise<Expense[]> {
-  const data = await AsyncStorage.getItem(EXPENSES_KEY);
-  if (!data) return [];
-  const expenses: Expense[] = JSON.parse(data);
+  const engine = await getEngine();
+  const expenses: Expense[] = await engine.getAll(EXPENSES_KEY);
   return expenses.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
 }
 
 export async function saveExpense(expense: Omit<Expense, 'id' | 'createdAt'>): Promise<Expense> {
-  const expenses = await getAllExpenses();
   const newExpense: Expense = {
     ...expense,
     id: generateId(),
     createdAt: new Date().toISOString(),
   };
-  expenses.push(newExpense);
-  await AsyncStorage.setItem(EXPENSES_KEY, JSON.stringify(expenses));
+  await runTransaction([EXPENSES_KEY], tx => tx.insert(EXPENSES_KEY, newExpense));
   return newExpense;
 }
 
 export async function deleteExpense(id: string): Promise<boolean> {
-  const expenses = await getAllExpenses();
-  const filtered = expenses.filter(e => e.id !== id);
-  if (filtered.length === expenses.length) return false;
-  await AsyncStorage.setItem(EXPENSES_KEY, JSON.stringify(filtered));
-  return true;
+  return moveToTrash(EXPENSES_KEY, id);
 }
 
 export function getExpensesByMonth(expenses: Expense[], year: number, month: number): Expense[] {
@@ -377,3 +1011,543 @@ export function getExpensesByMonth(expenses: Expense[], year: number, month: num
     return d.getFullYear() === year && d.getMonth() === month;
   });
 }
+
+function normalizeClientName(name: string): string {
+  return name.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+export async function getAllClients(): Promise<Client[]> {
+  const engine = await getEngine();
+  const clients: Client[] = await engine.getAll(CLIENTS_KEY);
+  return clients.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getClient(id: string): Promise<Client | null> {
+  const engine = await getEngine();
+  return engine.get(CLIENTS_KEY, id);
+}
+
+export async function saveClient(client: Omit<Client, 'id' | 'createdAt' | 'updatedAt'>): Promise<Client> {
+  const newClient: Client = {
+    ...client,
+    id: generateId(),
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  };
+  await runTransaction([CLIENTS_KEY], tx => tx.insert(CLIENTS_KEY, newClient));
+  return newClient;
+}
+
+export async function updateClient(id: string, updates: Partial<Client>): Promise<Client | null> {
+  return runTransaction([CLIENTS_KEY], async tx => {
+    const existing: Client | null = await tx.get(CLIENTS_KEY, id);
+    if (!existing) return null;
+    const updated: Client = {
+      ...existing,
+      ...updates,
+      updatedAt: new Date().toISOString(),
+    };
+    await tx.update(CLIENTS_KEY, updated);
+    return updated;
+  });
+}
+
+const CLIENT_LINKED_KEYS = [INVOICES_KEY, SHOOTS_KEY, UPCOMING_KEY];
+
+// Linked records keep their own copy of the name and phone, so deleting a
+// client only clears the link.
+export async function deleteClient(id: string): Promise<boolean> {
+  return runTransaction([CLIENTS_KEY, ...CLIENT_LINKED_KEYS], async tx => {
+    for (const key of CLIENT_LINKED_KEYS) {
+      const records = await tx.getAll(key);
+      for (const record of records.filter(r => r.clientId === id)) {
+        await tx.update(key, { ...record, clientId: '' });
+      }
+    }
+    return tx.remove(CLIENTS_KEY, id);
+  });
+}
+
+export function searchClients(clients: Client[], query: string): Client[] {
+  const q = query.toLowerCase().trim();
+  if (!q) return clients;
+  const digits = q.replace(/\D/g, '');
+  return clients.filter(c =>
+    c.name.toLowerCase().includes(q) ||
+    c.email.toLowerCase().includes(q) ||
+    (digits.length >= 3 && c.phones.some(p => p.replace(/\D/g, '').includes(digits)))
+  );
+}
+
+export function formatClientPhones(client: Client): string {
+  return client.phones.filter(p => p.trim()).join(' / ');
+}
+
+// Forms pass the picked client's id; when none was picked we link to a client
+// with the same name, or create one so every saved record has a client.
+export async function resolveClientId(name: string, phones: string[], clientId?: string): Promise<string> {
+  if (clientId) return clientId;
+  const normalized = normalizeClientName(name);
+  if (!normalized) return '';
+  return runTransaction([CLIENTS_KEY], async tx => {
+    const clients: Client[] = await tx.getAll(CLIENTS_KEY);
+    const match = clients.find(c => normalizeClientName(c.name) === normalized);
+    if (match) return match.id;
+    const now = new Date().toISOString();
+    const client: Client = {
+      id: generateId(),
+      name: name.trim(),
+      phones: phones.map(p => p.trim()).filter(Boolean),
+      email: '',
+      address: '',
+      notes: '',
+      createdAt: now,
+      updatedAt: now,
+    };
+    await tx.insert(CLIENTS_KEY, client);
+    return client.id;
+  });
+}
+
+// Builds the client directory from records saved before clients existed,
+// grouping by name and linking each record to its client.
+export async function linkExistingRecordsToClients(): Promise<number> {
+  return runTransaction([CLIENTS_KEY, ...CLIENT_LINKED_KEYS], async tx => {
+    const clients: Client[] = await tx.getAll(CLIENTS_KEY);
+    const byName = new Map(clients.map(c => [normalizeClientName(c.name), c]));
+    const now = new Date().toISOString();
+    let linked = 0;
+    for (const key of CLIENT_LINKED_KEYS) {
+      const records = await tx.getAll(key);
+      for (const record of records) {
+        if (record.clientId) continue;
+        const name: string = key === INVOICES_KEY ? record.customerNames : record.clientName;
+        const normalized = normalizeClientName(name || '');
+        if (!normalized) continue;
+        const phoneField: string = key === UPCOMING_KEY ? record.contactNumber : record.phoneNumber;
+        const phones = (phoneField || '').split(/\s*[\/,]\s*/).filter(Boolean);
+        let client = byName.get(normalized);
+        if (!client) {
+          client = { id: generateId(), name: name.trim(), phones, email: '', address: '', notes: '', createdAt: now, updatedAt: now };
+          byName.set(normalized, client);
+          await tx.insert(CLIENTS_KEY, client);
+        } else {
+          const missing = phones.filter(p => !client!.phones.includes(p));
+          if (missing.length > 0) {
+            client = { ...client, phones: [...client.phones, ...missing], updatedAt: now };
+            byName.set(normalized, client);
+            await tx.update(CLIENTS_KEY, client);
+          }
+        }
+        await tx.update(key, { ...record, clientId: client.id });
+        linked++;
+      }
+    }
+    return linked;
+  });
+}
+
+// Revenue counts non-cancelled invoices and completed shoots. Bookings are
+// listed but not counted, since completing one creates the shoot entry.
+export async function getClientHistory(clientId: string): Promise<ClientHistory | null> {
+  const engine = await getEngine();
+  const client: Client | null = await engine.get(CLIENTS_KEY, clientId);
+  if (!client) return null;
+  const invoices: Invoice[] = (await engine.getAll(INVOICES_KEY)).filter(r => r.clientId === clientId);
+  const shoots: ShootEntry[] = (await engine.getAll(SHOOTS_KEY)).filter(r => r.clientId === clientId);
+  const upcoming: UpcomingShoot[] = (await engine.getAll(UPCOMING_KEY)).filter(r => r.clientId === clientId);
+
+  const entries: ClientHistoryEntry[] = [
+    ...invoices.map(record => ({ kind: 'invoice' as const, date: record.eventDate || record.invoiceDate, record })),
+    ...shoots.map(record => ({ kind: 'shoot' as const, date: record.shootDate, record })),
+    ...upcoming.map(record => ({ kind: 'upcoming' as const, date: record.shootDate, record })),
+  ].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
+  let lifetimeRevenue = 0;
+  let totalPaid = 0;
+  let owed = 0;
+  for (const invoice of invoices.filter(inv => inv.status !== 'cancelled')) {
+    lifetimeRevenue += getNetTotal(invoice);
+    totalPaid += getNetPaid(invoice);
+    owed += Math.max(0, getInvoiceBalance(invoice));
+  }
+  for (const shoot of shoots) {
+    const price = parseFloat(shoot.price) || 0;
+    const paid = parseFloat(shoot.advancePaid) || 0;
+    lifetimeRevenue += price;
+    totalPaid += paid;
+    owed += Math.max(0, price - paid);
+  }
+  return { client, entries, lifetimeRevenue, totalPaid, owed };
+}
+
+export async function getAllPackages(): Promise<InvoicePackage[]> {
+  const engine = await getEngine();
+  const packages: InvoicePackage[] = await engine.getAll(PACKAGES_KEY);
+  return packages.sort((a, b) =>
+    SHOOT_TYPES.indexOf(a.shootType) - SHOOT_TYPES.indexOf(b.shootType) || a.name.localeCompare(b.name)
+  );
+}
+
+export async function savePackage(pkg: Omit<InvoicePackage, 'id' | 'createdAt' | 'updatedAt'>): Promise<InvoicePackage> {
+  const newPackage: InvoicePackage = {
+    ...pkg,
+    id: generateId(),
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  };
+  await runTransaction([PACKAGES_KEY], tx => tx.insert(PACKAGES_KEY, newPackage));
+  return newPackage;
+}
+
+export async function updatePackage(id: string, updates: Partial<InvoicePackage>): Promise<InvoicePackage | null> {
+  return runTransaction([PACKAGES_KEY], async tx => {
+    const existing: InvoicePackage | null = await tx.get(PACKAGES_KEY, id);
+    if (!existing) return null;
+    const updated: InvoicePackage = {
+      ...existing,
+      ...updates,
+      updatedAt: new Date().toISOString(),
+    };
+    await tx.update(PACKAGES_KEY, updated);
+    return updated;
+  });
+}
+
+export async function deletePackage(id: string): Promise<boolean> {
+  return runTransaction([PACKAGES_KEY], tx => tx.remove(PACKAGES_KEY, id));
+}
+
+export function createItemsFromPackage(pkg: InvoicePackage): InvoiceItem[] {
+  return pkg.items.map(item => ({ ...item, id: generateItemId() }));
+}
+
+// Draft, accepted and declined are set by hand; a draft or sent quote whose
+// validity date has passed shows as expired.
+export function resolveQuoteStatus(quote: Quote): QuoteStatus {
+  if (quote.status === 'accepted' || quote.status === 'declined' || quote.status === 'draft') return quote.status;
+  if (quote.validUntil && getDaysUntil(quote.validUntil) < 0) return 'expired';
+  return 'sent';
+}
+
+function withResolvedQuoteStatus(quote: Quote): Quote {
+  return { ...quote, status: resolveQuoteStatus(quote) };
+}
+
+export async function getAllQuotes(): Promise<Quote[]> {
+  const engine = await getEngine();
+  const quotes: Quote[] = (await engine.getAll(QUOTES_KEY)).map(withResolvedQuoteStatus);
+  return quotes.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+}
+
+export async function getQuote(id: string): Promise<Quote | null> {
+  const engine = await getEngine();
+  const quote: Quote | null = await engine.get(QUOTES_KEY, id);
+  return quote ? withResolvedQuoteStatus(quote) : null;
+}
+
+export async function saveQuote(quote: Omit<Quote, 'id' | 'createdAt' | 'updatedAt'>): Promise<Quote> {
+  const newQuote: Quote = {
+    ...quote,
+    id: generateId(),
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  };
+  await runTransaction([QUOTES_KEY], tx => tx.insert(QUOTES_KEY, newQuote));
+  return withResolvedQuoteStatus(newQuote);
+}
+
+export async function updateQuote(id: string, updates: Partial<Quote>): Promise<Quote | null> {
+  return runTransaction([QUOTES_KEY], async tx => {
+    const existing: Quote | null = await tx.get(QUOTES_KEY, id);
+    if (!existing) return null;
+    const updated: Quote = {
+      ...existing,
+      ...updates,
+      updatedAt: new Date().toISOString(),
+    };
+    await tx.update(QUOTES_KEY, updated);
+    return withResolvedQuoteStatus(updated);
+  });
+}
+
+export async function deleteQuote(id: string): Promise<boolean> {
+  return runTransaction([QUOTES_KEY], tx => tx.remove(QUOTES_KEY, id));
+}
+
+export function searchQuotes(quotes: Quote[], query: string): Quote[] {
+  const q = query.toLowerCase().trim();
+  if (!q) return quotes;
+  return quotes.filter(quote =>
+    quote.customerNames.toLowerCase().includes(q) ||
+    quote.eventLocation.toLowerCase().includes(q) ||
+    quote.quoteNumber.toLowerCase().includes(q)
+  );
+}
+
+// Accepts the quote and creates a draft invoice carrying over its client,
+// event, items and pricing. A quote converts at most once, and not after it
+// was declined or has expired. The invoice number is only taken once those
+// checks pass, so a refused conversion leaves no gap in the numbering.
+export async function convertQuoteToInvoice(id: string): Promise<{ quote: Quote; invoice: Invoice } | null> {
+  return runTransaction([QUOTES_KEY, INVOICES_KEY, HISTORY_KEY], async tx => {
+    const current: Quote | null = await tx.get(QUOTES_KEY, id);
+    if (!current) return null;
+    if (current.invoiceId) throw new Error(`Quote #${current.quoteNumber} has already been converted.`);
+    const status = resolveQuoteStatus(current);
+    if (status === 'declined') throw new Error(`Quote #${current.quoteNumber} was declined and cannot be converted.`);
+    if (status === 'expired') {
+      throw new Error(`Quote #${current.quoteNumber} expired on ${formatDate(current.validUntil)}. Extend its validity before converting it.`);
+    }
+    const invoiceNumber = await takeInvoiceNumber(() => tx.getAll(INVOICES_KEY));
+    const now = new Date().toISOString();
+    const invoice: Invoice = {
+      id: generateId(),
+      invoiceNumber,
+      invoiceDate: now.split('T')[0],
+      dueDate: '',
+      status: 'draft',
+      clientId: current.clientId,
+      customerNames: current.customerNames,
+      eventDate: current.eventDate,
+      eventLocation: current.eventLocation,
+      phoneNumber: current.phoneNumber,
+      items: current.items.map(item => ({ ...item, id: generateItemId() })),
+      priceMode: current.priceMode,
+      fullPrice: current.fullPrice,
+      adjustments: current.adjustments.map(a => ({ ...a, id: generateItemId() })),
+      payments: [],
+      creditNotes: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    invoice.status = resolveInvoiceStatus(invoice);
+    const quote: Quote = { ...current, status: 'accepted', invoiceId: invoice.id, updatedAt: now };
+    await tx.insert(INVOICES_KEY, invoice);
+    await recordHistory(tx, INVOICES_KEY, null, invoice);
+    await tx.update(QUOTES_KEY, quote);
+    return { quote, invoice };
+  });
+}
+
+// A payment keeps the receipt number it was first issued with, so reprinting
+// a receipt never uses up another number.
+export async function issueReceipt(invoiceId: string, paymentId: string): Promise<{ invoice: Invoice; payment: InvoicePayment } | null> {
+  const existing = await getInvoice(invoiceId);
+  const payment = existing?.payments.find(p => p.id === paymentId);
+  if (!existing || !payment) return null;
+  if (payment.receiptNumber) return { invoice: existing, payment };
+  const receiptNumber = await getNextReceiptNumber();
+  return runTransaction([INVOICES_KEY], async tx => {
+    const current: Invoice | null = await tx.get(INVOICES_KEY, invoiceId);
+    const target = current?.payments.find(p => p.id === paymentId);
+    if (!current || !target) return null;
+    if (target.receiptNumber) return { invoice: withResolvedStatus(current), payment: target };
+    const issued: InvoicePayment = { ...target, receiptNumber };
+    const updated: Invoice = {
+      ...current,
+      payments: current.payments.map(p => p.id === paymentId ? issued : p),
+      updatedAt: new Date().toISOString(),
+    };
+    await tx.update(INVOICES_KEY, updated);
+    return { invoice: withResolvedStatus(updated), payment: issued };
+  });
+}
+
+// A credit can't take the invoice below zero, and a refund can't pay back
+// more than the client has paid.
+export async function addCreditNote(invoiceId: string, creditNote: Omit<CreditNote, 'id' | 'creditNoteNumber'>): Promise<Invoice | null> {
+  const amount = parseFloat(creditNote.amount) || 0;
+  const refund = parseFloat(creditNote.refundAmount) || 0;
+  if (amount <= 0) throw new Error('Enter the amount to credit.');
+  if (refund < 0 || refund > amount) throw new Error('The refund cannot be more than the credited amount.');
+  const existing = await getInvoice(invoiceId);
+  if (!existing) return null;
+  const creditNoteNumber = await getNextCreditNoteNumber();
+  return runTransaction([INVOICES_KEY, HISTORY_KEY], async tx => {
+    const current: Invoice | null = await tx.get(INVOICES_KEY, invoiceId);
+    if (!current) return null;
+    if (amount > getNetTotal(current) + 0.005) {
+      throw new Error(`Only ${formatCurrency(Math.max(0, getNetTotal(current)))} is left to credit on invoice #${current.invoiceNumber}.`);
+    }
+    if (refund > getNetPaid(current) + 0.005) {
+      throw new Error(`Only ${formatCurrency(Math.max(0, getNetPaid(current)))} has been paid on invoice #${current.invoiceNumber}.`);
+    }
+    const updated: Invoice = {
+      ...current,
+      creditNotes: [...(current.creditNotes || []), { ...creditNote, id: generateItemId(), creditNoteNumber }],
+      updatedAt: new Date().toISOString(),
+    };
+    updated.status = resolveInvoiceStatus(updated);
+    await tx.update(INVOICES_KEY, updated);
+    await recordHistory(tx, INVOICES_KEY, withResolvedStatus(current), updated);
+    return updated;
+  });
+}
+
+export async function deleteCreditNote(invoiceId: string, creditNoteId: string): Promise<Invoice | null> {
+  return runTransaction([INVOICES_KEY, HISTORY_KEY], async tx => {
+    const current: Invoice | null = await tx.get(INVOICES_KEY, invoiceId);
+    if (!current) return null;
+    const updated: Invoice = {
+      ...current,
+      creditNotes: (current.creditNotes || []).filter(c => c.id !== creditNoteId),
+      updatedAt: new Date().toISOString(),
+    };
+    updated.status = resolveInvoiceStatus(updated);
+    await tx.update(INVOICES_KEY, updated);
+    await recordHistory(tx, INVOICES_KEY, withResolvedStatus(current), updated);
+    return updated;
+  });
+}
+
+export async function getTrashRetentionDays(): Promise<number> {
+  const saved = await AsyncStorage.getItem(TRASH_RETENTION_KEY);
+  return saved ? parseInt(saved, 10) || DEFAULT_TRASH_RETENTION_DAYS : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+export async function saveTrashRetentionDays(days: number): Promise<void> {
+  if (!Number.isInteger(days) || days < 1) throw new Error('Keep deleted items for at least 1 day.');
+  await AsyncStorage.setItem(TRASH_RETENTION_KEY, days.toString());
+}
+
+// Moves the record and its trash entry in one transaction, so a crash can
+// neither lose the record nor leave it in both places.
+async function moveToTrash(collection: CollectionKey, id: string): Promise<boolean> {
+  return runTransaction([collection, TRASH_KEY], async tx => {
+    const record = await tx.get(collection, id);
+    if (!record) return false;
+    const entry: TrashEntry = { id, collection, record, deletedAt: new Date().toISOString() };
+    await tx.remove(TRASH_KEY, id);
+    await tx.insert(TRASH_KEY, entry);
+    return tx.remove(collection, id);
+  });
+}
+
+export async function getTrash(): Promise<TrashEntry[]> {
+  const engine = await getEngine();
+  const entries: TrashEntry[] = await engine.getAll(TRASH_KEY);
+  return entries.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+}
+
+export async function restoreFromTrash(id: string): Promise<TrashEntry | null> {
+  const engine = await getEngine();
+  const entry: TrashEntry | null = await engine.get(TRASH_KEY, id);
+  if (!entry) return null;
+  return runTransaction([entry.collection, TRASH_KEY], async tx => {
+    const current: TrashEntry | null = await tx.get(TRASH_KEY, id);
+    if (!current) return null;
+    if (await tx.get(current.collection, id)) {
+      await tx.update(current.collection, current.record);
+    } else {
+      await tx.insert(current.collection, current.record);
+    }
+    await tx.remove(TRASH_KEY, id);
+    return current;
+  });
+}
+
+export async function deleteFromTrash(id: string): Promise<boolean> {
+  return runTransaction([TRASH_KEY, HISTORY_KEY], async tx => {
+    await removeHistory(tx, [id]);
+    return tx.remove(TRASH_KEY, id);
+  });
+}
+
+export async function emptyTrash(): Promise<number> {
+  return runTransaction([TRASH_KEY, HISTORY_KEY], async tx => {
+    const entries: TrashEntry[] = await tx.getAll(TRASH_KEY);
+    await removeHistory(tx, entries.map(e => e.id));
+    for (const entry of entries) await tx.remove(TRASH_KEY, entry.id);
+    return entries.length;
+  });
+}
+
+export async function purgeTrash(): Promise<number> {
+  const days = await getTrashRetentionDays();
+  const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+  return runTransaction([TRASH_KEY, HISTORY_KEY], async tx => {
+    const expired = (await tx.getAll(TRASH_KEY) as TrashEntry[]).filter(e => e.deletedAt < cutoff);
+    if (expired.length > 0) await removeHistory(tx, expired.map(e => e.id));
+    for (const entry of expired) await tx.remove(TRASH_KEY, entry.id);
+    return expired.length;
+  });
+}
+
+export function describeTrashEntry(entry: TrashEntry): { title: string; subtitle: string } {
+  const r = entry.record;
+  switch (entry.collection) {
+    case 'ns_invoices':
+      return { title: r.customerNames || 'Unnamed', subtitle: `Invoice #${r.invoiceNumber} · ${formatCurrency(getTotal(r as Invoice))}` };
+    case 'ns_shoots':
+      return { title: r.clientName || r.modelName || r.shootLocation || 'Shoot', subtitle: `Shoot · ${formatDate(r.shootDate)}` };
+    case 'ns_upcoming_shoots':
+      return { title: r.clientName || r.modelName || r.shootLocation || 'Shoot', subtitle: `Upcoming shoot · ${formatDate(r.shootDate)}` };
+    case 'ns_expenses':
+    default:
+      return { title: r.description || 'Expense', subtitle: `Expense · ${formatCurrency(parseFloat(r.amount) || 0)}` };
+  }
+}
+
+const UNTRACKED_FIELDS = ['id', 'createdAt', 'updatedAt'];
+
+export function diffRecords(before: StoredRecord, after: StoredRecord): FieldChange[] {
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+  return fields
+    .filter(field => !UNTRACKED_FIELDS.includes(field) && JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map(field => ({ field, from: before[field], to: after[field] }));
+}
+
+async function recordHistory(
+  tx: StorageTransaction,
+  collection: CollectionKey,
+  before: StoredRecord | null,
+  after: StoredRecord
+): Promise<void> {
+  const changes = before ? diffRecords(before, after) : [];
+  if (before && changes.length === 0) return;
+  const entry: HistoryEntry = {
+    id: generateId(),
+    collection,
+    recordId: after.id,
+    action: before ? 'updated' : 'created',
+    changes,
+    snapshot: after,
+    createdAt: after.updatedAt || new Date().toISOString(),
+  };
+  await tx.insert(HISTORY_KEY, entry);
+}
+
+async function removeHistory(tx: StorageTransaction, recordIds: string[]): Promise<void> {
+  const ids = new Set(recordIds);
+  const entries: HistoryEntry[] = await tx.getAll(HISTORY_KEY);
+  for (const entry of entries.filter(e => ids.has(e.recordId))) await tx.remove(HISTORY_KEY, entry.id);
+}
+
+export async function getHistory(recordId: string): Promise<HistoryEntry[]> {
+  const engine = await getEngine();
+  const entries: HistoryEntry[] = await engine.findByField(HISTORY_KEY, 'recordId', recordId);
+  return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export function getVersionBefore(entry: HistoryEntry): StoredRecord {
+  const version: StoredRecord = { ...entry.snapshot };
+  entry.changes.forEach(change => {
+    if (change.from === undefined) delete version[change.field];
+    else version[change.field] = change.from;
+  });
+  return version;
+}
+
+// `before` asks for the invoice as it was just before that change, which is
+// how the version from before history was kept is reached. Its `updatedAt` is
+// not restored, so the entry is returned too for dating the version.
+export async function getInvoiceVersion(
+  historyId: string,
+  before: boolean = false
+): Promise<{ invoice: Invoice; entry: HistoryEntry } | null> {
+  const engine = await getEngine();
+  const entry: HistoryEntry | null = await engine.get(HISTORY_KEY, historyId);
+  if (!entry || entry.collection !== INVOICES_KEY) return null;
+  return { invoice: (before ? getVersionBefore(entry) : entry.snapshot) as Invoice, entry };
+}
@@ -84,6 +84,7 @@ interface ThemeContextValue {
   setInvoiceColors: (colors: InvoiceColorScheme) => void;
   invoiceStyle: InvoiceStyleId;
   setInvoiceStyle: (style: InvoiceStyleId) => void;
+  reloadTheme: () => Promise<void>;
 }
 
 const ThemeContext = createContext<ThemeContextValue | null>(null);
@@ -93,19 +94,21 @@ export function ThemeProvider({ children }: { children: ReactNode }) {
   const [invoiceColors, setInvoiceColorsState] = useState<InvoiceColorScheme>(INVOICE_COLOR_PRESETS[0]);
   const [invoiceStyle, setInvoiceStyleState] = useState<InvoiceStyleId>('elegant');
 
-  useEffect(() => {
-    (async () => {
-      const saved = await AsyncStorage.getItem(THEME_KEY);
-      if (saved === 'dark' || saved === 'light') setModeState(saved);
-      const savedColors = await AsyncStorage.getItem(INVOICE_COLOR_KEY);
-      if (savedColors) {
-        try { setInvoiceColorsState(JSON.parse(savedColors)); } catch {}
-      }
-      const savedStyle = await AsyncStorage.getItem(INVOICE_STYLE_KEY);
-      if (savedStyle) setInvoiceStyleState(savedStyle as InvoiceStyleId);
-    })();
+  const reloadTheme = React.useCallback(async () => {
+    const saved = await AsyncStorage.getItem(THEME_KEY);
+    if (saved === 'dark' || saved === 'light') setModeState(saved);
+    const savedColors = await AsyncStorage.getItem(INVOICE_COLOR_KEY);
+    if (savedColors) {
+      try { setInvoiceColorsState(JSON.parse(savedColors)); } catch {}
+    }
+    const savedStyle = await AsyncStorage.getItem(INVOICE_STYLE_KEY);
+    if (savedStyle) setInvoiceStyleState(savedStyle as InvoiceStyleId);
   }, []);
 
+  useEffect(() => {
+    reloadTheme();
+  }, [reloadTheme]);
+
   const setMode = async (m: ThemeMode) => {
     setModeState(m);
     await AsyncStorage.setItem(THEME_KEY, m);
@@ -136,7 +139,8 @@ export function ThemeProvider({ children }: { children: ReactNode }) {
     setInvoiceColors,
     invoiceStyle,
     setInvoiceStyle,
-  }), [mode, colors, invoiceColors, invoiceStyle]);
+    reloadTheme,
+  }), [mode, colors, invoiceColors, invoiceStyle, reloadTheme]);
 
   return (
     <ThemeContext.Provider value={value}>
@@ -0,0 +1,123 @@
+import React, { createContext, useContext, useState, useEffect, useMemo, useRef, ReactNode } from 'react';
+import { StyleSheet, Text, View, Pressable, Platform, Alert } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import * as Haptics from 'expo-haptics';
+import { restoreFromTrash, purgeTrash, TrashEntry } from '@/lib/storage';
+import { scheduleShootReminder, scheduleInvoiceReminder } from '@/lib/notifications';
+
+const UNDO_TIMEOUT_MS = 5000;
+
+interface PendingUndo {
+  message: string;
+  trashId: string;
+  onRestored?: () => void;
+}
+
+interface UndoContextValue {
+  showUndo: (message: string, trashId: string, onRestored?: () => void) => void;
+}
+
+const UndoContext = createContext<UndoContextValue | null>(null);
+
+// Deleting cancels the record's reminder, so putting it back schedules it again.
+export async function restoreTrashEntry(id: string): Promise<TrashEntry | null> {
+  const entry = await restoreFromTrash(id);
+  if (!entry) return null;
+  const r = entry.record;
+  if (entry.collection === 'ns_upcoming_shoots' && !r.completed) {
+    scheduleShootReminder(r.id, r.clientName, r.shootDate, r.shootTime, r.shootType, r.shootLocation).catch(() => {});
+  } else if (entry.collection === 'ns_invoices') {
+    scheduleInvoiceReminder(r.id, r.invoiceNumber, r.customerNames, r.eventDate, r.eventLocation).catch(() => {});
+  }
+  return entry;
+}
+
+export function UndoProvider({ children }: { children: ReactNode }) {
+  const insets = useSafeAreaInsets();
+  const [pending, setPending] = useState<PendingUndo | null>(null);
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    purgeTrash().catch(() => {});
+    return () => {
+      if (timer.current) clearTimeout(timer.current);
+    };
+  }, []);
+
+  const showUndo = React.useCallback((message: string, trashId: string, onRestored?: () => void) => {
+    if (timer.current) clearTimeout(timer.current);
+    setPending({ message, trashId, onRestored });
+    timer.current = setTimeout(() => setPending(null), UNDO_TIMEOUT_MS);
+  }, []);
+
+  const handleUndo = async () => {
+    if (!pending) return;
+    if (timer.current) clearTimeout(timer.current);
+    setPending(null);
+    let entry: TrashEntry | null;
+    try {
+      entry = await restoreTrashEntry(pending.trashId);
+    } catch {
+      Alert.alert('Error', 'Could not undo the delete. The item is still in the trash.');
+      return;
+    }
+    if (entry) {
+      if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      pending.onRestored?.();
+    }
+  };
+
+  const value = useMemo(() => ({ showUndo }), [showUndo]);
+
+  return (
+    <UndoContext.Provider value={value}>
+      {children}
+      {pending && (
+        <View style={[styles.snackbar, { bottom: insets.bottom + (Platform.OS === 'web' ? 34 : 0) + 90 }]}>
+          <Text style={styles.message} numberOfLines={2}>{pending.message}</Text>
+          <Pressable onPress={handleUndo} hitSlop={10}>
+            <Text style={styles.action}>UNDO</Text>
+          </Pressable>
+        </View>
+      )}
+    </UndoContext.Provider>
+  );
+}
+
+export function useUndo() {
+  const context = useContext(UndoContext);
+  if (!context) throw new Error('useUndo must be used within UndoProvider');
+  return context;
+}
+
+const styles = StyleSheet.create({
+  snackbar: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+    backgroundColor: '#2C1810',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.2,
+    shadowRadius: 8,
+    elevation: 6,
+  },
+  message: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: 'Inter_500Medium',
+    color: '#fff',
+  },
+  action: {
+    fontSize: 14,
+    fontFamily: 'Inter_700Bold',
+    color: '#C8A951',
+    letterSpacing: 1,
+  },
+});
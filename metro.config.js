@@ -2,4 +2,6 @@ const { getDefaultConfig } = require("expo/metro-config");
 
 const config = getDefaultConfig(__dirname);
 
+config.resolver.assetExts.push("wasm");
+
 module.exports = config;
@@ -0,0 +1,118 @@
+CREATE TABLE "branding" (
+	"user_id" varchar PRIMARY KEY NOT NULL,
+	"business_name" text DEFAULT '' NOT NULL,
+	"business_sub" text DEFAULT '' NOT NULL,
+	"owner_name" text DEFAULT '' NOT NULL,
+	"contact_phone" text DEFAULT '' NOT NULL,
+	"contact_email" text DEFAULT '' NOT NULL,
+	"bank_account" text DEFAULT '' NOT NULL,
+	"bank_holder" text DEFAULT '' NOT NULL,
+	"bank_name" text DEFAULT '' NOT NULL,
+	"bank_branch" text DEFAULT '' NOT NULL,
+	"logo_uri" text DEFAULT '' NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "expenses" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"description" text NOT NULL,
+	"amount" numeric(12, 2) NOT NULL,
+	"date" date NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "invoice_items" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"invoice_id" varchar NOT NULL,
+	"position" integer NOT NULL,
+	"description" text NOT NULL,
+	"quantity" text DEFAULT '' NOT NULL,
+	"unit_price" numeric(12, 2)
+);
+--> statement-breakpoint
+CREATE TABLE "invoices" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"invoice_number" text NOT NULL,
+	"invoice_date" date NOT NULL,
+	"due_date" date,
+	"status" text DEFAULT 'draft' NOT NULL,
+	"client_id" varchar,
+	"customer_names" text NOT NULL,
+	"event_date" date,
+	"event_location" text DEFAULT '' NOT NULL,
+	"phone_number" text DEFAULT '' NOT NULL,
+	"price_mode" text DEFAULT 'itemized' NOT NULL,
+	"full_price" numeric(12, 2),
+	"adjustments" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"payments" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"credit_notes" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "invoices_invoice_number_unique" UNIQUE("invoice_number")
+);
+--> statement-breakpoint
+CREATE TABLE "reminder_settings" (
+	"user_id" varchar PRIMARY KEY NOT NULL,
+	"shoot_reminders" boolean DEFAULT true NOT NULL,
+	"invoice_reminders" boolean DEFAULT true NOT NULL,
+	"reminder_timing" text DEFAULT '1d' NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "sessions" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" varchar NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "shoots" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"upcoming_shoot_id" varchar,
+	"client_id" varchar,
+	"client_name" text NOT NULL,
+	"shoot_date" date NOT NULL,
+	"shoot_time" text DEFAULT '' NOT NULL,
+	"shoot_location" text DEFAULT '' NOT NULL,
+	"salon_name" text DEFAULT '' NOT NULL,
+	"model_name" text DEFAULT '' NOT NULL,
+	"shoot_type" text NOT NULL,
+	"price" numeric(12, 2) DEFAULT '0' NOT NULL,
+	"advance_paid" numeric(12, 2),
+	"phone_number" text DEFAULT '' NOT NULL,
+	"notes" text DEFAULT '' NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "upcoming_shoots" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"client_id" varchar,
+	"client_name" text NOT NULL,
+	"shoot_date" date NOT NULL,
+	"shoot_time" text DEFAULT '' NOT NULL,
+	"shoot_location" text DEFAULT '' NOT NULL,
+	"salon_name" text DEFAULT '' NOT NULL,
+	"model_name" text DEFAULT '' NOT NULL,
+	"shoot_type" text NOT NULL,
+	"contact_number" text DEFAULT '' NOT NULL,
+	"package_price" numeric(12, 2),
+	"advance_paid" numeric(12, 2),
+	"notes" text DEFAULT '' NOT NULL,
+	"completed" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+ALTER TABLE "branding" ADD CONSTRAINT "branding_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "invoice_items" ADD CONSTRAINT "invoice_items_invoice_id_invoices_id_fk" FOREIGN KEY ("invoice_id") REFERENCES "public"."invoices"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "reminder_settings" ADD CONSTRAINT "reminder_settings_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shoots" ADD CONSTRAINT "shoots_upcoming_shoot_id_upcoming_shoots_id_fk" FOREIGN KEY ("upcoming_shoot_id") REFERENCES "public"."upcoming_shoots"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "invoices" DROP CONSTRAINT "invoices_invoice_number_unique";--> statement-breakpoint
+CREATE UNIQUE INDEX "invoices_invoice_number_unique" ON "invoices" USING btree (lower(trim("invoice_number")));
\ No newline at end of file
@@ -0,0 +1,82 @@
+import express from "express";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+
+let server: Server;
+let baseUrl: string;
+
+// A fresh module registry per test gives each one an empty MemStorage and its
+// own rate limit counts.
+beforeEach(async () => {
+  jest.resetModules();
+  const { registerAuthRoutes } = require("../auth") as typeof import("../auth");
+  const app = express();
+  app.use(express.json());
+  registerAuthRoutes(app);
+  server = app.listen(0, "127.0.0.1");
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  delete process.env.ALLOW_SIGNUP;
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+function post(path: string, body: unknown) {
+  return fetch(`${baseUrl}${path}`, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+const ann = { username: "ann", password: "correct horse" };
+
+describe("sign-up", () => {
+  it("is open for the first account only", async () => {
+    expect((await post("/api/auth/register", ann)).status).toBe(201);
+    const second = await post("/api/auth/register", { username: "bob", password: "battery staple" });
+    expect(second.status).toBe(403);
+  });
+
+  it("lets more accounts in with ALLOW_SIGNUP=true", async () => {
+    await post("/api/auth/register", ann);
+    process.env.ALLOW_SIGNUP = "true";
+    const second = await post("/api/auth/register", { username: "bob", password: "battery staple" });
+    expect(second.status).toBe(201);
+    expect((await post("/api/auth/register", ann)).status).toBe(409);
+  });
+
+  it("admits only one of two racing first accounts", async () => {
+    const results = await Promise.all([
+      post("/api/auth/register", ann),
+      post("/api/auth/register", { username: "bob", password: "battery staple" }),
+    ]);
+    expect(results.map((res) => res.status).sort()).toEqual([201, 403]);
+  });
+});
+
+describe("login", () => {
+  it("gives the same answer for an unknown user and a wrong password", async () => {
+    await post("/api/auth/register", ann);
+    const unknown = await post("/api/auth/login", { username: "nobody", password: "x" });
+    const wrong = await post("/api/auth/login", { ...ann, password: "wrong" });
+    expect(unknown.status).toBe(401);
+    expect(wrong.status).toBe(401);
+    expect(await unknown.json()).toEqual(await wrong.json());
+    const ok = await post("/api/auth/login", ann);
+    expect(ok.status).toBe(200);
+    expect(ok.headers.get("set-cookie")).toMatch(/^ns_session=/);
+  });
+
+  it("is rate limited per address", async () => {
+    for (let attempt = 0; attempt < 10; attempt++) {
+      expect((await post("/api/auth/login", { username: "ann", password: "guess" })).status).toBe(401);
+    }
+    const limited = await post("/api/auth/login", ann);
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get("retry-after")).toBeTruthy();
+  });
+});
@@ -0,0 +1,56 @@
+import express from "express";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import { rateLimit, trustProxy } from "../rate-limit";
+
+let server: Server | undefined;
+
+afterEach(async () => {
+  if (!server) return;
+  server.closeAllConnections();
+  await new Promise((resolve) => server!.close(resolve));
+  server = undefined;
+});
+
+async function start(trust: ReturnType<typeof trustProxy>): Promise<string> {
+  const app = express();
+  app.set("trust proxy", trust);
+  app.get("/limited", rateLimit({ windowMs: 60 * 1000, max: 2 }), (_req, res) => {
+    res.status(204).end();
+  });
+  server = app.listen(0, "127.0.0.1");
+  await new Promise((resolve) => server!.once("listening", resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}/limited`;
+}
+
+function from(url: string, forwardedFor: string) {
+  return fetch(url, { headers: { "x-forwarded-for": forwardedFor } });
+}
+
+describe("rateLimit", () => {
+  it("ignores X-Forwarded-For unless a proxy is trusted", async () => {
+    const url = await start(trustProxy(undefined));
+    expect((await from(url, "203.0.113.1")).status).toBe(204);
+    expect((await from(url, "203.0.113.2")).status).toBe(204);
+    expect((await from(url, "203.0.113.3")).status).toBe(429);
+  });
+
+  it("keys on the forwarded address behind a trusted proxy", async () => {
+    const url = await start(trustProxy("loopback"));
+    for (const address of ["203.0.113.1", "203.0.113.2", "203.0.113.3"]) {
+      expect((await from(url, address)).status).toBe(204);
+    }
+    await from(url, "203.0.113.1");
+    expect((await from(url, "203.0.113.1")).status).toBe(429);
+  });
+});
+
+describe("trustProxy", () => {
+  it("reads TRUST_PROXY", () => {
+    expect(trustProxy(undefined)).toBe(false);
+    expect(trustProxy("false")).toBe(false);
+    expect(trustProxy("true")).toBe(true);
+    expect(trustProxy(" 2 ")).toBe(2);
+    expect(trustProxy("10.0.0.0/8, loopback")).toBe("10.0.0.0/8, loopback");
+  });
+});
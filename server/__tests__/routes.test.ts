@@ -0,0 +1,131 @@
+import express from "express";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+
+let server: Server;
+let baseUrl: string;
+let cookie: string;
+
+// A fresh module registry per test gives each one an empty MemStorage; the
+// first account signs up and its session cookie is sent with every request.
+beforeEach(async () => {
+  jest.resetModules();
+  const { registerRoutes } = require("../routes") as typeof import("../routes");
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  server.listen(0, "127.0.0.1");
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const res = await fetch(`${baseUrl}/api/auth/register`, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ username: "ann", password: "correct horse" }),
+  });
+  cookie = res.headers.get("set-cookie")!.split(";")[0];
+});
+
+afterEach(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+function request(method: string, path: string, body?: unknown) {
+  return fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { "content-type": "application/json", cookie },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+const invoice = {
+  invoiceNumber: "INV-0001",
+  invoiceDate: "2026-03-14",
+  customerNames: "Asha & Ravi",
+  items: [{ description: "Wedding coverage", quantity: "1", unitPrice: "45000.00" }],
+};
+
+describe("auth", () => {
+  it("answers 401 without a session", async () => {
+    const res = await fetch(`${baseUrl}/api/invoices`);
+    expect(res.status).toBe(401);
+  });
+});
+
+describe("invoices", () => {
+  it("answers 400 with a message for a body that does not validate", async () => {
+    const res = await request("POST", "/api/invoices", { ...invoice, invoiceDate: "14/03/2026" });
+    expect(res.status).toBe(400);
+    expect((await res.json()).message).toMatch(/invoiceDate/);
+  });
+
+  it("answers 404 for an invoice that does not exist", async () => {
+    expect((await request("GET", "/api/invoices/missing")).status).toBe(404);
+    expect((await request("PUT", "/api/invoices/missing", { status: "sent" })).status).toBe(404);
+    expect((await request("DELETE", "/api/invoices/missing")).status).toBe(404);
+  });
+
+  it("answers 409 for a number already in use, ignoring case", async () => {
+    expect((await request("POST", "/api/invoices", invoice)).status).toBe(201);
+    const res = await request("POST", "/api/invoices", { ...invoice, invoiceNumber: "inv-0001" });
+    expect(res.status).toBe(409);
+  });
+
+  it("parses paging and filters from the query string", async () => {
+    for (const [number, date, status] of [
+      ["INV-0001", "2026-01-10", "draft"],
+      ["INV-0002", "2026-02-10", "sent"],
+      ["INV-0003", "2026-03-10", "sent"],
+    ]) {
+      await request("POST", "/api/invoices", { ...invoice, invoiceNumber: number, invoiceDate: date, status });
+    }
+    const res = await request("GET", "/api/invoices?status=sent&page=2&pageSize=1");
+    const page = await res.json();
+    expect(page).toMatchObject({ total: 2, page: 2, pageSize: 1 });
+    expect(page.data.map((inv: { invoiceNumber: string }) => inv.invoiceNumber)).toEqual(["INV-0002"]);
+    const defaults = await (await request("GET", "/api/invoices?from=2026-02-01")).json();
+    expect(defaults).toMatchObject({ total: 2, page: 1, pageSize: 20 });
+    for (const query of ["pageSize=500", "page=0", "from=yesterday", "status=lost"]) {
+      expect((await request("GET", `/api/invoices?${query}`)).status).toBe(400);
+    }
+  });
+});
+
+describe("shoots and expenses", () => {
+  it("filters by month and rejects a month without a year", async () => {
+    for (const shootDate of ["2026-03-31", "2026-04-01"]) {
+      await request("POST", "/api/shoots", { clientName: "Mira", shootDate, shootType: "Casual" });
+    }
+    const april = await (await request("GET", "/api/shoots?year=2026&month=4")).json();
+    expect(april.map((shoot: { shootDate: string }) => shoot.shootDate)).toEqual(["2026-04-01"]);
+    expect((await request("GET", "/api/shoots?month=4")).status).toBe(400);
+    expect((await request("GET", "/api/expenses?year=2026&month=13")).status).toBe(400);
+  });
+
+  it("answers 400 for an incomplete expense and 404 for missing records", async () => {
+    const res = await request("POST", "/api/expenses", { description: "Fuel", date: "2026-05-03" });
+    expect(res.status).toBe(400);
+    expect((await request("PUT", "/api/expenses/missing", { amount: "10.00" })).status).toBe(404);
+    expect((await request("GET", "/api/shoots/missing")).status).toBe(404);
+  });
+});
+
+describe("bookings", () => {
+  it("completes a booking once and answers 409 after that", async () => {
+    const created = await request("POST", "/api/upcoming", {
+      clientName: "Leela",
+      shootDate: "2026-04-02",
+      shootType: "Wedding",
+      packagePrice: "30000.00",
+    });
+    const { id } = await created.json();
+    const results = await Promise.all([
+      request("POST", `/api/upcoming/${id}/complete`),
+      request("POST", `/api/upcoming/${id}/complete`),
+    ]);
+    expect(results.map((res) => res.status).sort()).toEqual([200, 409]);
+    const shoots = await (await request("GET", "/api/shoots")).json();
+    expect(shoots).toHaveLength(1);
+    expect((await request("POST", "/api/upcoming/missing/complete")).status).toBe(404);
+  });
+});
@@ -0,0 +1,207 @@
+import type { InsertInvoice, InsertUpcomingShoot } from "@shared/schema";
+import { createEmbeddedDb } from "../db";
+import { DatabaseStorage } from "../database-storage";
+import { MemStorage, type IStorage } from "../storage";
+
+const invoice: InsertInvoice = {
+  invoiceNumber: "INV-0001",
+  invoiceDate: "2026-03-14",
+  customerNames: "Asha & Ravi",
+  items: [
+    { description: "Wedding coverage", quantity: "1", unitPrice: "45000.00" },
+    { description: "Album", quantity: "2", unitPrice: "7500.00" },
+  ],
+};
+
+const booking: InsertUpcomingShoot = {
+  clientName: "Leela",
+  shootDate: "2026-04-02",
+  shootType: "Wedding",
+  packagePrice: "30000.00",
+};
+
+// The same expectations run against every IStorage implementation, so the
+// in-memory one keeps behaving like the database.
+describe.each([
+  ["MemStorage", async (): Promise<IStorage> => new MemStorage()],
+  [
+    "DatabaseStorage (embedded)",
+    async (): Promise<IStorage> => {
+      const { db, ready } = createEmbeddedDb();
+      await ready;
+      return new DatabaseStorage(db);
+    },
+  ],
+])("%s", (_name, create) => {
+  let storage: IStorage;
+
+  beforeEach(async () => {
+    storage = await create();
+  });
+
+  describe("invoices", () => {
+    it("creates an invoice with its defaults and items in order", async () => {
+      const created = await storage.createInvoice(invoice);
+      expect(created).toMatchObject({
+        invoiceNumber: "INV-0001",
+        status: "draft",
+        priceMode: "itemized",
+        payments: [],
+        items: [
+          { description: "Wedding coverage", unitPrice: "45000.00" },
+          { description: "Album", quantity: "2" },
+        ],
+      });
+      expect(await storage.getInvoice(created.id)).toEqual(created);
+    });
+
+    it("gives every item its own id, even across copied invoices", async () => {
+      const first = await storage.createInvoice(invoice);
+      const copy = await storage.createInvoice({
+        ...invoice,
+        invoiceNumber: "INV-0002",
+        items: first.items,
+      });
+      const ids = [...first.items, ...copy.items].map((item) => item.id);
+      expect(new Set(ids).size).toBe(4);
+    });
+
+    it("finds an invoice by number ignoring case and spaces", async () => {
+      const created = await storage.createInvoice(invoice);
+      expect((await storage.getInvoiceByNumber("  inv-0001 "))?.id).toBe(created.id);
+      expect(await storage.getInvoiceByNumber("INV-0002")).toBeUndefined();
+    });
+
+    it("replaces the items only when they are sent", async () => {
+      const created = await storage.createInvoice(invoice);
+      const renamed = await storage.updateInvoice(created.id, { customerNames: "Asha" });
+      expect(renamed?.items).toEqual(created.items);
+      const trimmed = await storage.updateInvoice(created.id, {
+        items: [{ description: "Prints", quantity: "10" }],
+      });
+      expect(trimmed?.customerNames).toBe("Asha");
+      expect(trimmed?.items).toMatchObject([{ description: "Prints", unitPrice: null }]);
+      expect(await storage.updateInvoice("missing", { status: "sent" })).toBeUndefined();
+    });
+
+    it("filters and pages the list, newest first", async () => {
+      for (const [number, date, status] of [
+        ["INV-0001", "2026-01-10", "draft"],
+        ["INV-0002", "2026-02-10", "sent"],
+        ["INV-0003", "2026-03-10", "sent"],
+      ] as const) {
+        await storage.createInvoice({ ...invoice, invoiceNumber: number, invoiceDate: date, status });
+      }
+      const query = { page: 1, pageSize: 1 };
+      const sent = await storage.listInvoices({ ...query, status: "sent" });
+      expect(sent.total).toBe(2);
+      expect(sent.data.map((inv) => inv.invoiceNumber)).toEqual(["INV-0003"]);
+      const early = await storage.listInvoices({ page: 1, pageSize: 10, to: "2026-02-28" });
+      expect(early.data.map((inv) => inv.invoiceNumber)).toEqual(["INV-0002", "INV-0001"]);
+      const byName = await storage.listInvoices({ page: 1, pageSize: 10, customer: "RAVI" });
+      expect(byName.total).toBe(3);
+    });
+
+    it("matches % and _ in a customer search as plain text", async () => {
+      for (const [number, customerNames] of [
+        ["INV-0001", "Asha_Ravi 100%"],
+        ["INV-0002", "AshaXRavi 1000"],
+      ]) {
+        await storage.createInvoice({ ...invoice, invoiceNumber: number, customerNames });
+      }
+      const search = (customer: string) =>
+        storage.listInvoices({ page: 1, pageSize: 10, customer });
+      expect((await search("a_r")).data.map((inv) => inv.invoiceNumber)).toEqual(["INV-0001"]);
+      expect((await search("100%")).data.map((inv) => inv.invoiceNumber)).toEqual(["INV-0001"]);
+      expect((await search("\\")).total).toBe(0);
+    });
+
+    it("deletes an invoice once", async () => {
+      const created = await storage.createInvoice(invoice);
+      expect(await storage.deleteInvoice(created.id)).toBe(true);
+      expect(await storage.deleteInvoice(created.id)).toBe(false);
+      expect(await storage.getInvoice(created.id)).toBeUndefined();
+    });
+  });
+
+  describe("shoots and bookings", () => {
+    it("turns a completed booking into a shoot", async () => {
+      const upcoming = await storage.createUpcomingShoot(booking);
+      const result = await storage.completeUpcomingShoot(upcoming.id);
+      expect(result?.upcoming.completed).toBe(true);
+      expect(result?.shoot).toMatchObject({
+        upcomingShootId: upcoming.id,
+        clientName: "Leela",
+        shootDate: "2026-04-02",
+        price: "30000.00",
+      });
+      expect(await storage.listUpcomingShootsFrom("2026-01-01")).toEqual([]);
+      expect(await storage.completeUpcomingShoot("missing")).toBeUndefined();
+    });
+
+    it("completes a booking only once, even when asked twice at the same time", async () => {
+      const upcoming = await storage.createUpcomingShoot(booking);
+      const results = await Promise.all([
+        storage.completeUpcomingShoot(upcoming.id),
+        storage.completeUpcomingShoot(upcoming.id),
+      ]);
+      expect(results.filter(Boolean)).toHaveLength(1);
+      expect(await storage.listShoots({})).toHaveLength(1);
+    });
+
+    it("lists shoots for a month", async () => {
+      for (const shootDate of ["2026-03-31", "2026-04-01", "2027-04-15"]) {
+        await storage.createShoot({ clientName: "Mira", shootDate, shootType: "Casual" });
+      }
+      const april = await storage.listShoots({ year: 2026, month: 4 });
+      expect(april.map((shoot) => shoot.shootDate)).toEqual(["2026-04-01"]);
+      expect(await storage.listShoots({})).toHaveLength(3);
+    });
+  });
+
+  describe("expenses", () => {
+    it("lists expenses for a year and applies updates", async () => {
+      const fuel = await storage.createExpense({ description: "Fuel", amount: "1200.00", date: "2026-05-03" });
+      await storage.createExpense({ description: "Lens", amount: "80000.00", date: "2025-12-30" });
+      const year = await storage.listExpenses({ year: 2026 });
+      expect(year.map((expense) => expense.description)).toEqual(["Fuel"]);
+      const updated = await storage.updateExpense(fuel.id, { amount: "1500.00" });
+      expect(updated).toMatchObject({ description: "Fuel", amount: "1500.00" });
+    });
+  });
+
+  describe("sessions", () => {
+    it("only returns sessions that have not expired", async () => {
+      expect(await storage.hasUsers()).toBe(false);
+      const user = await storage.createUser({ username: "ann", password: "salt:hash" });
+      expect(await storage.hasUsers()).toBe(true);
+      const hour = 60 * 60 * 1000;
+      await storage.createSession({
+        id: "old",
+        userId: user.id,
+        expiresAt: new Date(Date.now() - hour).toISOString(),
+      });
+      await storage.createSession({
+        id: "live",
+        userId: user.id,
+        expiresAt: new Date(Date.now() + hour).toISOString(),
+      });
+      expect(await storage.getSession("old")).toBeUndefined();
+      expect((await storage.getSession("live"))?.userId).toBe(user.id);
+      await storage.deleteSession("live");
+      expect(await storage.getSession("live")).toBeUndefined();
+    });
+  });
+});
+
+describe("DatabaseStorage (embedded) invoice numbers", () => {
+  it("are unique ignoring case and spaces, even without the route's check", async () => {
+    const { db, ready } = createEmbeddedDb();
+    await ready;
+    const storage = new DatabaseStorage(db);
+    await storage.createInvoice(invoice);
+    await expect(
+      storage.createInvoice({ ...invoice, invoiceNumber: " inv-0001" }),
+    ).rejects.toMatchObject({ code: "23505" });
+  });
+});
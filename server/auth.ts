@@ -0,0 +1,179 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import {
+  registerUserSchema,
+  loginSchema,
+  type User,
+  type PublicUser,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { rateLimit } from "./rate-limit";
+import { validate } from "./validate";
+
+declare module "http" {
+  interface IncomingMessage {
+    user?: PublicUser;
+  }
+}
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: string,
+  keylen: number,
+) => Promise<Buffer>;
+
+const SESSION_COOKIE = "ns_session";
+const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+const KEY_LENGTH = 64;
+
+// Stored as "salt:hash", both hex, with a fresh random salt per password.
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${salt}:${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(
+  password: string,
+  stored: string,
+): Promise<boolean> {
+  const [salt, hash] = stored.split(":");
+  if (!salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(password, salt, expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// Checked against when a login names an unknown user, so that answer takes as
+// long as a wrong password and does not reveal which usernames exist.
+let dummyHash: Promise<string> | undefined;
+
+function dummyPasswordHash(): Promise<string> {
+  dummyHash ??= hashPassword(randomBytes(16).toString("hex"));
+  return dummyHash;
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function readSessionToken(req: Request): string | undefined {
+  const header = req.headers.cookie;
+  if (!header) return undefined;
+  for (const part of header.split(";")) {
+    const [name, ...value] = part.trim().split("=");
+    if (name === SESSION_COOKIE) return decodeURIComponent(value.join("="));
+  }
+  return undefined;
+}
+
+function toPublicUser({ password: _password, ...user }: User): PublicUser {
+  return user;
+}
+
+const cookieOptions = {
+  httpOnly: true,
+  sameSite: "lax" as const,
+  secure: process.env.NODE_ENV === "production",
+  path: "/",
+};
+
+async function startSession(res: Response, user: User): Promise<void> {
+  const token = randomBytes(32).toString("hex");
+  await storage.createSession({
+    id: hashToken(token),
+    userId: user.id,
+    expiresAt: new Date(Date.now() + SESSION_MAX_AGE_MS).toISOString(),
+  });
+  res.cookie(SESSION_COOKIE, token, {
+    ...cookieOptions,
+    maxAge: SESSION_MAX_AGE_MS,
+  });
+}
+
+// Answers 401 unless the request carries a live session cookie; otherwise
+// puts the signed-in user on `req.user`.
+export async function requireAuth(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  const token = readSessionToken(req);
+  const session = token ? await storage.getSession(hashToken(token)) : undefined;
+  const user = session ? await storage.getUser(session.userId) : undefined;
+  if (!user) return res.status(401).json({ message: "Not signed in" });
+  req.user = toPublicUser(user);
+  next();
+}
+
+// All business data belongs to the one business the server runs for, so every
+// account can see all of it. Only the first account may sign up on its own;
+// after that ALLOW_SIGNUP=true has to be set to add more.
+function signupAllowed(): Promise<boolean> {
+  if (process.env.ALLOW_SIGNUP === "true") return Promise.resolve(true);
+  return storage.hasUsers().then((hasUsers) => !hasUsers);
+}
+
+// Registrations run one at a time, so two requests racing to be the first
+// account cannot both get in.
+let registration: Promise<unknown> = Promise.resolve();
+
+function oneAtATime<T>(task: () => Promise<T>): Promise<T> {
+  const run = registration.then(task);
+  registration = run.catch(() => {});
+  return run;
+}
+
+export function registerAuthRoutes(app: Express) {
+  // Ten tries per address every 15 minutes keeps password guessing slow.
+  const limitAttempts = rateLimit({ windowMs: 15 * 60 * 1000, max: 10 });
+
+  app.post("/api/auth/register", limitAttempts, async (req, res) => {
+    const data = validate(registerUserSchema, req.body, res);
+    if (!data) return;
+    const user = await oneAtATime(async () => {
+      if (!(await signupAllowed())) {
+        res.status(403).json({ message: "Sign-up is closed" });
+        return undefined;
+      }
+      if (await storage.getUserByUsername(data.username)) {
+        res.status(409).json({ message: "That username is already taken" });
+        return undefined;
+      }
+      return storage.createUser({
+        username: data.username,
+        password: await hashPassword(data.password),
+      });
+    });
+    if (!user) return;
+    await startSession(res, user);
+    res.status(201).json(toPublicUser(user));
+  });
+
+  app.post("/api/auth/login", limitAttempts, async (req, res) => {
+    const data = validate(loginSchema, req.body, res);
+    if (!data) return;
+    const user = await storage.getUserByUsername(data.username);
+    const valid = await verifyPassword(
+      data.password,
+      user?.password ?? (await dummyPasswordHash()),
+    );
+    if (!user || !valid) {
+      return res.status(401).json({ message: "Invalid username or password" });
+    }
+    await startSession(res, user);
+    res.json(toPublicUser(user));
+  });
+
+  app.post("/api/auth/logout", async (req, res) => {
+    const token = readSessionToken(req);
+    if (token) await storage.deleteSession(hashToken(token));
+    res.clearCookie(SESSION_COOKIE, cookieOptions);
+    res.status(204).end();
+  });
+
+  app.get("/api/auth/me", requireAuth, (req, res) => {
+    res.json(req.user);
+  });
+}
@@ -0,0 +1,397 @@
+import { and, asc, count, desc, eq, gt, gte, ilike, inArray, lt, lte, sql, type SQL } from "drizzle-orm";
+import {
+  users,
+  sessions,
+  invoices,
+  invoiceItems,
+  shoots,
+  upcomingShoots,
+  expenses,
+  type User,
+  type InsertUser,
+  type Session,
+  type InsertSession,
+  type Invoice,
+  type InvoiceItem,
+  type InsertInvoice,
+  type InsertInvoiceItem,
+  type UpdateInvoice,
+  type InvoiceListQuery,
+  type ShootEntry,
+  type InsertShoot,
+  type UpdateShoot,
+  type UpcomingShoot,
+  type InsertUpcomingShoot,
+  type UpdateUpcomingShoot,
+  type Expense,
+  type InsertExpense,
+  type UpdateExpense,
+  type MonthQuery,
+  type Page,
+} from "@shared/schema";
+import type { Database } from "./db";
+import type { IStorage } from "./storage";
+
+type InvoiceRow = typeof invoices.$inferSelect;
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+// The [from, to) date range for a year or a month of it.
+function periodBounds({ year, month }: MonthQuery): [string, string] | undefined {
+  if (year === undefined) return undefined;
+  if (month === undefined) return [`${year}-01-01`, `${year + 1}-01-01`];
+  const pad = (value: number) => String(value).padStart(2, "0");
+  const next = month === 12 ? `${year + 1}-01-01` : `${year}-${pad(month + 1)}-01`;
+  return [`${year}-${pad(month)}-01`, next];
+}
+
+function inPeriod(column: typeof shoots.shootDate | typeof expenses.date, query: MonthQuery): SQL | undefined {
+  const bounds = periodBounds(query);
+  return bounds && and(gte(column, bounds[0]), lt(column, bounds[1]));
+}
+
+// Escapes LIKE's wildcards so a search for "50%" or "a_b" matches that text;
+// backslash is Postgres's default LIKE escape character.
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+// Only the item's own fields are copied, so the row always gets a fresh id.
+function itemRows(invoiceId: string, items: InsertInvoiceItem[]) {
+  return items.map(({ description, quantity, unitPrice }, position) => ({
+    description,
+    quantity,
+    unitPrice,
+    invoiceId,
+    position,
+  }));
+}
+
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db
+      .select()
+      .from(users)
+      .where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async hasUsers(): Promise<boolean> {
+    const [user] = await this.db.select({ id: users.id }).from(users).limit(1);
+    return user !== undefined;
+  }
+
+  async createSession(insertSession: InsertSession): Promise<Session> {
+    await this.db.delete(sessions).where(lte(sessions.expiresAt, sql`now()`));
+    const [session] = await this.db
+      .insert(sessions)
+      .values(insertSession)
+      .returning();
+    return session;
+  }
+
+  async getSession(id: string): Promise<Session | undefined> {
+    const [session] = await this.db
+      .select()
+      .from(sessions)
+      .where(and(eq(sessions.id, id), gt(sessions.expiresAt, sql`now()`)));
+    return session;
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    await this.db.delete(sessions).where(eq(sessions.id, id));
+  }
+
+  // Items are stored in their own table; this puts them back on each invoice
+  // in their original order.
+  private async withItems(
+    rows: InvoiceRow[],
+    db: Database | Transaction = this.db,
+  ): Promise<Invoice[]> {
+    if (rows.length === 0) return [];
+    const items = await db
+      .select()
+      .from(invoiceItems)
+      .where(inArray(invoiceItems.invoiceId, rows.map((row) => row.id)))
+      .orderBy(asc(invoiceItems.position));
+    const byInvoice = new Map<string, InvoiceItem[]>();
+    items.forEach(({ invoiceId, position: _position, ...item }) => {
+      byInvoice.set(invoiceId, [...(byInvoice.get(invoiceId) ?? []), item]);
+    });
+    return rows.map((row) => ({ ...row, items: byInvoice.get(row.id) ?? [] }));
+  }
+
+  async listInvoices(query: InvoiceListQuery): Promise<Page<Invoice>> {
+    const customer = query.customer?.trim();
+    const where = and(
+      query.from ? gte(invoices.invoiceDate, query.from) : undefined,
+      query.to ? lte(invoices.invoiceDate, query.to) : undefined,
+      query.clientId ? eq(invoices.clientId, query.clientId) : undefined,
+      customer ? ilike(invoices.customerNames, `%${escapeLike(customer)}%`) : undefined,
+      query.status ? eq(invoices.status, query.status) : undefined,
+    );
+    const [{ total }] = await this.db
+      .select({ total: count() })
+      .from(invoices)
+      .where(where);
+    const rows = await this.db
+      .select()
+      .from(invoices)
+      .where(where)
+      .orderBy(desc(invoices.createdAt))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+    return {
+      data: await this.withItems(rows),
+      total,
+      page: query.page,
+      pageSize: query.pageSize,
+    };
+  }
+
+  async getInvoice(id: string): Promise<Invoice | undefined> {
+    const rows = await this.db.select().from(invoices).where(eq(invoices.id, id));
+    const [invoice] = await this.withItems(rows);
+    return invoice;
+  }
+
+  async getInvoiceByNumber(invoiceNumber: string): Promise<Invoice | undefined> {
+    const rows = await this.db
+      .select()
+      .from(invoices)
+      .where(
+        sql`lower(trim(${invoices.invoiceNumber})) = ${invoiceNumber.trim().toLowerCase()}`,
+      );
+    const [invoice] = await this.withItems(rows);
+    return invoice;
+  }
+
+  async createInvoice(insertInvoice: InsertInvoice): Promise<Invoice> {
+    const { items = [], ...fields } = insertInvoice;
+    return this.db.transaction(async (tx) => {
+      const [row] = await tx.insert(invoices).values(fields).returning();
+      if (items.length > 0) {
+        await tx.insert(invoiceItems).values(itemRows(row.id, items));
+      }
+      const [invoice] = await this.withItems([row], tx);
+      return invoice;
+    });
+  }
+
+  async updateInvoice(
+    id: string,
+    updates: UpdateInvoice,
+  ): Promise<Invoice | undefined> {
+    const { items, ...fields } = updates;
+    return this.db.transaction(async (tx) => {
+      const [row] = await tx
+        .update(invoices)
+        .set({ ...fields, updatedAt: new Date().toISOString() })
+        .where(eq(invoices.id, id))
+        .returning();
+      if (!row) return undefined;
+      if (items) {
+        await tx.delete(invoiceItems).where(eq(invoiceItems.invoiceId, id));
+        if (items.length > 0) {
+          await tx.insert(invoiceItems).values(itemRows(id, items));
+        }
+      }
+      const [invoice] = await this.withItems([row], tx);
+      return invoice;
+    });
+  }
+
+  async deleteInvoice(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(invoices)
+      .where(eq(invoices.id, id))
+      .returning({ id: invoices.id });
+    return deleted.length > 0;
+  }
+
+  async listShoots(query: MonthQuery): Promise<ShootEntry[]> {
+    return this.db
+      .select()
+      .from(shoots)
+      .where(inPeriod(shoots.shootDate, query))
+      .orderBy(desc(shoots.shootDate));
+  }
+
+  async getShoot(id: string): Promise<ShootEntry | undefined> {
+    const [shoot] = await this.db.select().from(shoots).where(eq(shoots.id, id));
+    return shoot;
+  }
+
+  async createShoot(insertShoot: InsertShoot): Promise<ShootEntry> {
+    const [shoot] = await this.db.insert(shoots).values(insertShoot).returning();
+    return shoot;
+  }
+
+  async updateShoot(
+    id: string,
+    updates: UpdateShoot,
+  ): Promise<ShootEntry | undefined> {
+    const [shoot] = await this.db
+      .update(shoots)
+      .set({ ...updates, updatedAt: new Date().toISOString() })
+      .where(eq(shoots.id, id))
+      .returning();
+    return shoot;
+  }
+
+  async deleteShoot(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(shoots)
+      .where(eq(shoots.id, id))
+      .returning({ id: shoots.id });
+    return deleted.length > 0;
+  }
+
+  async listUpcomingShoots(): Promise<UpcomingShoot[]> {
+    return this.db
+      .select()
+      .from(upcomingShoots)
+      .orderBy(asc(upcomingShoots.shootDate));
+  }
+
+  async listUpcomingShootsFrom(date: string): Promise<UpcomingShoot[]> {
+    return this.db
+      .select()
+      .from(upcomingShoots)
+      .where(
+        and(
+          gte(upcomingShoots.shootDate, date),
+          eq(upcomingShoots.completed, false),
+        ),
+      )
+      .orderBy(asc(upcomingShoots.shootDate));
+  }
+
+  async getUpcomingShoot(id: string): Promise<UpcomingShoot | undefined> {
+    const [shoot] = await this.db
+      .select()
+      .from(upcomingShoots)
+      .where(eq(upcomingShoots.id, id));
+    return shoot;
+  }
+
+  async createUpcomingShoot(
+    insertShoot: InsertUpcomingShoot,
+  ): Promise<UpcomingShoot> {
+    const [shoot] = await this.db
+      .insert(upcomingShoots)
+      .values(insertShoot)
+      .returning();
+    return shoot;
+  }
+
+  async updateUpcomingShoot(
+    id: string,
+    updates: UpdateUpcomingShoot,
+  ): Promise<UpcomingShoot | undefined> {
+    const [shoot] = await this.db
+      .update(upcomingShoots)
+      .set({ ...updates, updatedAt: new Date().toISOString() })
+      .where(eq(upcomingShoots.id, id))
+      .returning();
+    return shoot;
+  }
+
+  async completeUpcomingShoot(
+    id: string,
+  ): Promise<{ upcoming: UpcomingShoot; shoot: ShootEntry } | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [upcoming] = await tx
+        .update(upcomingShoots)
+        .set({ completed: true, updatedAt: new Date().toISOString() })
+        .where(
+          and(eq(upcomingShoots.id, id), eq(upcomingShoots.completed, false)),
+        )
+        .returning();
+      if (!upcoming) return undefined;
+      const [shoot] = await tx
+        .insert(shoots)
+        .values({
+          upcomingShootId: upcoming.id,
+          clientId: upcoming.clientId,
+          clientName: upcoming.clientName,
+          shootDate: upcoming.shootDate,
+          shootTime: upcoming.shootTime,
+          shootLocation: upcoming.shootLocation,
+          salonName: upcoming.salonName,
+          modelName: upcoming.modelName,
+          shootType: upcoming.shootType,
+          price: upcoming.packagePrice || "0",
+          advancePaid: upcoming.advancePaid,
+          phoneNumber: upcoming.contactNumber,
+          notes: upcoming.notes,
+        })
+        .returning();
+      return { upcoming, shoot };
+    });
+  }
+
+  async deleteUpcomingShoot(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(upcomingShoots)
+      .where(eq(upcomingShoots.id, id))
+      .returning({ id: upcomingShoots.id });
+    return deleted.length > 0;
+  }
+
+  async listExpenses(query: MonthQuery): Promise<Expense[]> {
+    return this.db
+      .select()
+      .from(expenses)
+      .where(inPeriod(expenses.date, query))
+      .orderBy(desc(expenses.createdAt));
+  }
+
+  async getExpense(id: string): Promise<Expense | undefined> {
+    const [expense] = await this.db
+      .select()
+      .from(expenses)
+      .where(eq(expenses.id, id));
+    return expense;
+  }
+
+  async createExpense(insertExpense: InsertExpense): Promise<Expense> {
+    const [expense] = await this.db
+      .insert(expenses)
+      .values(insertExpense)
+      .returning();
+    return expense;
+  }
+
+  async updateExpense(
+    id: string,
+    updates: UpdateExpense,
+  ): Promise<Expense | undefined> {
+    if (Object.keys(updates).length === 0) return this.getExpense(id);
+    const [expense] = await this.db
+      .update(expenses)
+      .set(updates)
+      .where(eq(expenses.id, id))
+      .returning();
+    return expense;
+  }
+
+  async deleteExpense(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(expenses)
+      .where(eq(expenses.id, id))
+      .returning({ id: expenses.id });
+    return deleted.length > 0;
+  }
+}
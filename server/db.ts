@@ -0,0 +1,29 @@
+import path from "node:path";
+import { drizzle } from "drizzle-orm/node-postgres";
+import { drizzle as drizzlePglite } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+// Any Postgres-compatible server works; tables are created from
+// shared/schema.ts with `npm run db:push`.
+export function createDb(connectionString: string): Database {
+  return drizzle({ connection: connectionString, schema });
+}
+
+// Postgres compiled to WebAssembly and run in-process (PGlite), so the SQL
+// storage can run without a database server. Data is kept in `dataDir`, or
+// only in memory when it is left out. `ready` resolves once the generated
+// migrations in migrations/ have been applied.
+export function createEmbeddedDb(dataDir?: string): {
+  db: Database;
+  ready: Promise<void>;
+} {
+  const db = drizzlePglite({ connection: { dataDir }, schema });
+  const ready = migrate(db, {
+    migrationsFolder: path.resolve(process.cwd(), "migrations"),
+  });
+  return { db, ready };
+}
@@ -1,12 +1,17 @@
 import express from "express";
 import type { Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { trustProxy } from "./rate-limit";
 import * as fs from "fs";
 import * as path from "path";
 
 const app = express();
 const log = console.log;
 
+// Behind a reverse proxy, TRUST_PROXY lets its X-Forwarded-For set `req.ip`,
+// which the auth rate limit keys on. Off by default.
+app.set("trust proxy", trustProxy());
+
 declare module "http" {
   interface IncomingMessage {
     rawBody: unknown;
@@ -0,0 +1,49 @@
+import type { Request, Response, NextFunction } from "express";
+
+// Reads TRUST_PROXY for Express's "trust proxy" setting: unset or "false"
+// trusts no proxy, "true" trusts every hop, a number trusts that many hops and
+// anything else is a comma-separated list of proxy addresses or subnets. Only
+// a trusted proxy's X-Forwarded-For changes `req.ip`, so clients cannot pick
+// their own address to get a fresh rate limit.
+export function trustProxy(value = process.env.TRUST_PROXY): boolean | number | string {
+  const setting = value?.trim() ?? "";
+  if (setting === "" || setting === "false") return false;
+  if (setting === "true") return true;
+  if (/^\d+$/.test(setting)) return Number(setting);
+  return setting;
+}
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+// Allows `max` requests per client IP in each `windowMs`, then answers 429
+// until the window ends. Counts live in process memory, so they reset on a
+// restart and are not shared between server instances.
+export function rateLimit({ windowMs, max }: { windowMs: number; max: number }) {
+  const windows = new Map<string, Window>();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const now = Date.now();
+    // Ended windows are dropped as requests come in, which keeps the map to
+    // the addresses seen in the last window.
+    windows.forEach((window, key) => {
+      if (window.resetAt <= now) windows.delete(key);
+    });
+    const key = req.ip ?? "unknown";
+    let window = windows.get(key);
+    if (!window) {
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(key, window);
+    }
+    window.count += 1;
+    if (window.count > max) {
+      res.setHeader("Retry-After", Math.ceil((window.resetAt - now) / 1000));
+      return res
+        .status(429)
+        .json({ message: "Too many attempts, please try again later" });
+    }
+    next();
+  };
+}
@@ -1,10 +1,213 @@
 import type { Express } from "express";
 import { createServer, type Server } from "node:http";
+import {
+  insertInvoiceSchema,
+  updateInvoiceSchema,
+  invoiceListQuerySchema,
+  insertShootSchema,
+  updateShootSchema,
+  insertUpcomingShootSchema,
+  updateUpcomingShootSchema,
+  insertExpenseSchema,
+  updateExpenseSchema,
+  monthQuerySchema,
+} from "@shared/schema";
+import { storage, storageReady } from "./storage";
+import { registerAuthRoutes, requireAuth } from "./auth";
+import { validate } from "./validate";
+
+function today(): string {
+  const now = new Date();
+  const month = String(now.getMonth() + 1).padStart(2, "0");
+  const day = String(now.getDate()).padStart(2, "0");
+  return `${now.getFullYear()}-${month}-${day}`;
+}
+
+// Postgres reports SQLSTATE 23505 when a write breaks a unique index; for
+// invoices that is the invoice number index.
+function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: unknown } | null)?.code === "23505";
+}
+
+function numberTaken(invoiceNumber: string) {
+  return {
+    message: `Invoice number ${invoiceNumber} is already used by another invoice.`,
+  };
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // put application routes here
   // prefix all routes with /api
 
+  await storageReady;
+
+  // Everything under /api except the auth routes needs a signed-in user.
+  registerAuthRoutes(app);
+  app.use("/api", requireAuth);
+
+  app.get("/api/invoices", async (req, res) => {
+    const query = validate(invoiceListQuerySchema, req.query, res);
+    if (!query) return;
+    res.json(await storage.listInvoices(query));
+  });
+
+  app.get("/api/invoices/:id", async (req, res) => {
+    const invoice = await storage.getInvoice(req.params.id);
+    if (!invoice) return res.status(404).json({ message: "Invoice not found" });
+    res.json(invoice);
+  });
+
+  app.post("/api/invoices", async (req, res) => {
+    const data = validate(insertInvoiceSchema, req.body, res);
+    if (!data) return;
+    if (await storage.getInvoiceByNumber(data.invoiceNumber)) {
+      return res.status(409).json(numberTaken(data.invoiceNumber));
+    }
+    // The check above gives the usual answer; the index still catches two
+    // requests racing for the same number.
+    try {
+      res.status(201).json(await storage.createInvoice(data));
+    } catch (error) {
+      if (!isUniqueViolation(error)) throw error;
+      res.status(409).json(numberTaken(data.invoiceNumber));
+    }
+  });
+
+  app.put("/api/invoices/:id", async (req, res) => {
+    const updates = validate(updateInvoiceSchema, req.body, res);
+    if (!updates) return;
+    if (updates.invoiceNumber !== undefined) {
+      const taken = await storage.getInvoiceByNumber(updates.invoiceNumber);
+      if (taken && taken.id !== req.params.id) {
+        return res.status(409).json(numberTaken(updates.invoiceNumber));
+      }
+    }
+    let invoice;
+    try {
+      invoice = await storage.updateInvoice(req.params.id, updates);
+    } catch (error) {
+      if (!isUniqueViolation(error) || updates.invoiceNumber === undefined) throw error;
+      return res.status(409).json(numberTaken(updates.invoiceNumber));
+    }
+    if (!invoice) return res.status(404).json({ message: "Invoice not found" });
+    res.json(invoice);
+  });
+
+  app.delete("/api/invoices/:id", async (req, res) => {
+    const deleted = await storage.deleteInvoice(req.params.id);
+    if (!deleted) return res.status(404).json({ message: "Invoice not found" });
+    res.status(204).end();
+  });
+
+  app.get("/api/shoots", async (req, res) => {
+    const query = validate(monthQuerySchema, req.query, res);
+    if (!query) return;
+    res.json(await storage.listShoots(query));
+  });
+
+  app.get("/api/shoots/:id", async (req, res) => {
+    const shoot = await storage.getShoot(req.params.id);
+    if (!shoot) return res.status(404).json({ message: "Shoot not found" });
+    res.json(shoot);
+  });
+
+  app.post("/api/shoots", async (req, res) => {
+    const data = validate(insertShootSchema, req.body, res);
+    if (!data) return;
+    res.status(201).json(await storage.createShoot(data));
+  });
+
+  app.put("/api/shoots/:id", async (req, res) => {
+    const updates = validate(updateShootSchema, req.body, res);
+    if (!updates) return;
+    const shoot = await storage.updateShoot(req.params.id, updates);
+    if (!shoot) return res.status(404).json({ message: "Shoot not found" });
+    res.json(shoot);
+  });
+
+  app.delete("/api/shoots/:id", async (req, res) => {
+    const deleted = await storage.deleteShoot(req.params.id);
+    if (!deleted) return res.status(404).json({ message: "Shoot not found" });
+    res.status(204).end();
+  });
+
+  app.get("/api/upcoming", async (_req, res) => {
+    res.json(await storage.listUpcomingShoots());
+  });
+
+  // Bookings from today on that are not completed yet, soonest first.
+  app.get("/api/upcoming/from-today", async (_req, res) => {
+    res.json(await storage.listUpcomingShootsFrom(today()));
+  });
+
+  app.get("/api/upcoming/:id", async (req, res) => {
+    const shoot = await storage.getUpcomingShoot(req.params.id);
+    if (!shoot) return res.status(404).json({ message: "Booking not found" });
+    res.json(shoot);
+  });
+
+  app.post("/api/upcoming", async (req, res) => {
+    const data = validate(insertUpcomingShootSchema, req.body, res);
+    if (!data) return;
+    res.status(201).json(await storage.createUpcomingShoot(data));
+  });
+
+  app.put("/api/upcoming/:id", async (req, res) => {
+    const updates = validate(updateUpcomingShootSchema, req.body, res);
+    if (!updates) return;
+    const shoot = await storage.updateUpcomingShoot(req.params.id, updates);
+    if (!shoot) return res.status(404).json({ message: "Booking not found" });
+    res.json(shoot);
+  });
+
+  app.post("/api/upcoming/:id/complete", async (req, res) => {
+    const result = await storage.completeUpcomingShoot(req.params.id);
+    if (result) return res.json(result);
+    // Nothing was completed; the lookup only picks the answer.
+    if (!(await storage.getUpcomingShoot(req.params.id))) {
+      return res.status(404).json({ message: "Booking not found" });
+    }
+    res.status(409).json({ message: "Booking is already completed" });
+  });
+
+  app.delete("/api/upcoming/:id", async (req, res) => {
+    const deleted = await storage.deleteUpcomingShoot(req.params.id);
+    if (!deleted) return res.status(404).json({ message: "Booking not found" });
+    res.status(204).end();
+  });
+
+  app.get("/api/expenses", async (req, res) => {
+    const query = validate(monthQuerySchema, req.query, res);
+    if (!query) return;
+    res.json(await storage.listExpenses(query));
+  });
+
+  app.get("/api/expenses/:id", async (req, res) => {
+    const expense = await storage.getExpense(req.params.id);
+    if (!expense) return res.status(404).json({ message: "Expense not found" });
+    res.json(expense);
+  });
+
+  app.post("/api/expenses", async (req, res) => {
+    const data = validate(insertExpenseSchema, req.body, res);
+    if (!data) return;
+    res.status(201).json(await storage.createExpense(data));
+  });
+
+  app.put("/api/expenses/:id", async (req, res) => {
+    const updates = validate(updateExpenseSchema, req.body, res);
+    if (!updates) return;
+    const expense = await storage.updateExpense(req.params.id, updates);
+    if (!expense) return res.status(404).json({ message: "Expense not found" });
+    res.json(expense);
+  });
+
+  app.delete("/api/expenses/:id", async (req, res) => {
+    const deleted = await storage.deleteExpense(req.params.id);
+    if (!deleted) return res.status(404).json({ message: "Expense not found" });
+    res.status(204).end();
+  });
+
   const httpServer = createServer(app);
 
   return httpServer;
@@ -1,20 +1,113 @@
-import { type User, type InsertUser } from "@shared/schema";
+import {
+  type User,
+  type InsertUser,
+  type Session,
+  type InsertSession,
+  type Invoice,
+  type InvoiceItem,
+  type InsertInvoice,
+  type InsertInvoiceItem,
+  type UpdateInvoice,
+  type InvoiceListQuery,
+  type ShootEntry,
+  type InsertShoot,
+  type UpdateShoot,
+  type UpcomingShoot,
+  type InsertUpcomingShoot,
+  type UpdateUpcomingShoot,
+  type Expense,
+  type InsertExpense,
+  type UpdateExpense,
+  type MonthQuery,
+  type Page,
+} from "@shared/schema";
 import { randomUUID } from "crypto";
+import { createDb, createEmbeddedDb } from "./db";
+import { DatabaseStorage } from "./database-storage";
 
-// modify the interface with any CRUD methods
-// you might need
+// Dates are stored as YYYY-MM-DD, so a period is a string prefix.
+function inPeriod(date: string, { year, month }: MonthQuery): boolean {
+  if (year === undefined) return true;
+  const prefix =
+    month === undefined
+      ? `${year}-`
+      : `${year}-${String(month).padStart(2, "0")}-`;
+  return date.startsWith(prefix);
+}
+
+function toInvoiceItems(items: InsertInvoiceItem[]): InvoiceItem[] {
+  return items.map((item) => ({
+    id: randomUUID(),
+    description: item.description,
+    quantity: item.quantity ?? "",
+    unitPrice: item.unitPrice ?? null,
+  }));
+}
 
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  hasUsers(): Promise<boolean>;
+
+  // Also clears out sessions that have expired.
+  createSession(session: InsertSession): Promise<Session>;
+  // Only returns sessions that have not expired yet.
+  getSession(id: string): Promise<Session | undefined>;
+  deleteSession(id: string): Promise<void>;
+
+  listInvoices(query: InvoiceListQuery): Promise<Page<Invoice>>;
+  getInvoice(id: string): Promise<Invoice | undefined>;
+  getInvoiceByNumber(invoiceNumber: string): Promise<Invoice | undefined>;
+  createInvoice(invoice: InsertInvoice): Promise<Invoice>;
+  updateInvoice(id: string, updates: UpdateInvoice): Promise<Invoice | undefined>;
+  deleteInvoice(id: string): Promise<boolean>;
+
+  listShoots(query: MonthQuery): Promise<ShootEntry[]>;
+  getShoot(id: string): Promise<ShootEntry | undefined>;
+  createShoot(shoot: InsertShoot): Promise<ShootEntry>;
+  updateShoot(id: string, updates: UpdateShoot): Promise<ShootEntry | undefined>;
+  deleteShoot(id: string): Promise<boolean>;
+
+  listUpcomingShoots(): Promise<UpcomingShoot[]>;
+  listUpcomingShootsFrom(date: string): Promise<UpcomingShoot[]>;
+  getUpcomingShoot(id: string): Promise<UpcomingShoot | undefined>;
+  createUpcomingShoot(shoot: InsertUpcomingShoot): Promise<UpcomingShoot>;
+  updateUpcomingShoot(
+    id: string,
+    updates: UpdateUpcomingShoot,
+  ): Promise<UpcomingShoot | undefined>;
+  // Undefined when the booking is missing or already completed, so two
+  // requests completing the same booking make only one shoot.
+  completeUpcomingShoot(
+    id: string,
+  ): Promise<{ upcoming: UpcomingShoot; shoot: ShootEntry } | undefined>;
+  deleteUpcomingShoot(id: string): Promise<boolean>;
+
+  listExpenses(query: MonthQuery): Promise<Expense[]>;
+  getExpense(id: string): Promise<Expense | undefined>;
+  createExpense(expense: InsertExpense): Promise<Expense>;
+  updateExpense(id: string, updates: UpdateExpense): Promise<Expense | undefined>;
+  deleteExpense(id: string): Promise<boolean>;
 }
 
+// Keeps everything in process memory: nothing survives a restart, which makes
+// it the storage for tests and for running without a database.
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
+  private sessions: Map<string, Session>;
+  private invoices: Map<string, Invoice>;
+  private shoots: Map<string, ShootEntry>;
+  private upcomingShoots: Map<string, UpcomingShoot>;
+  private expenses: Map<string, Expense>;
 
   constructor() {
     this.users = new Map();
+    this.sessions = new Map();
+    this.invoices = new Map();
+    this.shoots = new Map();
+    this.upcomingShoots = new Map();
+    this.expenses = new Map();
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -33,6 +126,321 @@ export class MemStorage implements IStorage {
     this.users.set(id, user);
     return user;
   }
+
+  async hasUsers(): Promise<boolean> {
+    return this.users.size > 0;
+  }
+
+  async createSession(insertSession: InsertSession): Promise<Session> {
+    const now = new Date().toISOString();
+    Array.from(this.sessions.values())
+      .filter((session) => session.expiresAt <= now)
+      .forEach((session) => this.sessions.delete(session.id));
+    const session: Session = { ...insertSession, createdAt: now };
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  async getSession(id: string): Promise<Session | undefined> {
+    const session = this.sessions.get(id);
+    if (!session || session.expiresAt <= new Date().toISOString()) {
+      return undefined;
+    }
+    return session;
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    this.sessions.delete(id);
+  }
+
+  async listInvoices(query: InvoiceListQuery): Promise<Page<Invoice>> {
+    const customer = query.customer?.trim().toLowerCase();
+    // Reversed first so invoices created in the same millisecond still come
+    // out newest first.
+    const matches = Array.from(this.invoices.values())
+      .reverse()
+      .filter((invoice) => !query.from || invoice.invoiceDate >= query.from)
+      .filter((invoice) => !query.to || invoice.invoiceDate <= query.to)
+      .filter((invoice) => !query.clientId || invoice.clientId === query.clientId)
+      .filter(
+        (invoice) =>
+          !customer || invoice.customerNames.toLowerCase().includes(customer),
+      )
+      .filter((invoice) => !query.status || invoice.status === query.status)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    const start = (query.page - 1) * query.pageSize;
+    return {
+      data: matches.slice(start, start + query.pageSize),
+      total: matches.length,
+      page: query.page,
+      pageSize: query.pageSize,
+    };
+  }
+
+  async getInvoice(id: string): Promise<Invoice | undefined> {
+    return this.invoices.get(id);
+  }
+
+  async getInvoiceByNumber(invoiceNumber: string): Promise<Invoice | undefined> {
+    const wanted = invoiceNumber.trim().toLowerCase();
+    return Array.from(this.invoices.values()).find(
+      (invoice) => invoice.invoiceNumber.trim().toLowerCase() === wanted,
+    );
+  }
+
+  async createInvoice(insertInvoice: InsertInvoice): Promise<Invoice> {
+    const now = new Date().toISOString();
+    const invoice: Invoice = {
+      dueDate: null,
+      status: "draft",
+      clientId: null,
+      eventDate: null,
+      eventLocation: "",
+      phoneNumber: "",
+      priceMode: "itemized",
+      fullPrice: null,
+      adjustments: [],
+      payments: [],
+      creditNotes: [],
+      ...insertInvoice,
+      items: toInvoiceItems(insertInvoice.items ?? []),
+      id: randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.invoices.set(invoice.id, invoice);
+    return invoice;
+  }
+
+  async updateInvoice(
+    id: string,
+    updates: UpdateInvoice,
+  ): Promise<Invoice | undefined> {
+    const existing = this.invoices.get(id);
+    if (!existing) return undefined;
+    const invoice: Invoice = {
+      ...existing,
+      ...updates,
+      items: updates.items ? toInvoiceItems(updates.items) : existing.items,
+      updatedAt: new Date().toISOString(),
+    };
+    this.invoices.set(id, invoice);
+    return invoice;
+  }
+
+  async deleteInvoice(id: string): Promise<boolean> {
+    return this.invoices.delete(id);
+  }
+
+  async listShoots(query: MonthQuery): Promise<ShootEntry[]> {
+    return Array.from(this.shoots.values())
+      .filter((shoot) => inPeriod(shoot.shootDate, query))
+      .sort((a, b) => b.shootDate.localeCompare(a.shootDate));
+  }
+
+  async getShoot(id: string): Promise<ShootEntry | undefined> {
+    return this.shoots.get(id);
+  }
+
+  async createShoot(insertShoot: InsertShoot): Promise<ShootEntry> {
+    const now = new Date().toISOString();
+    const shoot: ShootEntry = {
+      upcomingShootId: null,
+      clientId: null,
+      shootTime: "",
+      shootLocation: "",
+      salonName: "",
+      modelName: "",
+      price: "0",
+      advancePaid: null,
+      phoneNumber: "",
+      notes: "",
+      ...insertShoot,
+      id: randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.shoots.set(shoot.id, shoot);
+    return shoot;
+  }
+
+  async updateShoot(
+    id: string,
+    updates: UpdateShoot,
+  ): Promise<ShootEntry | undefined> {
+    const existing = this.shoots.get(id);
+    if (!existing) return undefined;
+    const shoot: ShootEntry = {
+      ...existing,
+      ...updates,
+      updatedAt: new Date().toISOString(),
+    };
+    this.shoots.set(id, shoot);
+    return shoot;
+  }
+
+  async deleteShoot(id: string): Promise<boolean> {
+    return this.shoots.delete(id);
+  }
+
+  async listUpcomingShoots(): Promise<UpcomingShoot[]> {
+    return Array.from(this.upcomingShoots.values()).sort((a, b) =>
+      a.shootDate.localeCompare(b.shootDate),
+    );
+  }
+
+  async listUpcomingShootsFrom(date: string): Promise<UpcomingShoot[]> {
+    const shoots = await this.listUpcomingShoots();
+    return shoots.filter((shoot) => shoot.shootDate >= date && !shoot.completed);
+  }
+
+  async getUpcomingShoot(id: string): Promise<UpcomingShoot | undefined> {
+    return this.upcomingShoots.get(id);
+  }
+
+  async createUpcomingShoot(
+    insertShoot: InsertUpcomingShoot,
+  ): Promise<UpcomingShoot> {
+    const now = new Date().toISOString();
+    const shoot: UpcomingShoot = {
+      clientId: null,
+      shootTime: "",
+      shootLocation: "",
+      salonName: "",
+      modelName: "",
+      contactNumber: "",
+      packagePrice: null,
+      advancePaid: null,
+      notes: "",
+      completed: false,
+      ...insertShoot,
+      id: randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.upcomingShoots.set(shoot.id, shoot);
+    return shoot;
+  }
+
+  async updateUpcomingShoot(
+    id: string,
+    updates: UpdateUpcomingShoot,
+  ): Promise<UpcomingShoot | undefined> {
+    const existing = this.upcomingShoots.get(id);
+    if (!existing) return undefined;
+    const shoot: UpcomingShoot = {
+      ...existing,
+      ...updates,
+      updatedAt: new Date().toISOString(),
+    };
+    this.upcomingShoots.set(id, shoot);
+    return shoot;
+  }
+
+  // Same as the app: the booking is marked done and its details become a
+  // shoot entry, with the package price as the shoot price.
+  async completeUpcomingShoot(
+    id: string,
+  ): Promise<{ upcoming: UpcomingShoot; shoot: ShootEntry } | undefined> {
+    const existing = this.upcomingShoots.get(id);
+    if (!existing || existing.completed) return undefined;
+    const now = new Date().toISOString();
+    const upcoming: UpcomingShoot = { ...existing, completed: true, updatedAt: now };
+    const shoot: ShootEntry = {
+      id: randomUUID(),
+      upcomingShootId: existing.id,
+      clientId: existing.clientId,
+      clientName: existing.clientName,
+      shootDate: existing.shootDate,
+      shootTime: existing.shootTime,
+      shootLocation: existing.shootLocation,
+      salonName: existing.salonName,
+      modelName: existing.modelName,
+      shootType: existing.shootType,
+      price: existing.packagePrice || "0",
+      advancePaid: existing.advancePaid,
+      phoneNumber: existing.contactNumber,
+      notes: existing.notes,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.upcomingShoots.set(id, upcoming);
+    this.shoots.set(shoot.id, shoot);
+    return { upcoming, shoot };
+  }
+
+  async deleteUpcomingShoot(id: string): Promise<boolean> {
+    return this.upcomingShoots.delete(id);
+  }
+
+  async listExpenses(query: MonthQuery): Promise<Expense[]> {
+    return Array.from(this.expenses.values())
+      .reverse()
+      .filter((expense) => inPeriod(expense.date, query))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async getExpense(id: string): Promise<Expense | undefined> {
+    return this.expenses.get(id);
+  }
+
+  async createExpense(insertExpense: InsertExpense): Promise<Expense> {
+    const expense: Expense = {
+      ...insertExpense,
+      id: randomUUID(),
+      createdAt: new Date().toISOString(),
+    };
+    this.expenses.set(expense.id, expense);
+    return expense;
+  }
+
+  async updateExpense(
+    id: string,
+    updates: UpdateExpense,
+  ): Promise<Expense | undefined> {
+    const existing = this.expenses.get(id);
+    if (!existing) return undefined;
+    const expense: Expense = { ...existing, ...updates };
+    this.expenses.set(id, expense);
+    return expense;
+  }
+
+  async deleteExpense(id: string): Promise<boolean> {
+    return this.expenses.delete(id);
+  }
+}
+
+// STORAGE_DRIVER picks "memory", "postgres" or "pglite" (the embedded
+// Postgres, kept in PGLITE_DATA_DIR or in memory); without it the database is
+// used whenever DATABASE_URL is set. `ready` resolves once the storage can
+// take requests.
+function createStorage(): { storage: IStorage; ready: Promise<void> } {
+  const driver =
+    process.env.STORAGE_DRIVER ||
+    (process.env.DATABASE_URL ? "postgres" : "memory");
+  if (driver === "memory") {
+    return { storage: new MemStorage(), ready: Promise.resolve() };
+  }
+  if (driver === "postgres") {
+    if (!process.env.DATABASE_URL) {
+      throw new Error("STORAGE_DRIVER=postgres needs DATABASE_URL to be set");
+    }
+    return {
+      storage: new DatabaseStorage(createDb(process.env.DATABASE_URL)),
+      ready: Promise.resolve(),
+    };
+  }
+  if (driver === "pglite") {
+    const { db, ready } = createEmbeddedDb(process.env.PGLITE_DATA_DIR);
+    return { storage: new DatabaseStorage(db), ready };
+  }
+  throw new Error(
+    `Unknown STORAGE_DRIVER "${driver}", expected "memory", "postgres" or "pglite"`,
+  );
 }
 
-export const storage = new MemStorage();
+const created = createStorage();
+
+export const storage = created.storage;
+export const storageReady = created.ready;
@@ -0,0 +1,18 @@
+import type { Response } from "express";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+
+// Parses `data` with `schema`, answering 400 with a readable message when it
+// does not match. Callers stop when this returns undefined.
+export function validate<T extends z.ZodTypeAny>(
+  schema: T,
+  data: unknown,
+  res: Response,
+): z.infer<T> | undefined {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    res.status(400).json({ message: fromZodError(result.error).message });
+    return undefined;
+  }
+  return result.data;
+}
@@ -1,6 +1,17 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar } from "drizzle-orm/pg-core";
-import { createInsertSchema } from "drizzle-zod";
+import {
+  pgTable,
+  text,
+  varchar,
+  numeric,
+  date,
+  timestamp,
+  boolean,
+  integer,
+  jsonb,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
 
 export const users = pgTable("users", {
@@ -16,5 +27,401 @@ export const insertUserSchema = createInsertSchema(users).pick({
   password: true,
 });
 
+export const registerUserSchema = insertUserSchema.extend({
+  username: z
+    .string()
+    .trim()
+    .min(3, "Username must be at least 3 characters")
+    .max(50, "Username must be at most 50 characters"),
+  password: z
+    .string()
+    .min(8, "Password must be at least 8 characters")
+    .max(200, "Password must be at most 200 characters"),
+});
+
+export const loginSchema = z.object({
+  username: z.string().trim().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+// What the API returns for a user: never the password hash.
+export type PublicUser = Omit<User, "password">;
+
+// A login. The id is the SHA-256 of the token in the session cookie, so the
+// table alone is not enough to sign in as anyone.
+export const sessions = pgTable("sessions", {
+  id: text("id").primaryKey(),
+  userId: varchar("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  expiresAt: timestamp("expires_at", { withTimezone: true, mode: "string" }).notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
+    .notNull()
+    .defaultNow(),
+});
+
+export type Session = typeof sessions.$inferSelect;
+export type InsertSession = Omit<typeof sessions.$inferInsert, "createdAt">;
+
+// The business tables mirror the app's types in lib/storage.ts. Money is
+// numeric(12, 2), which drizzle reads and writes as a decimal string, and
+// dates are YYYY-MM-DD. A value the app leaves blank is null here.
+const money = (name: string) => numeric(name, { precision: 12, scale: 2 });
+const timestamps = {
+  createdAt: timestamp("created_at", { withTimezone: true, mode: "string" })
+    .notNull()
+    .defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true, mode: "string" })
+    .notNull()
+    .defaultNow(),
+};
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date");
+const amount = z
+  .string()
+  .trim()
+  .regex(/^\d+(\.\d{1,2})?$/, "Expected an amount such as 1500 or 1500.50");
+
+export const invoiceStatuses = [
+  "draft",
+  "sent",
+  "partially_paid",
+  "paid",
+  "overdue",
+  "cancelled",
+] as const;
+
+export const paymentMethods = ["Cash", "Bank Transfer", "Card"] as const;
+
+export const shootTypes = [
+  "Bridal",
+  "Wedding",
+  "Birthday",
+  "Pre-shoot",
+  "Events",
+  "Casual",
+  "Commercial",
+] as const;
+
+export const reminderTimings = ["1h", "3h", "1d", "2d"] as const;
+
+// Adjustments, payments and credit notes are only ever read and written with
+// their invoice, so they are kept on it as JSON rather than in tables.
+export const invoiceAdjustmentSchema = z.object({
+  id: z.string().min(1),
+  kind: z.enum(["discount", "surcharge", "tax"]),
+  label: z.string(),
+  mode: z.enum(["percent", "fixed"]),
+  value: amount,
+});
+
+export const invoicePaymentSchema = z.object({
+  id: z.string().min(1),
+  amount,
+  date: isoDate,
+  method: z.enum(paymentMethods),
+  reference: z.string().default(""),
+  receiptNumber: z.string().default(""),
+});
+
+export const creditNoteSchema = z.object({
+  id: z.string().min(1),
+  creditNoteNumber: z.string(),
+  date: isoDate,
+  reason: z.string().default(""),
+  amount,
+  refundAmount: amount.or(z.literal("")).default(""),
+  method: z.enum(paymentMethods),
+  reference: z.string().default(""),
+});
+
+export type InvoiceAdjustment = z.infer<typeof invoiceAdjustmentSchema>;
+export type InvoicePayment = z.infer<typeof invoicePaymentSchema>;
+export type CreditNote = z.infer<typeof creditNoteSchema>;
+
+export const invoices = pgTable("invoices", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  invoiceNumber: text("invoice_number").notNull(),
+  invoiceDate: date("invoice_date").notNull(),
+  dueDate: date("due_date"),
+  status: text("status", { enum: invoiceStatuses }).notNull().default("draft"),
+  clientId: varchar("client_id"),
+  customerNames: text("customer_names").notNull(),
+  eventDate: date("event_date"),
+  eventLocation: text("event_location").notNull().default(""),
+  phoneNumber: text("phone_number").notNull().default(""),
+  priceMode: text("price_mode", { enum: ["itemized", "manual"] })
+    .notNull()
+    .default("itemized"),
+  fullPrice: money("full_price"),
+  adjustments: jsonb("adjustments").$type<InvoiceAdjustment[]>().notNull().default([]),
+  payments: jsonb("payments").$type<InvoicePayment[]>().notNull().default([]),
+  creditNotes: jsonb("credit_notes").$type<CreditNote[]>().notNull().default([]),
+  ...timestamps,
+}, (table) => [
+  // Numbers are compared the way the app does: ignoring case and surrounding
+  // spaces, so "inv-001 " and "INV-001" cannot both exist.
+  uniqueIndex("invoices_invoice_number_unique").on(
+    sql`lower(trim(${table.invoiceNumber}))`,
+  ),
+]);
+
+export const invoiceItems = pgTable("invoice_items", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  invoiceId: varchar("invoice_id")
+    .notNull()
+    .references(() => invoices.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(),
+  description: text("description").notNull(),
+  // Free text: the app prints quantities such as "---" as they are typed.
+  quantity: text("quantity").notNull().default(""),
+  unitPrice: money("unit_price"),
+});
+
+export const upcomingShoots = pgTable("upcoming_shoots", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  clientId: varchar("client_id"),
+  clientName: text("client_name").notNull(),
+  shootDate: date("shoot_date").notNull(),
+  shootTime: text("shoot_time").notNull().default(""),
+  shootLocation: text("shoot_location").notNull().default(""),
+  salonName: text("salon_name").notNull().default(""),
+  modelName: text("model_name").notNull().default(""),
+  shootType: text("shoot_type", { enum: shootTypes }).notNull(),
+  contactNumber: text("contact_number").notNull().default(""),
+  packagePrice: money("package_price"),
+  advancePaid: money("advance_paid"),
+  notes: text("notes").notNull().default(""),
+  completed: boolean("completed").notNull().default(false),
+  ...timestamps,
+});
+
+export const shoots = pgTable("shoots", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  // Set when the shoot was created by completing a booking.
+  upcomingShootId: varchar("upcoming_shoot_id").references(
+    () => upcomingShoots.id,
+    { onDelete: "set null" },
+  ),
+  clientId: varchar("client_id"),
+  clientName: text("client_name").notNull(),
+  shootDate: date("shoot_date").notNull(),
+  shootTime: text("shoot_time").notNull().default(""),
+  shootLocation: text("shoot_location").notNull().default(""),
+  salonName: text("salon_name").notNull().default(""),
+  modelName: text("model_name").notNull().default(""),
+  shootType: text("shoot_type", { enum: shootTypes }).notNull(),
+  price: money("price").notNull().default("0"),
+  advancePaid: money("advance_paid"),
+  phoneNumber: text("phone_number").notNull().default(""),
+  notes: text("notes").notNull().default(""),
+  ...timestamps,
+});
+
+export const expenses = pgTable("expenses", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  description: text("description").notNull(),
+  amount: money("amount").notNull(),
+  date: date("date").notNull(),
+  createdAt: timestamps.createdAt,
+});
+
+// Settings are one row per account.
+export const branding = pgTable("branding", {
+  userId: varchar("user_id")
+    .primaryKey()
+    .references(() => users.id, { onDelete: "cascade" }),
+  businessName: text("business_name").notNull().default(""),
+  businessSub: text("business_sub").notNull().default(""),
+  ownerName: text("owner_name").notNull().default(""),
+  contactPhone: text("contact_phone").notNull().default(""),
+  contactEmail: text("contact_email").notNull().default(""),
+  bankAccount: text("bank_account").notNull().default(""),
+  bankHolder: text("bank_holder").notNull().default(""),
+  bankName: text("bank_name").notNull().default(""),
+  bankBranch: text("bank_branch").notNull().default(""),
+  logoUri: text("logo_uri").notNull().default(""),
+  updatedAt: timestamps.updatedAt,
+});
+
+export const reminderSettings = pgTable("reminder_settings", {
+  userId: varchar("user_id")
+    .primaryKey()
+    .references(() => users.id, { onDelete: "cascade" }),
+  shootReminders: boolean("shoot_reminders").notNull().default(true),
+  invoiceReminders: boolean("invoice_reminders").notNull().default(true),
+  reminderTiming: text("reminder_timing", { enum: reminderTimings })
+    .notNull()
+    .default("1d"),
+  updatedAt: timestamps.updatedAt,
+});
+
+const invoiceJsonColumns = {
+  adjustments: () => z.array(invoiceAdjustmentSchema),
+  payments: () => z.array(invoicePaymentSchema),
+  creditNotes: () => z.array(creditNoteSchema),
+};
+
+// Server-managed columns are never taken from a request body.
+const generated = { id: true, createdAt: true, updatedAt: true } as const;
+
+// drizzle-zod makes a refined column optional when it is nullable or has a
+// default, but leaves it required in the inferred type; `.partial()` on those
+// columns brings the type in line.
+
+export const selectInvoiceItemSchema = createSelectSchema(invoiceItems);
+
+// Item ids are always assigned by the server: they are unique across every
+// invoice, so an id sent by a client (say, from a copied invoice) would clash.
+export const insertInvoiceItemSchema = createInsertSchema(invoiceItems, {
+  unitPrice: () => amount,
+})
+  .omit({ id: true, invoiceId: true, position: true })
+  .partial({ unitPrice: true });
+
+export const selectInvoiceSchema = createSelectSchema(
+  invoices,
+  invoiceJsonColumns,
+).extend({
+  items: z.array(selectInvoiceItemSchema.omit({ invoiceId: true, position: true })),
+});
+
+export const insertInvoiceSchema = createInsertSchema(invoices, {
+  ...invoiceJsonColumns,
+  invoiceNumber: (schema) => schema.trim().min(1, "Invoice number is required"),
+  invoiceDate: () => isoDate,
+  dueDate: () => isoDate,
+  customerNames: (schema) => schema.trim().min(1, "Customer name is required"),
+  eventDate: () => isoDate,
+  fullPrice: () => amount,
+})
+  .omit(generated)
+  .partial({
+    dueDate: true,
+    eventDate: true,
+    fullPrice: true,
+    adjustments: true,
+    payments: true,
+    creditNotes: true,
+  })
+  .extend({ items: z.array(insertInvoiceItemSchema).optional() });
+
+// Fields left out of an update keep their stored value. Sending `items`
+// replaces the whole list.
+export const updateInvoiceSchema = insertInvoiceSchema.partial();
+
+const shootColumns = {
+  clientName: (schema: z.ZodString) => schema.trim().min(1, "Client name is required"),
+  shootDate: () => isoDate,
+  advancePaid: () => amount,
+};
+
+export const selectShootSchema = createSelectSchema(shoots);
+
+export const insertShootSchema = createInsertSchema(shoots, {
+  ...shootColumns,
+  price: () => amount,
+})
+  .omit({ ...generated, upcomingShootId: true })
+  .partial({ price: true, advancePaid: true });
+
+export const updateShootSchema = insertShootSchema.partial();
+
+export const selectUpcomingShootSchema = createSelectSchema(upcomingShoots);
+
+export const insertUpcomingShootSchema = createInsertSchema(upcomingShoots, {
+  ...shootColumns,
+  packagePrice: () => amount,
+})
+  .omit(generated)
+  .partial({ packagePrice: true, advancePaid: true });
+
+export const updateUpcomingShootSchema = insertUpcomingShootSchema.partial();
+
+export const selectExpenseSchema = createSelectSchema(expenses);
+
+export const insertExpenseSchema = createInsertSchema(expenses, {
+  description: (schema) => schema.trim().min(1, "Description is required"),
+  amount: () => amount,
+  date: () => isoDate,
+}).omit({ id: true, createdAt: true });
+
+export const updateExpenseSchema = insertExpenseSchema.partial();
+
+export const selectBrandingSchema = createSelectSchema(branding);
+
+export const updateBrandingSchema = createInsertSchema(branding)
+  .omit({ userId: true, updatedAt: true })
+  .partial();
+
+export const selectReminderSettingsSchema = createSelectSchema(reminderSettings);
+
+export const updateReminderSettingsSchema = createInsertSchema(reminderSettings)
+  .omit({ userId: true, updatedAt: true })
+  .partial();
+
+export const invoiceListQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+  clientId: z.string().optional(),
+  customer: z.string().optional(),
+  status: z.enum(invoiceStatuses).optional(),
+});
+
+// `month` is 1-12 and needs a `year`; a year alone returns the whole year.
+export const monthQuerySchema = z
+  .object({
+    year: z.coerce.number().int().min(1900).max(9999).optional(),
+    month: z.coerce.number().int().min(1).max(12).optional(),
+  })
+  .refine((query) => query.month === undefined || query.year !== undefined, {
+    message: "A month filter needs a year",
+    path: ["year"],
+  });
+
+export type InvoiceItem = z.infer<typeof selectInvoiceSchema>["items"][number];
+export type InsertInvoiceItem = z.infer<typeof insertInvoiceItemSchema>;
+export type Invoice = z.infer<typeof selectInvoiceSchema>;
+export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
+export type UpdateInvoice = z.infer<typeof updateInvoiceSchema>;
+export type InvoiceListQuery = z.infer<typeof invoiceListQuerySchema>;
+
+export type ShootEntry = typeof shoots.$inferSelect;
+export type InsertShoot = z.infer<typeof insertShootSchema>;
+export type UpdateShoot = z.infer<typeof updateShootSchema>;
+
+export type UpcomingShoot = typeof upcomingShoots.$inferSelect;
+export type InsertUpcomingShoot = z.infer<typeof insertUpcomingShootSchema>;
+export type UpdateUpcomingShoot = z.infer<typeof updateUpcomingShootSchema>;
+
+export type Expense = typeof expenses.$inferSelect;
+export type InsertExpense = z.infer<typeof insertExpenseSchema>;
+export type UpdateExpense = z.infer<typeof updateExpenseSchema>;
+
+export type Branding = typeof branding.$inferSelect;
+export type UpdateBranding = z.infer<typeof updateBrandingSchema>;
+export type ReminderSettings = typeof reminderSettings.$inferSelect;
+export type UpdateReminderSettings = z.infer<typeof updateReminderSettingsSchema>;
+
+export type MonthQuery = z.infer<typeof monthQuerySchema>;
+
+export interface Page<T> {
+  data: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+}